@@ -1,33 +1,19 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { Observer, Guild, SimulationParams, SimulationStats, Candle, TradingStats, Position, TradingSignal, TrainingState, EpochMetrics, ModelCheckpoint } from './types';
-import { DEFAULT_SIMULATION_PARAMS, SIMULATION_SPEED_MS, PRIMES, TRAINING_TIMEFRAMES } from './constants';
-import { getRandomInt, calculateReward, calculateEmbedding } from './services/simulationService';
-import { fetchMarketData } from './services/marketDataService';
-import { generateTradingSignal, executeTradingSignal, calculateTradingStats } from './services/tradingService';
-import { extractEcologyFeatures } from './services/ecologyFeaturesService';
-import { assignTradingCredit, selectTradingElite, getConsensusAction } from './services/rlTradingService';
-import {
-  calculateFitness,
-  evolveObserver,
-  mutateStrategyGenes,
-  generateLearnedAction,
-  recordExperience,
-  selectEliteByFitness,
-  selectEliteEnsemble,
-  calculateAdaptiveMutationRate,
-  sampleExperiences,
-  calculateFitnessFromSamples
-} from './services/evolutionaryLearningService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { SimulationParams, MarketDataProvider, Candle, DataQualityResult, ModelCheckpoint, KlineStreamStatus, SimulationSnapshot, SimulationSpeed, SimulationWorkerClient, SimulationTimeline, ForkParams } from './types';
+import { DEFAULT_SIMULATION_PARAMS, TRAINING_TIMEFRAMES } from './constants';
+import { mexcMarketDataProvider, createLocalMarketDataProvider, parseCandleFile, getSymbolInfo } from './services/marketDataService';
+import { createSyntheticMarketDataProvider } from './services/syntheticMarketService';
+import { createWebSocketKlineStream } from './services/klineStreamService';
+import { checkMarketData, assertTimeframeMatches } from './services/dataQualityService';
+import { createResamplingMarketDataProvider } from './services/resampleService';
+import { createSimulationWorker } from './services/simulationWorkerClient';
+import { MIN_CANDLES } from './services/simulationEngine';
+import { getLeadGuild, getAllObservers } from './services/guildEcologyService';
 import {
   saveModel,
   loadModel,
   exportModel,
   importModel,
-  createTrainValSplit,
-  calculateEpochMetrics,
-  shouldStopEarly,
-  calculateLearningRate,
-  maintainDiversity,
   suggestHyperparameters,
 } from './services/professionalTrainingService';
 import ControlPanel from './components/ControlPanel';
@@ -35,718 +21,351 @@ import HilbertSpaceView from './components/HilbertSpaceView';
 import InfoPanel from './components/InfoPanel';
 import MarketView from './components/EnvironmentView';
 import GuildDynamicsView from './components/GuildDynamicsView';
+import RewardDistributionView from './components/RewardDistributionView';
+import EntropyView from './components/EntropyView';
+import PopulationView from './components/PopulationView';
+import ParetoFrontView from './components/ParetoFrontView';
+import ArchiveView from './components/ArchiveView';
 import TradingPanel from './components/TradingPanel';
+import DataQualityPanel from './components/DataQualityPanel';
+import TimelinePanel from './components/TimelinePanel';
 import { TrainingMetrics } from './components/TrainingMetrics';
 
 const App: React.FC = () => {
   const [params, setParams] = useState<SimulationParams>(DEFAULT_SIMULATION_PARAMS);
   const [isRunning, setIsRunning] = useState<boolean>(false);
-  const [guild, setGuild] = useState<Guild | null>(null);
-  const [currentTimeStep, setCurrentTimeStep] = useState(60);
-  const [stats, setStats] = useState<SimulationStats>({
-    timeStep: 0,
-    currentPrice: 0,
-    bestPrediction: 0,
-    predictionError: 0,
-    directionAccuracy: 0,
-    totalPredictions: 0,
-    correctPredictions: 0,
-    predictionHistory: [],
-  });
-  const [phaseHistory, setPhaseHistory] = useState<Array<Record<string, number>>>([]);
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  
+  const [speed, setSpeed] = useState<SimulationSpeed>('1x');
+  
+  // The engine owns the ecology and runs in a Web Worker; React only mirrors its throttled snapshots
+  const [engine] = useState<SimulationWorkerClient>(() => createSimulationWorker(DEFAULT_SIMULATION_PARAMS));
+  const [engineState, setEngineState] = useState<SimulationSnapshot>(() => engine.getState());
+  const { guilds, currentTimeStep, startStep, stats, phaseHistory, tradingStats, currentSignal, trainingState, archive } = engineState;
+  const leadGuild = useMemo(() => getLeadGuild(guilds), [guilds]);
+  const allObservers = useMemo(() => getAllObservers(guilds), [guilds]);
+  // Charts that join the entropy chart's grid when their feature is on
+  const optionalCharts = [params.lifecycle.enabled, params.fitnessMode === 'multi-objective', !!archive].filter(Boolean).length;
+  const [timeline, setTimeline] = useState<SimulationTimeline | null>(null);
   
   // State for handling async data fetching
   const [marketData, setMarketData] = useState<Candle[] | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [candlesLoaded, setCandlesLoaded] = useState<number>(0);
+  const [dataQuality, setDataQuality] = useState<DataQualityResult | null>(null);
+  // Bumped when a fresh series is loaded; live appends keep the same version so they don't reinitialize
+  const [dataVersion, setDataVersion] = useState<number>(0);
+  const marketDataRef = useRef<Candle[] | null>(null);
+  marketDataRef.current = marketData;
   
-  // Trading bot state
-  const [tradingStats, setTradingStats] = useState<TradingStats>({
-    totalTrades: 0,
-    winningTrades: 0,
-    losingTrades: 0,
-    winRate: 0,
-    totalPnL: 0,
-    currentPosition: null,
-    positionHistory: [],
-  });
-  const [currentSignal, setCurrentSignal] = useState<TradingSignal | null>(null);
+  // Live streaming state
+  const isLive = params.liveMode && !params.trainingMode;
+  const [liveStatus, setLiveStatus] = useState<KlineStreamStatus>('closed');
+  const [partialCandle, setPartialCandle] = useState<Candle | null>(null);
   
-  // Multi-epoch training state
-  const [trainingState, setTrainingState] = useState<TrainingState>({
-    currentEpoch: 0,
-    totalEpochs: 0,
-    epochsCompleted: 0,
-    timeframeIndex: 0,
-    isTraining: false,
-    epochMetrics: [],
-    bestValidationEpoch: -1,
-    epochsWithoutImprovement: 0,
-    currentLearningRate: params.learningRate,
-  });
+  // Candles loaded from a user-supplied file for the local provider
+  const [localData, setLocalData] = useState<{ fileName: string; candles: Candle[] } | null>(null);
   
-  // Preserve observers between epochs for continuous learning
-  const preservedObserversRef = useRef<Observer[] | null>(null);
+  const symbolInfo = useMemo(() => getSymbolInfo(params.symbol), [params.symbol]);
   
-  // Train/validation split indices
-  const trainValSplitRef = useRef<{ trainIndices: number[]; valIndices: number[] } | null>(null);
-  const [isValidationPhase, setIsValidationPhase] = useState(false);
-  
-  // RL: Track last trade outcome for credit assignment
-  const lastTradeRef = useRef<{ action: 'BUY' | 'SELL' | 'HOLD'; position: Position | null }>({
-    action: 'HOLD',
-    position: null,
-  });
+  const marketDataProvider: MarketDataProvider = useMemo(() => {
+    const baseProvider = (() => {
+      switch (params.dataProvider) {
+        case 'local':
+          return createLocalMarketDataProvider(localData?.candles ?? [], localData?.fileName);
+        case 'synthetic':
+          return createSyntheticMarketDataProvider({ model: params.syntheticModel, seed: params.syntheticSeed });
+        default:
+          return mexcMarketDataProvider;
+      }
+    })();
+    // One base series for every timeframe keeps timeframe-cycling epochs on the same calendar window
+    return params.baseTimeframe
+      ? createResamplingMarketDataProvider(baseProvider, params.baseTimeframe, params.cycleTimeframes ? TRAINING_TIMEFRAMES : [])
+      : baseProvider;
+  }, [params.dataProvider, params.syntheticModel, params.syntheticSeed, params.baseTimeframe, params.cycleTimeframes, localData]);
 
-  const simulationIntervalRef = useRef<number | null>(null);
+  // Mirror engine state and react to run/epoch lifecycle events
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('change', setEngineState),
+      engine.on('timeline', setTimeline),
+      engine.on('finished', () => setIsRunning(false)),
+      engine.on('checkpoint', checkpoint => saveModel(checkpoint.observers, checkpoint.trainingMetrics, checkpoint.params, checkpoint.totalEpochs, checkpoint.archive)),
+      // Cycling timeframes: fetching the next series re-loads the engine and the epoch continues
+      engine.on('awaitingData', timeframe => setParams(prev => ({ ...prev, timeframe }))),
+      engine.on('error', message => {
+        setIsRunning(false);
+        setError(`Simulation error: ${message}`);
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine]);
 
-  // Fetch data when component mounts or timeframe changes
+  // Fetch data when component mounts, the timeframe changes or the provider changes
   useEffect(() => {
     const loadMarketData = async () => {
       try {
         setIsLoading(true);
         setError(null);
-        const data = await fetchMarketData(params.timeframe);
+        setCandlesLoaded(0);
+        const rawData = await marketDataProvider.fetchCandles({
+          symbol: params.symbol,
+          timeframe: params.timeframe,
+          range: params.dateRange ?? undefined,
+          onProgress: setCandlesLoaded,
+        });
+        // Local files hold whatever interval they were saved at; repairing against another would invent candles
+        if (marketDataProvider.id === 'local') assertTimeframeMatches(rawData, params.timeframe);
+        // Validate and repair before anything reaches the reward or volatility math
+        const quality = checkMarketData(rawData, params.timeframe, params.dataRepairPolicy);
+        setDataQuality(quality);
+        const data = quality.candles;
+        if (data.length < MIN_CANDLES) {
+          throw new Error(`Need at least ${MIN_CANDLES} candles to run the simulation, got ${data.length}`);
+        }
         setMarketData(data);
+        setDataVersion(prev => prev + 1);
       } catch (err) {
-        setError("Failed to load market data. The API may be down or your connection is offline.");
+        setMarketData(null);
+        setDataQuality(null);
+        setError(marketDataProvider.id === 'local' || params.baseTimeframe
+          ? `Failed to load ${marketDataProvider.id === 'local' ? 'local ' : ''}market data: ${err instanceof Error ? err.message : String(err)}`
+          : "Failed to load market data. The API may be down or your connection is offline.");
         console.error(err);
       } finally {
         setIsLoading(false);
       }
     };
     loadMarketData();
-  }, [params.timeframe]);
-
-  const initializeSimulation = useCallback(() => {
-    if (!marketData) return;
-
-    setCurrentTimeStep(60);
-    const initialPrice = marketData[59].close;
-
-    const initialCollectivePhase = PRIMES.reduce((acc, p) => {
-      acc[p] = 0;
-      return acc;
-    }, {} as { [prime: number]: number });
-    
-    const searchRange = initialPrice * 0.1;
-
-    // Use preserved observers if continuing training, otherwise create new ones
-    const observers: Observer[] = preservedObserversRef.current || Array.from({ length: params.numObservers }, (_, i) => {
-      const n = initialPrice + getRandomInt(-searchRange, searchRange);
-      const { reward, error } = calculateReward(n, marketData[60].close);
-      const embedding = calculateEmbedding(n, initialCollectivePhase);
-      
-      // Determine proposed action based on predicted vs current price
-      const proposedAction: 'BUY' | 'SELL' | 'HOLD' =
-        n > initialPrice * 1.01 ? 'BUY' :
-        n < initialPrice * 0.99 ? 'SELL' : 'HOLD';
-      
-      return {
-        id: i,
-        n,
-        reward,
-        error,
-        embedding,
-        proposedAction,
-        proposedSize: 0.5 + Math.random() * 0.5, // Random initial size 0.5-1.0
-        tradingReward: 0,
-        contributedToTrade: false,
-        lifetimeTradingPnL: 0,
-        // Evolutionary Strategy with Memory fields
-        experienceBuffer: [],
-        strategyGenes: {
-          riskTolerance: 0.3 + Math.random() * 0.5, // 0.3-0.8 random start
-          trendFollowing: Math.random(), // 0-1 random
-          volatilityPreference: Math.random(), // 0-1 random
-          holdingBias: (Math.random() - 0.5) * 0.4, // -0.2 to 0.2
-        },
-        fitness: 0,
-      };
-    });
-
-    setGuild({
-      id: 'main-guild',
-      collectivePhaseVector: initialCollectivePhase,
-      observers,
-      eliteN: null,
-      eliteReward: -1,
-    });
-
-    setStats({
-      timeStep: 0,
-      currentPrice: initialPrice,
-      bestPrediction: 0,
-      predictionError: 0,
-      directionAccuracy: 0,
-      totalPredictions: 0,
-      correctPredictions: 0,
-      predictionHistory: [],
-    });
-    
-    setPhaseHistory([]);
-    
-    // In training mode, preserve trading stats between epochs for cumulative learning
-    if (!preservedObserversRef.current || !params.trainingMode) {
-      // Reset trading stats only on first epoch or when not in training mode
-      setTradingStats({
-        totalTrades: 0,
-        winningTrades: 0,
-        losingTrades: 0,
-        winRate: 0,
-        totalPnL: 0,
-        currentPosition: null,
-        positionHistory: [],
-      });
+  }, [params.symbol, params.timeframe, params.dateRange, params.dataRepairPolicy, marketDataProvider]);
+  
+  // Load a CSV/JSON candle file for the local provider
+  const handleLoadDataFile = useCallback(async (file: File) => {
+    try {
+      const candles = await parseCandleFile(file);
+      setLocalData({ fileName: file.name, candles });
+      console.log(`✅ Loaded ${candles.length} candles from ${file.name}`);
+    } catch (error) {
+      alert(`Failed to load market data file: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(error);
     }
-    
-    setCurrentSignal(null);
-  }, [params, marketData]);
+  }, []);
 
-  // Initialize simulation when data is loaded or params are reset
-  useEffect(() => {
-    if(marketData) {
-      initializeSimulation();
-    }
-  }, [params.resetToken, initializeSimulation, marketData]);
-  
-  // Auto-restart for next epoch in training mode
+  // Load the engine when data is loaded or params are reset. Other param edits and live appends
+  // must not reload it, so the params and candles at that moment are read from refs, not deps.
+  const loadedResetTokenRef = useRef<number>(params.resetToken);
   useEffect(() => {
-    if (params.trainingMode && trainingState.epochsCompleted < params.targetEpochs && marketData) {
-      // Small delay to allow state to settle
-      const timer = setTimeout(() => {
-        if (trainingState.currentEpoch > 0 && !isRunning) {
-          console.log(`Starting epoch ${trainingState.currentEpoch + 1}/${params.targetEpochs}${params.cycleTimeframes ? ` (${TRAINING_TIMEFRAMES[trainingState.timeframeIndex]})` : ''}`);
-          initializeSimulation();
-          setIsRunning(true);
-        }
-      }, 500);
-      
-      return () => clearTimeout(timer);
+    const currentParams = paramsRef.current;
+    const candles = marketDataRef.current;
+    if (candles) {
+      if (engine.status === 'awaiting-data' && loadedResetTokenRef.current === currentParams.resetToken) {
+        // Next training epoch's timeframe arrived: continue the run (and its random sequence)
+        engine.provideMarketData(candles);
+      } else {
+        engine.load(currentParams, candles);
+      }
+      loadedResetTokenRef.current = currentParams.resetToken;
+      setPartialCandle(null);
     }
-  }, [trainingState.epochsCompleted, params.trainingMode, params.targetEpochs, marketData, initializeSimulation, isRunning, params.cycleTimeframes, trainingState.timeframeIndex, trainingState.currentEpoch]);
+  }, [params.resetToken, dataVersion, engine]);
   
+  // A model keeps the prime basis and embedding it was trained on (no resetToken bump: the engine already reset)
+  const adoptCheckpointBasis = useCallback((checkpoint: ModelCheckpoint) => {
+    setParams(prev => ({ ...prev, primeBasis: checkpoint.params.primeBasis, embedding: checkpoint.params.embedding }));
+  }, []);
+
   // Load saved model
   const handleLoadModel = useCallback(() => {
     const checkpoint = loadModel();
     if (checkpoint) {
-      preservedObserversRef.current = checkpoint.observers;
-      setTrainingState(prev => ({
-        ...prev,
-        epochMetrics: checkpoint.trainingMetrics,
-        epochsCompleted: checkpoint.totalEpochs,
-      }));
-      alert(`Model loaded: ${checkpoint.observers.length} observers, ${checkpoint.totalEpochs} epochs completed`);
-      // Reinitialize with loaded observers
-      setParams(prev => ({ ...prev, resetToken: prev.resetToken + 1 }));
+      engine.loadCheckpoint(checkpoint);
+      adoptCheckpointBasis(checkpoint);
+      alert(`Model loaded: ${checkpoint.observers.length} observers, ${checkpoint.totalEpochs} epochs completed` +
+        (checkpoint.params.symbol !== params.symbol ? `\nNote: trained on ${checkpoint.params.symbol}, running on ${params.symbol}` : ''));
     } else {
       alert('No saved model found');
     }
-  }, []);
+  }, [engine, params.symbol, adoptCheckpointBasis]);
   
   // Save model handler
   const handleSaveModel = useCallback(() => {
-    if (guild) {
-      saveModel(guild.observers, trainingState.epochMetrics, params, trainingState.epochsCompleted);
-      alert(`Model saved: ${guild.observers.length} observers, ${trainingState.epochsCompleted} epochs`);
+    if (allObservers.length > 0) {
+      saveModel(allObservers, trainingState.epochMetrics, params, trainingState.epochsCompleted, archive);
+      alert(`Model saved: ${allObservers.length} observers, ${trainingState.epochsCompleted} epochs`);
     }
-  }, [guild, trainingState.epochMetrics, trainingState.epochsCompleted, params]);
+  }, [allObservers, trainingState.epochMetrics, trainingState.epochsCompleted, params, archive]);
   
   // Export model handler
   const handleExportModel = useCallback(() => {
-    if (guild) {
+    if (allObservers.length > 0) {
       const checkpoint: ModelCheckpoint = {
         version: '1.0',
         timestamp: Date.now(),
-        observers: guild.observers,
+        observers: allObservers,
         trainingMetrics: trainingState.epochMetrics,
         params,
         totalEpochs: trainingState.epochsCompleted,
+        seed: params.seed,
+        archive,
       };
       exportModel(checkpoint);
     }
-  }, [guild, trainingState.epochMetrics, trainingState.epochsCompleted, params]);
+  }, [allObservers, trainingState.epochMetrics, trainingState.epochsCompleted, params, archive]);
   
   // Import model handler
   const handleImportModel = useCallback(async (file: File) => {
     try {
       const checkpoint = await importModel(file);
-      preservedObserversRef.current = checkpoint.observers;
-      setTrainingState(prev => ({
-        ...prev,
-        epochMetrics: checkpoint.trainingMetrics,
-        epochsCompleted: checkpoint.totalEpochs,
-      }));
-      alert(`Model imported: ${checkpoint.observers.length} observers, ${checkpoint.totalEpochs} epochs`);
-      setParams(prev => ({ ...prev, resetToken: prev.resetToken + 1 }));
+      engine.loadCheckpoint(checkpoint);
+      adoptCheckpointBasis(checkpoint);
+      alert(`Model imported: ${checkpoint.observers.length} observers, ${checkpoint.totalEpochs} epochs` +
+        (checkpoint.params.symbol !== params.symbol ? `\nNote: trained on ${checkpoint.params.symbol}, running on ${params.symbol}` : ''));
     } catch (error) {
       alert('Failed to import model: Invalid file format');
       console.error(error);
     }
-  }, []);
+  }, [engine, params.symbol, adoptCheckpointBasis]);
   
-  // Start training mode
+  // Start training mode (reads params through a ref: the control panel calls this right after applying changes)
   const startTraining = useCallback(() => {
-    if (params.trainingMode) {
-      preservedObserversRef.current = null; // Reset for fresh training
-      setTrainingState({
-        currentEpoch: 0,
-        totalEpochs: params.targetEpochs,
-        epochsCompleted: 0,
-        timeframeIndex: 0,
-        isTraining: true,
-        epochMetrics: [],
-        bestValidationEpoch: -1,
-        epochsWithoutImprovement: 0,
-        currentLearningRate: params.learningRate,
-      });
+    if (paramsRef.current.trainingMode) {
+      engine.startTraining(paramsRef.current);
       setIsRunning(true);
     }
-  }, [params.trainingMode, params.targetEpochs, params.learningRate]);
-
-  // Helper function for standard deviation
-  const calculateStdDev = (values: number[]): number => {
-    if (values.length === 0) return 0;
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-    const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-    const variance = squaredDiffs.reduce((sum, val) => sum + val, 0) / values.length;
-    return Math.sqrt(variance);
-  };
+  }, [engine]);
 
-  const runSimulationStep = useCallback(() => {
-    if (!marketData) return;
+  // The worker steps on its own clock; live runs are driven by closed candles instead
+  useEffect(() => {
+    engine.setRunning(isRunning && !!marketData && !isLive);
+  }, [isRunning, engine, marketData, isLive]);
 
-    setCurrentTimeStep(prevStep => {
-      const nextStep = prevStep + 1;
-      if (nextStep >= marketData.length - 1) {
-        // End of epoch reached - Professional Training Integration
-        
-        if (params.trainingMode && trainingState.epochsCompleted < params.targetEpochs) {
-          // Calculate epoch metrics
-          setGuild(currentGuild => {
-            if (!currentGuild) return null;
-            
-            setTradingStats(currentStats => {
-              // Calculate metrics for this epoch
-              const epochMetrics = calculateEpochMetrics(
-                trainingState.currentEpoch,
-                params.timeframe,
-                currentGuild.observers,
-                currentStats.totalTrades,
-                currentStats.winningTrades,
-                currentStats.losingTrades,
-                currentStats.totalPnL,
-                currentStats.sharpeRatio,
-                currentStats.maxDrawdown || 0
-              );
-              
-              // Update training state with metrics
-              setTrainingState(prev => {
-                const newMetrics = [...prev.epochMetrics, epochMetrics];
-                
-                // Check for early stopping
-                if (shouldStopEarly(newMetrics, 3)) {
-                  console.log('🛑 Early stopping activated');
-                  setIsRunning(false);
-                  return { ...prev, isTraining: false, epochMetrics: newMetrics };
-                }
-                
-                // Apply diversity maintenance
-                const diversityMaintainedObservers = maintainDiversity(currentGuild.observers, 0.3);
-                preservedObserversRef.current = diversityMaintainedObservers;
-                
-                // Calculate next learning rate
-                const nextLR = calculateLearningRate(
-                  prev.currentEpoch + 1,
-                  params.targetEpochs,
-                  params.learningRate
-                );
-                
-                // Save model checkpoint
-                saveModel(diversityMaintainedObservers, newMetrics, params, params.targetEpochs);
-                
-                // Move to next epoch
-                const nextEpochsCompleted = prev.epochsCompleted + 1;
-                const nextTimeframeIndex = params.cycleTimeframes
-                  ? (prev.timeframeIndex + 1) % TRAINING_TIMEFRAMES.length
-                  : prev.timeframeIndex;
-                
-                console.log(`✅ Epoch ${prev.currentEpoch + 1} complete: Win Rate ${epochMetrics.winRate.toFixed(1)}%, P&L $${epochMetrics.totalPnL.toFixed(2)}, Diversity ${epochMetrics.diversityScore.toFixed(2)}`);
-                
-                if (nextEpochsCompleted < params.targetEpochs) {
-                  return {
-                    ...prev,
-                    currentEpoch: nextEpochsCompleted,
-                    epochsCompleted: nextEpochsCompleted,
-                    timeframeIndex: nextTimeframeIndex,
-                    epochMetrics: newMetrics,
-                    currentLearningRate: nextLR,
-                  };
-                } else {
-                  // Training complete
-                  console.log(`🎉 Training complete! ${params.targetEpochs} epochs finished`);
-                  setIsRunning(false);
-                  return { ...prev, isTraining: false, epochMetrics: newMetrics };
-                }
-              });
-              
-              return currentStats;
-            });
-            
-            // Update timeframe if cycling
-            if (params.cycleTimeframes && trainingState.epochsCompleted + 1 < params.targetEpochs) {
-              const nextTimeframeIndex = (trainingState.timeframeIndex + 1) % TRAINING_TIMEFRAMES.length;
-              setParams(prev => ({
-                ...prev,
-                timeframe: TRAINING_TIMEFRAMES[nextTimeframeIndex],
-                learningRate: trainingState.currentLearningRate,
-              }));
-            }
-            
-            return currentGuild;
-          });
-          
-          return prevStep;
-        } else if (!params.trainingMode) {
-          // Not in training mode
-          setIsRunning(false);
-          return prevStep;
-        } else {
-          // Training complete
-          setIsRunning(false);
-          setTrainingState(prev => ({ ...prev, isTraining: false }));
-          return prevStep;
-        }
-      }
-      
-      const actualNextClose = marketData[nextStep].close;
-      const currentPrice = marketData[nextStep - 1].close;
-      const recentPrices = marketData.slice(Math.max(0, nextStep - 20), nextStep).map(c => c.close);
-      
-      // Calculate market state once for all observers
-      const volatility = recentPrices.length > 1
-        ? calculateStdDev(recentPrices) / currentPrice
-        : 0.02;
-      const trend = recentPrices.length > 1
-        ? (recentPrices[recentPrices.length - 1] - recentPrices[0]) / recentPrices[0]
-        : 0;
+  useEffect(() => {
+    engine.setSpeed(speed);
+  }, [engine, speed]);
 
-      setGuild(prevGuild => {
-        if (!prevGuild) return null;
+  const handleStepOnce = useCallback(() => engine.step(), [engine]);
 
-        // First evaluate prediction accuracy
-        const evaluatedObservers = prevGuild.observers.map(obs => {
-          const { reward, error } = calculateReward(obs.n, actualNextClose);
-          
-          // Generate learned action based on strategy genes
-          const ecologyFeatures = extractEcologyFeatures(
-            obs.n,
-            currentPrice,
-            reward,
-            prevGuild.collectivePhaseVector,
-            recentPrices
-          );
-          
-          const { action: proposedAction, size: proposedSize } = generateLearnedAction(
-            obs,
-            currentPrice,
-            {
-              volatility,
-              trend,
-              regime: ecologyFeatures.marketRegime,
-            }
-          );
-          
-          return { ...obs, reward, error, proposedAction, proposedSize };
-        });
+  // Timeline: scrubbing pauses the run; forking continues from the step on screen under new params
+  const handleSeek = useCallback((step: number) => {
+    setIsRunning(false);
+    engine.seek(step);
+  }, [engine]);
 
-        // RL: Select elite ensemble (top 3 observers) for more robust learning
-        const eliteEnsemble = selectEliteEnsemble(evaluatedObservers, 3);
-        const eliteObserver = eliteEnsemble[0]; // Primary elite
-        
-        const newEliteN = eliteObserver.n;
-        const newEliteReward = eliteObserver.reward;
-        
-        // Calculate average elite fitness for evolution target
-        const avgEliteFitness = eliteEnsemble.reduce((sum, obs) =>
-          sum + calculateFitness(obs), 0
-        ) / eliteEnsemble.length;
+  const handleStepBack = useCallback(() => engine.stepBack(), [engine]);
 
-        // RL: Update phase vector based on both prediction AND trading success
-        const newCollectivePhaseVector = { ...prevGuild.collectivePhaseVector };
-        for (const p of PRIMES) {
-          const oldPhase = prevGuild.collectivePhaseVector[p];
-          const eliteMod = Math.round(newEliteN) % p;
-          
-          // Weight phase update by trading performance
-          // If elite has good trading history, trust their phase more
-          const tradingWeight = Math.max(0.5, Math.min(1.5,
-            1.0 + (eliteObserver.lifetimeTradingPnL / 1000) // +/- 50% based on P&L
-          ));
-          
-          const effectiveLearningRate = params.learningRate * tradingWeight;
-          newCollectivePhaseVector[p] = (1 - effectiveLearningRate) * oldPhase + effectiveLearningRate * eliteMod;
-        }
+  const handleFork = useCallback((changes: Partial<ForkParams>) => {
+    engine.fork(changes);
+    setParams(prev => ({ ...prev, ...changes })); // No resetToken bump: the forked run keeps going
+  }, [engine]);
 
-        const nextPriceContext = actualNextClose;
-        const searchRange = nextPriceContext * 0.1;
+  // Choosing a Pareto-front member forks the run at the current step with the new driver
+  const handleParetoPick = useCallback((paretoPick: number | null) => handleFork({ paretoPick }), [handleFork]);
 
-        // Evolve observers toward elite ensemble's successful strategies
-        const evolvedObservers = evaluatedObservers.map(obs => {
-          let evolved = obs;
-          
-          // Calculate adaptive mutation rate based on recent performance
-          const adaptiveMutationRate = calculateAdaptiveMutationRate(obs, params.mutationRate);
-          
-          // Evolve strategy genes toward elite's genes (if not already elite)
-          if (!eliteEnsemble.some(elite => elite.id === obs.id)) {
-            // Choose a random elite from ensemble to evolve toward
-            const targetElite = eliteEnsemble[Math.floor(Math.random() * eliteEnsemble.length)];
-            evolved = evolveObserver(obs, targetElite, avgEliteFitness, params.learningRate);
-            
-            // Move prediction toward elite (keep this for convergence)
-            const moveProbability = 1.0 - obs.reward;
-            if (Math.random() < moveProbability) {
-              const direction = Math.sign(newEliteN - obs.n);
-              const step = Math.random() * Math.abs(newEliteN - obs.n) * 0.5;
-              evolved = { ...evolved, n: evolved.n + direction * step };
-            }
-            
-            // Experience replay: learn from sampled past experiences
-            if (obs.experienceBuffer.length > 20 && Math.random() < 0.3) {
-              const sampledExperiences = sampleExperiences(obs, 10);
-              const sampleFitness = calculateFitnessFromSamples(sampledExperiences);
-              
-              // If sampled fitness is poor, increase exploration
-              if (sampleFitness < 0.4) {
-                evolved = mutateStrategyGenes(evolved, adaptiveMutationRate * 1.5, 0.15);
-              }
-            }
-          }
-          
-          // Mutate prediction (exploration) with adaptive rate
-          if (Math.random() < adaptiveMutationRate) {
-            const mutationAmount = getRandomInt(-searchRange / 2, searchRange / 2);
-            evolved = { ...evolved, n: nextPriceContext + mutationAmount };
-          }
-          
-          // Mutate strategy genes (exploration) with adaptive rate
-          evolved = mutateStrategyGenes(evolved, adaptiveMutationRate, 0.1);
-          
-          // Recalculate embedding and action for new state
-          const newEmbedding = calculateEmbedding(evolved.n, newCollectivePhaseVector);
-          
-          const { action: newProposedAction, size: newProposedSize } = generateLearnedAction(
-            evolved,
-            nextPriceContext,
-            {
-              volatility,
-              trend,
-              regime: extractEcologyFeatures(
-                evolved.n,
-                nextPriceContext,
-                evolved.reward,
-                newCollectivePhaseVector,
-                recentPrices
-              ).marketRegime,
-            }
-          );
-          
-          return {
-            ...evolved,
-            embedding: newEmbedding,
-            proposedAction: newProposedAction,
-            proposedSize: newProposedSize,
-          };
-        });
+  // Stream klines while a live run is active
+  useEffect(() => {
+    if (!isLive || !isRunning || !marketDataRef.current) return;
 
-        setStats(prevStats => {
-            const currentPrice = marketData[nextStep - 1].close;
-            const predicted: 'UP' | 'DOWN' = newEliteN > currentPrice ? 'UP' : 'DOWN';
-            const actual: 'UP' | 'DOWN' = actualNextClose > currentPrice ? 'UP' : 'DOWN';
-            const correct = predicted === actual;
-            const priceChange = ((actualNextClose - currentPrice) / currentPrice) * 100;
-            
-            const newPredictionResult = {
-                predicted,
-                actual,
-                correct,
-                priceChange,
-            };
-            
-            const newCorrectPredictions = prevStats.correctPredictions + (correct ? 1 : 0);
-            const newTotalPredictions = prevStats.totalPredictions + 1;
-            const newAccuracy = (newCorrectPredictions / newTotalPredictions) * 100;
-            
-            return {
-                timeStep: nextStep - 60,
-                currentPrice: actualNextClose,
-                bestPrediction: newEliteN,
-                predictionError: eliteObserver.error,
-                directionAccuracy: newAccuracy,
-                totalPredictions: newTotalPredictions,
-                correctPredictions: newCorrectPredictions,
-                lastPrediction: predicted,
-                lastActual: actual,
-                predictionHistory: [...prevStats.predictionHistory, newPredictionResult].slice(-100),
-            };
-        });
-        
-        // Extract ecology features for enhanced trading
-        const ecologyFeatures = extractEcologyFeatures(
-          newEliteN,
-          currentPrice,
-          newEliteReward,
-          newCollectivePhaseVector,
-          recentPrices
-        );
-        
-        const predictedDirection: 'UP' | 'DOWN' = newEliteN > currentPrice ? 'UP' : 'DOWN';
-        
-        // Generate trading signal with ecology features
-        setCurrentSignal(prevSignal => {
-          return generateTradingSignal(
-            newEliteN,
-            actualNextClose,
-            prevGuild.eliteReward * 100,
-            predictedDirection,
-            marketData[nextStep].time,
-            ecologyFeatures
-          );
-        });
-        
-        // Execute trading signal and update positions
-        let tradingOutcome: number | null = null;
-        let executedAction: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
-        
-        setTradingStats(prevTradingStats => {
-          const signal = generateTradingSignal(
-            newEliteN,
-            actualNextClose,
-            prevGuild.eliteReward * 100,
-            predictedDirection,
-            marketData[nextStep].time,
-            ecologyFeatures
-          );
-          
-          executedAction = signal.action;
-          
-          const { newPosition, closedPosition } = executeTradingSignal(
-            signal,
-            prevTradingStats.currentPosition,
-            actualNextClose,
-            marketData[nextStep].time
-          );
-          
-          // Calculate outcome for experience recording
-          if (closedPosition && closedPosition.pnl !== undefined) {
-            tradingOutcome = closedPosition.pnl;
-          }
-          
-          // RL: Store last trade outcome for credit assignment
-          if (closedPosition) {
-            lastTradeRef.current = {
-              action: signal.action,
-              position: closedPosition,
-            };
-          }
-          
-          const updatedHistory = closedPosition
-            ? [...prevTradingStats.positionHistory, closedPosition]
-            : prevTradingStats.positionHistory;
-          
-          return calculateTradingStats(newPosition, updatedHistory);
-        });
-        
-        // Record trading experience for all observers
-        const observersWithExperience = evolvedObservers.map(obs => {
-          const experience = {
-            timestamp: marketData[nextStep].time,
-            marketState: {
-              price: actualNextClose,
-              volatility,
-              trend,
-              regime: ecologyFeatures.marketRegime,
-            },
-            action: obs.proposedAction,
-            proposedSize: obs.proposedSize,
-            outcome: tradingOutcome || 0,
-            wasExecuted: obs.proposedAction === executedAction && tradingOutcome !== null,
-          };
-          
-          return recordExperience(obs, experience);
-        });
-        
-        
-        setPhaseHistory(prevHistory => [
-            ...prevHistory.slice(-99),
-            { generation: nextStep - 60, ...newCollectivePhaseVector }
-        ]);
-        
-        // RL: Final observer state depends on whether we have trading feedback
-        const finalObservers = lastTradeRef.current.position
-          ? assignTradingCredit(observersWithExperience, lastTradeRef.current.action, lastTradeRef.current.position)
-          : observersWithExperience;
-        
-        // Clear trade ref after processing
-        if (lastTradeRef.current.position) {
-          lastTradeRef.current = { action: 'HOLD', position: null };
-        }
-        
-        return {
-          ...prevGuild,
-          observers: finalObservers,
-          collectivePhaseVector: newCollectivePhaseVector,
-          eliteN: newEliteN,
-          eliteReward: newEliteReward,
-        };
-      });
+    const history = marketDataRef.current;
+    const stream = createWebSocketKlineStream({
+      url: params.liveStreamUrl,
+      symbol: params.symbol,
+      timeframe: params.timeframe,
+      lastClosedTime: history[history.length - 1].time,
+      fetchGap: (range) => marketDataProvider.fetchCandles({ symbol: params.symbol, timeframe: params.timeframe, range }),
+    });
 
-      return nextStep;
+    stream.start({
+      onPartialCandle: setPartialCandle,
+      onClosedCandle: (candle) => {
+        // One engine step per closed candle
+        engine.appendCandles([candle]);
+        setMarketData(prev => prev && candle.time > prev[prev.length - 1].time ? [...prev, candle] : prev);
+        engine.step();
+      },
+      onStatusChange: (status) => {
+        setLiveStatus(status);
+        console.log(status === 'open' ? `✅ Live stream connected: ${params.symbol} ${params.timeframe}` : `🔁 Live stream ${status}`);
+      },
+      onError: (streamError) => console.error('❌ Live stream error:', streamError),
     });
-  }, [params, marketData]);
 
-  useEffect(() => {
-    if (isRunning && marketData) {
-      simulationIntervalRef.current = window.setInterval(runSimulationStep, SIMULATION_SPEED_MS);
-    } else {
-      if (simulationIntervalRef.current) {
-        clearInterval(simulationIntervalRef.current);
-      }
-    }
-    return () => {
-      if (simulationIntervalRef.current) {
-        clearInterval(simulationIntervalRef.current);
-      }
-    };
-  }, [isRunning, runSimulationStep, marketData]);
+    return () => stream.stop();
+  }, [engine, isLive, isRunning, params.liveStreamUrl, params.symbol, params.timeframe, marketDataProvider, dataVersion]);
+
+  // Quote volume traded over the 24h of market time ending at the current step
+  const volume24h = useMemo(() => {
+    if (!marketData || marketData.length === 0) return 0;
+    const end = marketData[Math.min(currentTimeStep, marketData.length - 1)].time;
+    return marketData
+      .filter(c => c.time > end - 24 * 60 * 60 * 1000 && c.time <= end)
+      .reduce((sum, c) => sum + (c.quoteVolume ?? c.volume * c.close), 0);
+  }, [marketData, currentTimeStep]);
+
+  const formatCompactUsd = (value: number): string => {
+    if (value <= 0) return '---';
+    if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+    if (value >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
+    if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+    return `$${value.toFixed(0)}`;
+  };
+
+  const renderControlPanel = () => (
+    <ControlPanel
+      params={params}
+      setParams={setParams}
+      isRunning={isRunning}
+      setIsRunning={setIsRunning}
+      trainingState={trainingState}
+      onStartTraining={startTraining}
+      onLoadModel={handleLoadModel}
+      onSaveModel={handleSaveModel}
+      onExportModel={handleExportModel}
+      onImportModel={handleImportModel}
+      localDataInfo={localData ? { fileName: localData.fileName, candleCount: localData.candles.length } : null}
+      onLoadDataFile={handleLoadDataFile}
+      liveStatus={isLive && isRunning ? liveStatus : null}
+      speed={speed}
+      onSpeedChange={isLive ? undefined : setSpeed}
+      onStepOnce={isLive ? undefined : handleStepOnce}
+      onFork={!isLive && !isRunning && timeline ? handleFork : undefined}
+    />
+  );
 
   const renderContent = () => {
     if (isLoading) {
-        return <div className="text-center text-xl text-cyan-400">Loading Real Bitcoin Market Data...</div>
+        return (
+          <div className="text-center text-xl text-cyan-400">
+            Loading Market Data from {marketDataProvider.label}...
+            {candlesLoaded > 0 && <div className="text-sm text-gray-400 mt-2">{candlesLoaded.toLocaleString()} candles downloaded</div>}
+          </div>
+        );
     }
     if (error) {
-        return <div className="text-center text-xl text-red-400 bg-red-900/50 p-6 rounded-lg">{error}</div>
+        // Keep the controls available so a different data source can be selected
+        return (
+          <main className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-1 flex flex-col gap-6">
+                {renderControlPanel()}
+            </div>
+            <div className="lg:col-span-2">
+                <div className="text-center text-xl text-red-400 bg-red-900/50 p-6 rounded-lg">{error}</div>
+            </div>
+          </main>
+        );
     }
-    if (guild && marketData) {
-      const eliteObserver = guild.observers.find(o => o.n === guild.eliteN);
+    if (leadGuild && marketData) {
+      const eliteObserver = leadGuild.observers.find(o => o.n === leadGuild.eliteN);
       return (
          <main className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-1 flex flex-col gap-6">
-                <ControlPanel
-                  params={params}
-                  setParams={setParams}
-                  isRunning={isRunning}
-                  setIsRunning={setIsRunning}
-                  trainingState={trainingState}
-                  onStartTraining={startTraining}
-                  onLoadModel={handleLoadModel}
-                  onSaveModel={handleSaveModel}
-                  onExportModel={handleExportModel}
-                  onImportModel={handleImportModel}
-                />
+                {renderControlPanel()}
+                {dataQuality && !isRunning && <DataQualityPanel quality={dataQuality} />}
                 <InfoPanel stats={stats} />
-                <TradingPanel tradingStats={tradingStats} currentSignal={currentSignal} />
+                <RewardDistributionView observers={leadGuild.observers} rewardFunction={params.rewardFunction} scoringRule={params.scoringRule} />
+                <TradingPanel tradingStats={tradingStats} currentSignal={currentSignal} baseAsset={symbolInfo.baseAsset} />
                 {params.trainingMode && trainingState.epochMetrics.length > 0 && (
                   <TrainingMetrics
                     metrics={trainingState.epochMetrics}
@@ -758,16 +377,51 @@ const App: React.FC = () => {
                 )}
             </div>
             <div className="lg:col-span-2 flex flex-col gap-6">
+                {timeline && !isLive && (
+                  <TimelinePanel
+                    timeline={timeline}
+                    currentStep={currentTimeStep}
+                    startStep={startStep}
+                    marketData={marketData}
+                    eliteN={leadGuild.eliteN}
+                    signal={currentSignal}
+                    position={tradingStats.currentPosition}
+                    isRunning={isRunning}
+                    onSeek={handleSeek}
+                    onStepBack={handleStepBack}
+                    onStepForward={handleStepOnce}
+                    onToggleRunning={() => setIsRunning(prev => !prev)}
+                  />
+                )}
                 <div className="h-96">
-                   <MarketView observers={guild.observers} marketData={marketData} currentTimeStep={currentTimeStep} eliteN={guild.eliteN} />
+                   <MarketView observers={allObservers} marketData={marketData} currentTimeStep={currentTimeStep} eliteN={leadGuild.eliteN} symbolLabel={symbolInfo.label} liveCandle={isLive ? partialCandle : null} />
                 </div>
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-grow">
                     <div className="h-[45vh] min-h-[350px]">
-                        <HilbertSpaceView embedding={eliteObserver?.embedding ?? null} eliteN={guild.eliteN ?? null} />
+                        <HilbertSpaceView embedding={eliteObserver?.embedding ?? null} eliteN={leadGuild.eliteN ?? null} />
                     </div>
                     <div className="h-[45vh] min-h-[350px]">
-                        <GuildDynamicsView history={phaseHistory} />
+                        <GuildDynamicsView guilds={guilds} histories={phaseHistory} />
+                    </div>
+                    {/* Entropy shares its row when an odd number of optional charts follows */}
+                    <div className={`${optionalCharts % 2 === 1 ? '' : 'md:col-span-2 '}h-80`}>
+                        <EntropyView history={stats.entropyHistory} current={stats.entropy} dynamicsMode={params.dynamicsMode} />
                     </div>
+                    {params.lifecycle.enabled && (
+                      <div className="h-80">
+                          <PopulationView history={stats.populationHistory} births={stats.births} deaths={stats.deaths} />
+                      </div>
+                    )}
+                    {params.fitnessMode === 'multi-objective' && (
+                      <div className="h-80">
+                          <ParetoFrontView points={stats.pareto} driverId={stats.paretoDriverId} pick={params.paretoPick} onPick={handleParetoPick} />
+                      </div>
+                    )}
+                    {archive && (
+                      <div className="h-80">
+                          <ArchiveView archive={archive} />
+                      </div>
+                    )}
                 </div>
             </div>
         </main>
@@ -793,7 +447,7 @@ const App: React.FC = () => {
                             </div>
                         </div>
                         <div className="hidden md:flex items-center space-x-2 ml-6 px-4 py-2 bg-gray-800/50 rounded-lg border border-gray-700">
-                            <span className="text-xs font-semibold text-gray-400">BTC/USDT</span>
+                            <span className="text-xs font-semibold text-gray-400">{symbolInfo.label}</span>
                             <span className="text-sm font-mono font-bold text-green-400">
                                 ${stats.currentPrice > 0 ? stats.currentPrice.toFixed(2) : '---'}
                             </span>
@@ -803,7 +457,7 @@ const App: React.FC = () => {
                         <div className="hidden lg:flex items-center space-x-4 text-xs">
                             <div className="flex flex-col items-end">
                                 <span className="text-gray-400">24h Volume</span>
-                                <span className="text-white font-semibold">$2.4B</span>
+                                <span className="text-white font-semibold">{formatCompactUsd(volume24h)}</span>
                             </div>
                             <div className="flex flex-col items-end">
                                 <span className="text-gray-400">Win Rate</span>
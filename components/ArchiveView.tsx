@@ -0,0 +1,66 @@
+import React from 'react';
+import type { FC } from 'react';
+import type { QualityDiversityArchive } from '../types';
+import { archiveCellKey, archiveSummary } from '../services/qualityDiversityService';
+
+interface ArchiveViewProps {
+  archive: QualityDiversityArchive;
+}
+
+const AXIS_LABELS: Record<QualityDiversityArchive['descriptor'], [string, string]> = {
+  'trading-style': ['Trade frequency →', 'Holding time →'],
+  'strategy-genes': ['Trend following →', 'Risk tolerance →'],
+};
+
+// Dark blue (weak) to cyan (strong) by fitness, which runs roughly 0-1
+const cellColor = (fitness: number): string => {
+  const t = Math.max(0, Math.min(1, fitness));
+  return `hsl(${220 - t * 40}, 80%, ${20 + t * 40}%)`;
+};
+
+const ArchiveView: FC<ArchiveViewProps> = ({ archive }) => {
+  const { filled, qdScore } = archiveSummary(archive);
+  const [xLabel, yLabel] = AXIS_LABELS[archive.descriptor];
+  const axis = Array.from({ length: archive.bins }, (_, i) => i);
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 flex flex-col h-full shadow-lg backdrop-blur-sm border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-bold text-cyan-300">Quality-Diversity Archive</h2>
+        <span className="text-xs font-mono text-gray-400">
+          {filled} / {archive.bins * archive.bins} cells · QD {qdScore.toFixed(1)}
+        </span>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Fittest observer seen in each behaviour cell this run; brighter cells hold fitter observers.
+      </p>
+      <div className="flex-grow min-h-0 flex gap-2">
+        <div className="text-xs text-gray-500 [writing-mode:vertical-rl] rotate-180 text-center">{yLabel}</div>
+        <div className="flex-grow flex flex-col gap-2 min-w-0">
+          <div
+            className="flex-grow grid gap-px"
+            style={{ gridTemplateColumns: `repeat(${archive.bins}, 1fr)`, gridTemplateRows: `repeat(${archive.bins}, 1fr)` }}
+          >
+            {/* Highest y bin on the top row */}
+            {[...axis].reverse().flatMap(y => axis.map(x => {
+              const entry = archive.cells[archiveCellKey(x, y)];
+              return (
+                <div
+                  key={archiveCellKey(x, y)}
+                  className="rounded-sm"
+                  style={{ backgroundColor: entry ? cellColor(entry.fitness) : '#1f2937' }}
+                  title={entry
+                    ? `Observer #${entry.observer.id} (gen ${entry.observer.generation}) · fitness ${entry.fitness.toFixed(3)} · step ${entry.timeStep}`
+                    : 'Empty'}
+                />
+              );
+            }))}
+          </div>
+          <div className="text-xs text-gray-500 text-center">{xLabel}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveView;
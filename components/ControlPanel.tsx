@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { FC, ChangeEvent } from 'react';
-import type { SimulationParams, TrainingState } from '../types';
-import { DEFAULT_SIMULATION_PARAMS, TIMEFRAME_OPTIONS } from '../constants';
+import type { FC, ChangeEvent, DragEvent } from 'react';
+import type { SimulationParams, TrainingState, KlineStreamStatus, SimulationSpeed, ForkParams, PrimeBasisKind, EmbeddingKind, HorizonSignalMode, ScoringRule, RewardFunctionKind, DynamicsMode, PhaseUpdateRule, CrossoverOperator, ParentSelection, SelectionStrategy, FitnessMode, BehaviorDescriptorKind } from '../types';
+import { DEFAULT_SIMULATION_PARAMS, DEFAULT_CANDLE_COUNT, SYMBOL_OPTIONS, TIMEFRAME_OPTIONS, MARKET_DATA_PROVIDER_OPTIONS, SYNTHETIC_MODEL_OPTIONS, DATA_REPAIR_POLICY_OPTIONS, SIMULATION_SPEED_OPTIONS, PRIME_BASIS_OPTIONS, EMBEDDING_OPTIONS, FORECAST_HORIZON_PRESETS, HORIZON_SIGNAL_MODE_OPTIONS, SCORING_RULE_OPTIONS, REWARD_FUNCTION_OPTIONS, DYNAMICS_MODE_OPTIONS, PHASE_UPDATE_RULE_OPTIONS, CROSSOVER_OPERATOR_OPTIONS, PARENT_SELECTION_OPTIONS, SELECTION_STRATEGY_OPTIONS, FITNESS_MODE_OPTIONS, BEHAVIOR_DESCRIPTOR_OPTIONS } from '../constants';
+import { isPrime, parsePrimeList } from '../services/primeBasisService';
 
 interface ControlPanelProps {
   params: SimulationParams;
@@ -14,8 +15,47 @@ interface ControlPanelProps {
   onSaveModel?: () => void;
   onExportModel?: () => void;
   onImportModel?: (file: File) => void;
+  localDataInfo?: { fileName: string; candleCount: number } | null;
+  onLoadDataFile?: (file: File) => void;
+  liveStatus?: KlineStreamStatus | null;
+  speed?: SimulationSpeed;
+  onSpeedChange?: (speed: SimulationSpeed) => void;
+  onStepOnce?: () => void;
+  onFork?: (params: Partial<ForkParams>) => void; // Continue the paused run from its current step with the edited step-level params
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LIVE_STATUS_STYLES: Record<KlineStreamStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'text-yellow-400' },
+  open: { label: 'Live', className: 'text-green-400' },
+  reconnecting: { label: 'Reconnecting', className: 'text-orange-400' },
+  closed: { label: 'Disconnected', className: 'text-gray-400' },
+};
+
+const toDateInputValue = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+// The edited params a fork can apply without re-initializing the population (the Pareto view picks the driver)
+const toForkParams = (params: SimulationParams): Omit<ForkParams, 'paretoPick'> => ({
+  learningRate: params.learningRate,
+  mutationRate: params.mutationRate,
+  seed: params.seed,
+  scoringRule: params.scoringRule,
+  rewardFunction: params.rewardFunction,
+  dynamicsMode: params.dynamicsMode,
+  entropyWeight: params.entropyWeight,
+  selection: params.selection,
+  crossover: params.crossover,
+  fitnessMode: params.fitnessMode,
+  lifecycle: params.lifecycle,
+  eliteHorizon: params.eliteHorizon,
+  horizonSignalMode: params.horizonSignalMode,
+  migrationInterval: params.migrationInterval,
+  migrationSize: params.migrationSize,
+  capitalCompetition: params.capitalCompetition,
+  extinctionShare: params.extinctionShare,
+});
+
 const ControlPanel: FC<ControlPanelProps> = ({
   params,
   setParams,
@@ -26,13 +66,24 @@ const ControlPanel: FC<ControlPanelProps> = ({
   onLoadModel,
   onSaveModel,
   onExportModel,
-  onImportModel
+  onImportModel,
+  localDataInfo,
+  onLoadDataFile,
+  liveStatus,
+  speed,
+  onSpeedChange,
+  onStepOnce,
+  onFork
 }) => {
   const [localParams, setLocalParams] = useState(params);
+  const [primeListText, setPrimeListText] = useState(params.primeBasis.primes.join(', '));
+  const [isDraggingData, setIsDraggingData] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dataFileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     setLocalParams(params);
+    setPrimeListText(params.primeBasis.primes.join(', '));
   }, [params]);
 
   const handleSliderChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -44,6 +95,171 @@ const ControlPanel: FC<ControlPanelProps> = ({
     setLocalParams(prev => ({ ...prev, timeframe: e.target.value as SimulationParams['timeframe'] }));
   };
   
+  const handleBaseTimeframeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    setLocalParams(prev => ({ ...prev, baseTimeframe: value === 'native' ? null : value as SimulationParams['timeframe'] }));
+  };
+  
+  const handleSymbolChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, symbol: e.target.value }));
+  };
+
+  const handleProviderChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, dataProvider: e.target.value as SimulationParams['dataProvider'] }));
+  };
+  
+  const handleSyntheticModelChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, syntheticModel: e.target.value as SimulationParams['syntheticModel'] }));
+  };
+  
+  const handleRepairPolicyChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, dataRepairPolicy: e.target.value as SimulationParams['dataRepairPolicy'] }));
+  };
+  
+  const handleHistoryModeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const useRange = e.target.value === 'range';
+    const end = Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), new Date().getUTCDate());
+    setLocalParams(prev => ({
+      ...prev,
+      dateRange: useRange ? { start: end - 90 * DAY_MS, end } : null, // Default to the last 90 days
+    }));
+  };
+  
+  const handleDateChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const time = Date.parse(`${value}T00:00:00Z`);
+    if (Number.isNaN(time)) return;
+    setLocalParams(prev => prev.dateRange ? {
+      ...prev,
+      // The end date is inclusive in the UI, exclusive in the range
+      dateRange: { ...prev.dateRange, [name]: name === 'end' ? time + DAY_MS : time },
+    } : prev);
+  };
+  
+  const handlePrimeBasisKindChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const kind = e.target.value as PrimeBasisKind;
+    setLocalParams(prev => ({ ...prev, primeBasis: { ...prev.primeBasis, kind } }));
+  };
+  
+  const handlePrimeBasisCountChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const count = Number(e.target.value);
+    setLocalParams(prev => ({ ...prev, primeBasis: { ...prev.primeBasis, count } }));
+  };
+  
+  const handlePrimeListChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const text = e.target.value;
+    setPrimeListText(text);
+    setLocalParams(prev => ({ ...prev, primeBasis: { ...prev.primeBasis, primes: parsePrimeList(text) } }));
+  };
+  
+  const handleEmbeddingChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, embedding: e.target.value as EmbeddingKind }));
+  };
+  
+  const handleHorizonPresetChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const horizons = FORECAST_HORIZON_PRESETS.find(preset => preset.value === e.target.value)?.horizons ?? [1];
+    setLocalParams(prev => ({
+      ...prev,
+      forecastHorizons: horizons,
+      eliteHorizon: horizons.includes(prev.eliteHorizon) ? prev.eliteHorizon : 1,
+    }));
+  };
+  
+  const handleHorizonSignalModeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, horizonSignalMode: e.target.value as HorizonSignalMode }));
+  };
+  
+  const handleEliteHorizonChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, eliteHorizon: Number(e.target.value) }));
+  };
+  
+  const handleScoringRuleChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, scoringRule: e.target.value as ScoringRule }));
+  };
+  
+  const handleRewardFunctionKindChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const kind = e.target.value as RewardFunctionKind;
+    setLocalParams(prev => ({ ...prev, rewardFunction: { ...prev.rewardFunction, kind } }));
+  };
+  
+  const handleRewardScaleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const scale = Number(e.target.value);
+    setLocalParams(prev => ({ ...prev, rewardFunction: { ...prev.rewardFunction, scale } }));
+  };
+  
+  const handleDynamicsModeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, dynamicsMode: e.target.value as DynamicsMode }));
+  };
+  
+  const handlePhaseUpdateRuleChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, phaseUpdateRule: e.target.value as PhaseUpdateRule }));
+  };
+  
+  const handleCrossoverOperatorChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const operator = e.target.value as CrossoverOperator;
+    setLocalParams(prev => ({ ...prev, crossover: { ...prev.crossover, operator } }));
+  };
+  
+  const handleParentSelectionChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const parentSelection = e.target.value as ParentSelection;
+    setLocalParams(prev => ({ ...prev, crossover: { ...prev.crossover, parentSelection } }));
+  };
+  
+  const handleCrossoverSliderChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLocalParams(prev => ({ ...prev, crossover: { ...prev.crossover, [name]: Number(value) } }));
+  };
+  
+  const handleFitnessModeChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocalParams(prev => ({ ...prev, fitnessMode: e.target.value as FitnessMode }));
+  };
+  
+  const handleSelectionStrategyChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const strategy = e.target.value as SelectionStrategy;
+    setLocalParams(prev => ({ ...prev, selection: { ...prev.selection, strategy } }));
+  };
+  
+  const handleSelectionSliderChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLocalParams(prev => ({ ...prev, selection: { ...prev.selection, [name]: Number(value) } }));
+  };
+  
+  const handleLifecycleToggle = (e: ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked;
+    setLocalParams(prev => ({ ...prev, lifecycle: { ...prev.lifecycle, enabled } }));
+  };
+  
+  const handleLifecycleSliderChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLocalParams(prev => {
+      const lifecycle = { ...prev.lifecycle, [name]: Number(value) };
+      // Keep the bounds ordered whichever one moved
+      if (name === 'minPopulation') lifecycle.maxPopulation = Math.max(lifecycle.maxPopulation, lifecycle.minPopulation);
+      if (name === 'maxPopulation') lifecycle.minPopulation = Math.min(lifecycle.minPopulation, lifecycle.maxPopulation);
+      return { ...prev, lifecycle };
+    });
+  };
+  
+  const handleQualityDiversityToggle = (e: ChangeEvent<HTMLInputElement>) => {
+    const enabled = e.target.checked;
+    setLocalParams(prev => ({ ...prev, qualityDiversity: { ...prev.qualityDiversity, enabled } }));
+  };
+  
+  const handleDescriptorChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const descriptor = e.target.value as BehaviorDescriptorKind;
+    setLocalParams(prev => ({ ...prev, qualityDiversity: { ...prev.qualityDiversity, descriptor } }));
+  };
+  
+  const handleQualityDiversitySliderChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLocalParams(prev => ({ ...prev, qualityDiversity: { ...prev.qualityDiversity, [name]: Number(value) } }));
+  };
+  
+  const handleTextChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLocalParams(prev => ({ ...prev, [name]: value }));
+  };
+  
   const handleCheckboxChange = (e: ChangeEvent<HTMLInputElement>) => {
     const { name, checked } = e.target;
     setLocalParams(prev => ({ ...prev, [name]: checked }));
@@ -78,6 +294,25 @@ const ControlPanel: FC<ControlPanelProps> = ({
     }
   };
 
+  const handleDataFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onLoadDataFile) {
+      onLoadDataFile(file);
+      if (dataFileInputRef.current) {
+        dataFileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleDataDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingData(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && onLoadDataFile) {
+      onLoadDataFile(file);
+    }
+  };
+
   return (
     <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl p-6 shadow-2xl backdrop-blur-md border border-gray-700/50 space-y-6">
       <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-700/50">
@@ -88,6 +323,94 @@ const ControlPanel: FC<ControlPanelProps> = ({
       </div>
       
       <div className="space-y-4">
+        <div>
+          <label htmlFor="symbol" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Symbol: <span className="font-mono text-cyan-400 font-bold">{SYMBOL_OPTIONS.find(opt => opt.symbol === localParams.symbol)?.label ?? localParams.symbol}</span>
+          </label>
+          <select
+            id="symbol"
+            name="symbol"
+            value={localParams.symbol}
+            onChange={handleSymbolChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {SYMBOL_OPTIONS.map(option => (
+              <option key={option.symbol} value={option.symbol}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="dataProvider" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Data Source: <span className="font-mono text-cyan-400 font-bold">{MARKET_DATA_PROVIDER_OPTIONS.find(opt => opt.value === localParams.dataProvider)?.label}</span>
+          </label>
+          <select
+            id="dataProvider"
+            name="dataProvider"
+            value={localParams.dataProvider}
+            onChange={handleProviderChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {MARKET_DATA_PROVIDER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          
+          {localParams.dataProvider === 'local' && onLoadDataFile && (
+            <div
+              onDragOver={(e) => { e.preventDefault(); setIsDraggingData(true); }}
+              onDragLeave={() => setIsDraggingData(false)}
+              onDrop={handleDataDrop}
+              onClick={() => dataFileInputRef.current?.click()}
+              className={`mt-2 p-4 rounded-lg border-2 border-dashed text-center text-xs cursor-pointer transition-all ${
+                isDraggingData
+                  ? 'border-cyan-400 bg-cyan-900/30 text-cyan-300'
+                  : 'border-gray-600 bg-gray-900/40 text-gray-400 hover:border-cyan-500/50'
+              }`}
+            >
+              {localDataInfo ? (
+                <span>
+                  <span className="font-mono text-cyan-400">{localDataInfo.fileName}</span> · {localDataInfo.candleCount} candles
+                  <br />Drop another file to replace it
+                </span>
+              ) : (
+                <span>Drop a CSV or JSON candle file here, or click to browse</span>
+              )}
+            </div>
+          )}
+          
+          {localParams.dataProvider === 'synthetic' && (
+            <div className="mt-2 grid grid-cols-3 gap-2">
+              <select
+                id="syntheticModel"
+                name="syntheticModel"
+                value={localParams.syntheticModel}
+                onChange={handleSyntheticModelChange}
+                className="col-span-2 bg-gradient-to-r from-gray-700 to-gray-800 text-white text-xs border border-gray-600/50 rounded-lg px-2 py-2 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+              >
+                {SYNTHETIC_MODEL_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                id="syntheticSeed"
+                name="syntheticSeed"
+                title="Seed"
+                value={localParams.syntheticSeed}
+                onChange={handleSliderChange}
+                className="bg-gray-800 text-white text-xs font-mono border border-gray-600/50 rounded-lg px-2 py-2 shadow-inner"
+              />
+            </div>
+          )}
+        </div>
+
         <div>
           <label htmlFor="timeframe" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
             Timeframe: <span className="font-mono text-cyan-400 font-bold">{TIMEFRAME_OPTIONS.find(opt => opt.value === localParams.timeframe)?.label}</span>
@@ -107,6 +430,82 @@ const ControlPanel: FC<ControlPanelProps> = ({
           </select>
         </div>
 
+        <div>
+          <label htmlFor="baseTimeframe" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Resample From: <span className="font-mono text-cyan-400 font-bold">{localParams.baseTimeframe ? TIMEFRAME_OPTIONS.find(opt => opt.value === localParams.baseTimeframe)?.label : 'Native'}</span>
+          </label>
+          <select
+            id="baseTimeframe"
+            name="baseTimeframe"
+            value={localParams.baseTimeframe ?? 'native'}
+            onChange={handleBaseTimeframeChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            <option value="native">Native (fetch each timeframe)</option>
+            {TIMEFRAME_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label} base series
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="historyMode" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            History: <span className="font-mono text-cyan-400 font-bold">{localParams.dateRange ? 'Date Range' : `Latest ${DEFAULT_CANDLE_COUNT} Candles`}</span>
+          </label>
+          <select
+            id="historyMode"
+            name="historyMode"
+            value={localParams.dateRange ? 'range' : 'latest'}
+            onChange={handleHistoryModeChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            <option value="latest">Latest {DEFAULT_CANDLE_COUNT} candles</option>
+            <option value="range">Custom date range</option>
+          </select>
+          
+          {localParams.dateRange && (
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                name="start"
+                value={toDateInputValue(localParams.dateRange.start)}
+                max={toDateInputValue(localParams.dateRange.end - DAY_MS)}
+                onChange={handleDateChange}
+                className="bg-gray-800 text-white text-xs font-mono border border-gray-600/50 rounded-lg px-2 py-2 shadow-inner"
+              />
+              <input
+                type="date"
+                name="end"
+                value={toDateInputValue(localParams.dateRange.end - DAY_MS)}
+                min={toDateInputValue(localParams.dateRange.start)}
+                onChange={handleDateChange}
+                className="bg-gray-800 text-white text-xs font-mono border border-gray-600/50 rounded-lg px-2 py-2 shadow-inner"
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="dataRepairPolicy" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Data Repair: <span className="font-mono text-cyan-400 font-bold">{DATA_REPAIR_POLICY_OPTIONS.find(opt => opt.value === localParams.dataRepairPolicy)?.label.split(' (')[0]}</span>
+          </label>
+          <select
+            id="dataRepairPolicy"
+            name="dataRepairPolicy"
+            value={localParams.dataRepairPolicy}
+            onChange={handleRepairPolicyChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {DATA_REPAIR_POLICY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <label htmlFor="numObservers" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
             Observers: <span className="font-mono text-cyan-400 font-bold">{localParams.numObservers}</span>
@@ -157,7 +556,757 @@ const ControlPanel: FC<ControlPanelProps> = ({
             className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
           />
         </div>
+
+        <div>
+          <label htmlFor="numGuilds" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Guilds: <span className="font-mono text-cyan-400 font-bold">{localParams.numGuilds}</span>
+          </label>
+          <input
+            type="range"
+            id="numGuilds"
+            name="numGuilds"
+            min="1"
+            max="6"
+            step="1"
+            value={localParams.numGuilds}
+            onChange={handleSliderChange}
+            className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+          />
+        </div>
+
+        {/* Guild Ecology Controls */}
+        {localParams.numGuilds > 1 && (
+          <div className="pl-3 border-l-2 border-cyan-500/30 space-y-4">
+            <div>
+              <label htmlFor="migrationInterval" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                Migration Interval: <span className="font-mono text-cyan-400 font-bold">{localParams.migrationInterval > 0 ? `${localParams.migrationInterval} steps` : 'Off'}</span>
+              </label>
+              <input
+                type="range"
+                id="migrationInterval"
+                name="migrationInterval"
+                min="0"
+                max="200"
+                step="10"
+                value={localParams.migrationInterval}
+                onChange={handleSliderChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+            <div>
+              <label htmlFor="migrationSize" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                Migrants per Round: <span className="font-mono text-cyan-400 font-bold">{localParams.migrationSize}</span>
+              </label>
+              <input
+                type="range"
+                id="migrationSize"
+                name="migrationSize"
+                min="0"
+                max="10"
+                step="1"
+                value={localParams.migrationSize}
+                onChange={handleSliderChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+            <div>
+              <label htmlFor="capitalCompetition" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                Capital Competition: <span className="font-mono text-cyan-400 font-bold">{localParams.capitalCompetition}</span>
+              </label>
+              <input
+                type="range"
+                id="capitalCompetition"
+                name="capitalCompetition"
+                min="0"
+                max="50"
+                step="1"
+                value={localParams.capitalCompetition}
+                onChange={handleSliderChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+            <div>
+              <label htmlFor="extinctionShare" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                Extinction Threshold: <span className="font-mono text-cyan-400 font-bold">{(localParams.extinctionShare * 100).toFixed(0)}% of equal share</span>
+              </label>
+              <input
+                type="range"
+                id="extinctionShare"
+                name="extinctionShare"
+                min="0"
+                max="0.9"
+                step="0.05"
+                value={localParams.extinctionShare}
+                onChange={handleSliderChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="primeBasisKind" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Prime Basis
+          </label>
+          <select
+            id="primeBasisKind"
+            name="primeBasisKind"
+            value={localParams.primeBasis.kind}
+            onChange={handlePrimeBasisKindChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {PRIME_BASIS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {localParams.primeBasis.kind === 'explicit' ? (
+            <div className="mt-2">
+              <input
+                type="text"
+                id="primeBasisPrimes"
+                name="primeBasisPrimes"
+                value={primeListText}
+                onChange={handlePrimeListChange}
+                placeholder="2, 3, 5, 7, 11"
+                className="w-full bg-gray-800 text-white text-xs font-mono border border-gray-600/50 rounded-lg px-3 py-2 shadow-inner focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              {localParams.primeBasis.primes.some(p => !isPrime(p)) && (
+                <p className="text-xs text-red-400 mt-1">
+                  Not prime: {localParams.primeBasis.primes.filter(p => !isPrime(p)).join(', ')}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="mt-2">
+              <label htmlFor="primeBasisCount" className="block text-xs text-gray-400 mb-2">
+                Basis Size: <span className="font-mono text-cyan-400 font-bold">{localParams.primeBasis.count}</span>
+              </label>
+              <input
+                type="range"
+                id="primeBasisCount"
+                name="primeBasisCount"
+                min="2"
+                max="100"
+                step="1"
+                value={localParams.primeBasis.count}
+                onChange={handlePrimeBasisCountChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="embedding" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Embedding
+          </label>
+          <select
+            id="embedding"
+            name="embedding"
+            value={localParams.embedding}
+            onChange={handleEmbeddingChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {EMBEDDING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="forecastHorizons" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Forecast Horizons
+          </label>
+          <select
+            id="forecastHorizons"
+            name="forecastHorizons"
+            value={localParams.forecastHorizons.join(',')}
+            onChange={handleHorizonPresetChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {!FORECAST_HORIZON_PRESETS.some(preset => preset.value === localParams.forecastHorizons.join(',')) && (
+              <option value={localParams.forecastHorizons.join(',')}>
+                {localParams.forecastHorizons.map(h => `t+${h}`).join(', ')}
+              </option>
+            )}
+            {FORECAST_HORIZON_PRESETS.map(preset => (
+              <option key={preset.value} value={preset.value}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Multi-Horizon Controls */}
+        {localParams.forecastHorizons.length > 1 && (
+          <div className="pl-3 border-l-2 border-cyan-500/30 space-y-4">
+            <div>
+              <label htmlFor="eliteHorizon" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                Elite Horizon
+              </label>
+              <select
+                id="eliteHorizon"
+                name="eliteHorizon"
+                value={localParams.eliteHorizon}
+                onChange={handleEliteHorizonChange}
+                className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+              >
+                {localParams.forecastHorizons.map(horizon => (
+                  <option key={horizon} value={horizon}>
+                    t+{horizon}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="horizonSignalMode" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                Horizon Signal
+              </label>
+              <select
+                id="horizonSignalMode"
+                name="horizonSignalMode"
+                value={localParams.horizonSignalMode}
+                onChange={handleHorizonSignalModeChange}
+                className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+              >
+                {HORIZON_SIGNAL_MODE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="scoringRule" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Scoring Rule
+          </label>
+          <select
+            id="scoringRule"
+            name="scoringRule"
+            value={localParams.scoringRule}
+            onChange={handleScoringRuleChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {SCORING_RULE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="rewardFunctionKind" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Reward Function
+          </label>
+          <select
+            id="rewardFunctionKind"
+            name="rewardFunctionKind"
+            value={localParams.rewardFunction.kind}
+            onChange={handleRewardFunctionKindChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {REWARD_FUNCTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {/* Distributional scoring rules normalize by the scale whatever the point reward function */}
+          {(localParams.rewardFunction.kind !== 'legacy' || localParams.scoringRule !== 'squared-error') && (
+            <div className="mt-2">
+              <label htmlFor="rewardScale" className="block text-xs text-gray-400 mb-2">
+                Reward Scale: <span className="font-mono text-cyan-400 font-bold">{localParams.rewardFunction.scale.toFixed(2)}%</span>
+              </label>
+              <input
+                type="range"
+                id="rewardScale"
+                name="rewardScale"
+                min="0.05"
+                max="5"
+                step="0.05"
+                value={localParams.rewardFunction.scale}
+                onChange={handleRewardScaleChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="phaseUpdateRule" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Phase Update
+          </label>
+          <select
+            id="phaseUpdateRule"
+            name="phaseUpdateRule"
+            value={localParams.phaseUpdateRule}
+            onChange={handlePhaseUpdateRuleChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {PHASE_UPDATE_RULE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="dynamicsMode" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Dynamics
+          </label>
+          <select
+            id="dynamicsMode"
+            name="dynamicsMode"
+            value={localParams.dynamicsMode}
+            onChange={handleDynamicsModeChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {DYNAMICS_MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {localParams.dynamicsMode === 'entropy-minimizing' && (
+            <div className="mt-2">
+              <label htmlFor="entropyWeight" className="block text-xs text-gray-400 mb-2">
+                Entropy Weight: <span className="font-mono text-cyan-400 font-bold">{localParams.entropyWeight}</span>
+              </label>
+              <input
+                type="range"
+                id="entropyWeight"
+                name="entropyWeight"
+                min="0"
+                max="1"
+                step="0.05"
+                value={localParams.entropyWeight}
+                onChange={handleSliderChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="fitnessMode" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Fitness
+          </label>
+          <select
+            id="fitnessMode"
+            name="fitnessMode"
+            value={localParams.fitnessMode}
+            onChange={handleFitnessModeChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {FITNESS_MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="selectionStrategy" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Elite Selection
+          </label>
+          <select
+            id="selectionStrategy"
+            name="strategy"
+            value={localParams.selection.strategy}
+            onChange={handleSelectionStrategyChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {SELECTION_STRATEGY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <div className="mt-2 space-y-2">
+            <div>
+              <label htmlFor="ensembleSize" className="block text-xs text-gray-400 mb-2">
+                Ensemble Size: <span className="font-mono text-cyan-400 font-bold">{localParams.selection.ensembleSize}</span>
+              </label>
+              <input
+                type="range"
+                id="ensembleSize"
+                name="ensembleSize"
+                min="1"
+                max="10"
+                step="1"
+                value={localParams.selection.ensembleSize}
+                onChange={handleSelectionSliderChange}
+                className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+              />
+            </div>
+            {localParams.selection.strategy === 'tournament' && (
+              <div>
+                <label htmlFor="tournamentSize" className="block text-xs text-gray-400 mb-2">
+                  Tournament Size: <span className="font-mono text-cyan-400 font-bold">{localParams.selection.tournamentSize}</span>
+                </label>
+                <input
+                  type="range"
+                  id="tournamentSize"
+                  name="tournamentSize"
+                  min="2"
+                  max="10"
+                  step="1"
+                  value={localParams.selection.tournamentSize}
+                  onChange={handleSelectionSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+            )}
+            {localParams.selection.strategy === 'linear-rank' && (
+              <div>
+                <label htmlFor="rankPressure" className="block text-xs text-gray-400 mb-2">
+                  Rank Pressure: <span className="font-mono text-cyan-400 font-bold">{localParams.selection.rankPressure.toFixed(2)}</span>
+                </label>
+                <input
+                  type="range"
+                  id="rankPressure"
+                  name="rankPressure"
+                  min="1"
+                  max="2"
+                  step="0.05"
+                  value={localParams.selection.rankPressure}
+                  onChange={handleSelectionSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+            )}
+            {localParams.selection.strategy === 'boltzmann' && (
+              <div>
+                <label htmlFor="selectionTemperature" className="block text-xs text-gray-400 mb-2">
+                  Temperature: <span className="font-mono text-cyan-400 font-bold">{localParams.selection.temperature.toFixed(2)}</span>
+                </label>
+                <input
+                  type="range"
+                  id="selectionTemperature"
+                  name="temperature"
+                  min="0.01"
+                  max="0.5"
+                  step="0.01"
+                  value={localParams.selection.temperature}
+                  onChange={handleSelectionSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="crossoverOperator" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Crossover
+          </label>
+          <select
+            id="crossoverOperator"
+            name="operator"
+            value={localParams.crossover.operator}
+            onChange={handleCrossoverOperatorChange}
+            className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+          >
+            {CROSSOVER_OPERATOR_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {localParams.crossover.operator !== 'none' && (
+            <div className="mt-2 space-y-2">
+              <div>
+                <label htmlFor="parentSelection" className="block text-xs text-gray-400 mb-2">
+                  Parents
+                </label>
+                <select
+                  id="parentSelection"
+                  name="parentSelection"
+                  value={localParams.crossover.parentSelection}
+                  onChange={handleParentSelectionChange}
+                  className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+                >
+                  {PARENT_SELECTION_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="crossoverProbability" className="block text-xs text-gray-400 mb-2">
+                  Crossover Rate: <span className="font-mono text-cyan-400 font-bold">{localParams.crossover.probability.toFixed(2)}</span>
+                </label>
+                <input
+                  type="range"
+                  id="crossoverProbability"
+                  name="probability"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={localParams.crossover.probability}
+                  onChange={handleCrossoverSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+              {localParams.crossover.operator === 'blend' && (
+                <div>
+                  <label htmlFor="blendAlpha" className="block text-xs text-gray-400 mb-2">
+                    BLX α: <span className="font-mono text-cyan-400 font-bold">{localParams.crossover.blendAlpha.toFixed(2)}</span>
+                  </label>
+                  <input
+                    type="range"
+                    id="blendAlpha"
+                    name="blendAlpha"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={localParams.crossover.blendAlpha}
+                    onChange={handleCrossoverSliderChange}
+                    className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                  />
+                </div>
+              )}
+              {localParams.crossover.operator === 'sbx' && (
+                <div>
+                  <label htmlFor="sbxEta" className="block text-xs text-gray-400 mb-2">
+                    SBX η: <span className="font-mono text-cyan-400 font-bold">{localParams.crossover.sbxEta}</span>
+                  </label>
+                  <input
+                    type="range"
+                    id="sbxEta"
+                    name="sbxEta"
+                    min="1"
+                    max="30"
+                    step="1"
+                    value={localParams.crossover.sbxEta}
+                    onChange={handleCrossoverSliderChange}
+                    className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="seed" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+            Random Seed
+          </label>
+          <input
+            type="number"
+            id="seed"
+            name="seed"
+            value={localParams.seed}
+            onChange={handleSliderChange}
+            className="w-full bg-gray-800 text-white text-sm font-mono border border-gray-600/50 rounded-lg px-3 py-2 shadow-inner focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </div>
+
+        {/* Live Mode Controls */}
+        {!localParams.trainingMode && (
+          <div className="pt-4 border-t border-gray-700/50 space-y-3">
+            <div className="flex items-center justify-between">
+              <label htmlFor="liveMode" className="text-xs font-semibold text-gray-400 uppercase tracking-wide">
+                Live Mode
+                {liveStatus && (
+                  <span className={`ml-2 font-mono normal-case ${LIVE_STATUS_STYLES[liveStatus].className}`}>
+                    ● {LIVE_STATUS_STYLES[liveStatus].label}
+                  </span>
+                )}
+              </label>
+              <input
+                type="checkbox"
+                id="liveMode"
+                name="liveMode"
+                checked={localParams.liveMode}
+                onChange={handleCheckboxChange}
+                className="w-5 h-5 accent-cyan-500 cursor-pointer"
+              />
+            </div>
+            
+            {localParams.liveMode && (
+              <input
+                type="text"
+                id="liveStreamUrl"
+                name="liveStreamUrl"
+                title="Kline stream WebSocket URL"
+                value={localParams.liveStreamUrl}
+                onChange={handleTextChange}
+                className="w-full bg-gray-800 text-white text-xs font-mono border border-gray-600/50 rounded-lg px-2 py-2 shadow-inner"
+              />
+            )}
+          </div>
+        )}
         
+        {/* Observer Lifecycle Controls */}
+        <div className="pt-4 border-t border-gray-700/50 space-y-4">
+          <div className="flex items-center justify-between">
+            <label htmlFor="lifecycleEnabled" className="text-xs font-semibold text-gray-400 uppercase tracking-wide">
+              Observer Lifecycle
+            </label>
+            <input
+              type="checkbox"
+              id="lifecycleEnabled"
+              name="enabled"
+              checked={localParams.lifecycle.enabled}
+              onChange={handleLifecycleToggle}
+              className="w-5 h-5 accent-cyan-500 cursor-pointer"
+            />
+          </div>
+
+          {localParams.lifecycle.enabled && (
+            <>
+              <div>
+                <label htmlFor="lifecycleFitnessThreshold" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Cull Below Fitness: <span className="font-mono text-cyan-400 font-bold">{localParams.lifecycle.fitnessThreshold.toFixed(2)}</span>
+                </label>
+                <input
+                  type="range"
+                  id="lifecycleFitnessThreshold"
+                  name="fitnessThreshold"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={localParams.lifecycle.fitnessThreshold}
+                  onChange={handleLifecycleSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+              <div>
+                <label htmlFor="lifecyclePatience" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Cull After (steps): <span className="font-mono text-cyan-400 font-bold">{localParams.lifecycle.patience}</span>
+                </label>
+                <input
+                  type="range"
+                  id="lifecyclePatience"
+                  name="patience"
+                  min="1"
+                  max="100"
+                  step="1"
+                  value={localParams.lifecycle.patience}
+                  onChange={handleLifecycleSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+              <div>
+                <label htmlFor="lifecycleMinPopulation" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Min Population: <span className="font-mono text-cyan-400 font-bold">{localParams.lifecycle.minPopulation}</span>
+                </label>
+                <input
+                  type="range"
+                  id="lifecycleMinPopulation"
+                  name="minPopulation"
+                  min="3"
+                  max="200"
+                  step="1"
+                  value={localParams.lifecycle.minPopulation}
+                  onChange={handleLifecycleSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+              <div>
+                <label htmlFor="lifecycleMaxPopulation" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Max Population: <span className="font-mono text-cyan-400 font-bold">{localParams.lifecycle.maxPopulation}</span>
+                </label>
+                <input
+                  type="range"
+                  id="lifecycleMaxPopulation"
+                  name="maxPopulation"
+                  min="3"
+                  max="300"
+                  step="1"
+                  value={localParams.lifecycle.maxPopulation}
+                  onChange={handleLifecycleSliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Quality-Diversity Archive Controls */}
+        <div className="pt-4 border-t border-gray-700/50 space-y-4">
+          <div className="flex items-center justify-between">
+            <label htmlFor="qualityDiversityEnabled" className="text-xs font-semibold text-gray-400 uppercase tracking-wide">
+              Quality-Diversity Archive
+            </label>
+            <input
+              type="checkbox"
+              id="qualityDiversityEnabled"
+              name="enabled"
+              checked={localParams.qualityDiversity.enabled}
+              onChange={handleQualityDiversityToggle}
+              className="w-5 h-5 accent-cyan-500 cursor-pointer"
+            />
+          </div>
+
+          {localParams.qualityDiversity.enabled && (
+            <>
+              <div>
+                <label htmlFor="behaviorDescriptor" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Behaviour Descriptors
+                </label>
+                <select
+                  id="behaviorDescriptor"
+                  name="descriptor"
+                  value={localParams.qualityDiversity.descriptor}
+                  onChange={handleDescriptorChange}
+                  className="w-full bg-gradient-to-r from-gray-700 to-gray-800 text-white border border-gray-600/50 rounded-lg px-3 py-2.5 cursor-pointer hover:border-cyan-500/50 transition-all shadow-inner"
+                >
+                  {BEHAVIOR_DESCRIPTOR_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="archiveBins" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Bins per Axis: <span className="font-mono text-cyan-400 font-bold">{localParams.qualityDiversity.bins}</span>
+                </label>
+                <input
+                  type="range"
+                  id="archiveBins"
+                  name="bins"
+                  min="2"
+                  max="20"
+                  step="1"
+                  value={localParams.qualityDiversity.bins}
+                  onChange={handleQualityDiversitySliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+              <div>
+                <label htmlFor="archiveSeedRate" className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">
+                  Seed Rate: <span className="font-mono text-cyan-400 font-bold">{localParams.qualityDiversity.seedRate.toFixed(2)}</span>
+                </label>
+                <input
+                  type="range"
+                  id="archiveSeedRate"
+                  name="seedRate"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={localParams.qualityDiversity.seedRate}
+                  onChange={handleQualityDiversitySliderChange}
+                  className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Training Mode Controls */}
         <div className="pt-4 border-t border-gray-700/50 space-y-4">
           <div className="flex items-center justify-between">
@@ -278,6 +1427,47 @@ const ControlPanel: FC<ControlPanelProps> = ({
         onChange={handleFileChange}
         style={{ display: 'none' }}
       />
+      
+      <input
+        ref={dataFileInputRef}
+        type="file"
+        accept=".csv,.json"
+        onChange={handleDataFileChange}
+        style={{ display: 'none' }}
+      />
+
+      {onSpeedChange && (
+        <div className="pt-4 border-t border-gray-700/50">
+          <span className="block text-xs font-semibold text-gray-400 mb-2 uppercase tracking-wide">Speed</span>
+          <div className="flex gap-2">
+            {SIMULATION_SPEED_OPTIONS.map(opt => (
+              <button
+                key={opt.value}
+                onClick={() => onSpeedChange(opt.value)}
+                className={`flex-1 py-2 rounded-lg text-xs font-bold font-mono transition-all duration-200 ${
+                  speed === opt.value
+                    ? 'bg-cyan-500 text-gray-900 shadow-lg shadow-cyan-500/30'
+                    : 'bg-gray-800 text-gray-300 border border-gray-600/50 hover:bg-gray-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+            {onStepOnce && (
+              <button
+                onClick={onStepOnce}
+                disabled={isRunning}
+                title="Advance one candle"
+                className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all duration-200 border border-gray-600/50 ${
+                  isRunning ? 'bg-gray-700 text-gray-500 cursor-not-allowed' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                ⏭ Step
+              </button>
+            )}
+          </div>
+        </div>
+      )}
 
       <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t border-gray-700/50">
         {localParams.trainingMode ? (
@@ -301,7 +1491,7 @@ const ControlPanel: FC<ControlPanelProps> = ({
               : 'bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-green-500/50'
             }`}
           >
-            {isRunning ? '⏸ Pause' : '▶ Start'}
+            {isRunning ? '⏸ Pause' : params.liveMode ? '📡 Go Live' : '▶ Start'}
           </button>
         )}
         {onLoadModel && (
@@ -312,6 +1502,15 @@ const ControlPanel: FC<ControlPanelProps> = ({
             📥 Load Model
           </button>
         )}
+        {onFork && (
+          <button
+            onClick={() => onFork(toForkParams(localParams))}
+            title="Continue from the current step with the edited learning, scoring, selection, evolution, lifecycle and guild ecology settings. Changes to the data, population size, guilds, prime basis, horizons, phase rule or archive need Apply"
+            className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 hover:from-amber-600 hover:to-yellow-600 text-gray-900 font-bold py-3 px-4 rounded-lg transition-all duration-200 shadow-lg shadow-amber-500/50"
+          >
+            ⑂ Fork
+          </button>
+        )}
         <button
           onClick={handleApplyChanges}
           className="w-full bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white font-bold py-3 px-4 rounded-lg transition-all duration-200 shadow-lg shadow-blue-500/50"
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { FC } from 'react';
+import type { DataQualityResult, DataQualityIssueType } from '../types';
+import { DATA_REPAIR_POLICY_OPTIONS } from '../constants';
+import { countIssues } from '../services/dataQualityService';
+
+interface DataQualityPanelProps {
+  quality: DataQualityResult;
+}
+
+const ISSUE_LABELS: Record<DataQualityIssueType, string> = {
+  'gap': 'Gaps',
+  'duplicate': 'Duplicate Timestamps',
+  'non-monotonic': 'Out-of-Order Timestamps',
+  'invalid-price': 'Zero / NaN Prices',
+  'ohlc-inconsistency': 'Inconsistent Wicks',
+  'outlier-return': 'Outlier Returns',
+};
+
+const ISSUES_TO_LIST = 5;
+
+const formatIssueTime = (time: number): string =>
+  Number.isFinite(time) ? new Date(time).toISOString().slice(0, 16).replace('T', ' ') : '—';
+
+const DataQualityPanel: FC<DataQualityPanelProps> = ({ quality }) => {
+  const { before, after, repairs } = quality;
+  const issuesBefore = countIssues(before);
+  const issuesAfter = countIssues(after);
+  const statusColor = issuesBefore === 0 ? 'bg-green-400' : issuesAfter === 0 ? 'bg-yellow-400' : 'bg-red-400';
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl p-6 shadow-2xl backdrop-blur-md border border-gray-700/50">
+      <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-700/50">
+        <h2 className="text-lg font-bold text-white flex items-center">
+          <span className={`w-2 h-2 ${statusColor} rounded-full mr-2`}></span>
+          Data Quality
+        </h2>
+        <span className="text-xs text-gray-400 font-mono">{before.candleCount.toLocaleString()} candles</span>
+      </div>
+
+      {issuesBefore === 0 ? (
+        <div className="text-sm text-green-400">No issues found. The series is clean.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <div className="font-semibold text-gray-400">Issue</div>
+            <div className="font-semibold text-gray-400 text-right">Found</div>
+            <div className="font-semibold text-gray-400 text-right">After Repair</div>
+            {(Object.keys(ISSUE_LABELS) as DataQualityIssueType[]).map(type => (
+              <React.Fragment key={type}>
+                <div className="text-gray-300">{ISSUE_LABELS[type]}</div>
+                <div className={`font-mono text-right ${before.counts[type] > 0 ? 'text-yellow-400' : 'text-gray-500'}`}>{before.counts[type]}</div>
+                <div className={`font-mono text-right ${after.counts[type] > 0 ? 'text-red-400' : 'text-gray-500'}`}>{after.counts[type]}</div>
+              </React.Fragment>
+            ))}
+          </div>
+
+          {before.missingCandles > 0 && (
+            <div className="mt-3 text-xs text-gray-400">
+              {before.missingCandles.toLocaleString()} candles missing across {before.counts.gap} gaps
+            </div>
+          )}
+
+          {repairs && (
+            <div className="mt-4 pt-3 border-t border-gray-700/50 text-xs text-gray-400 space-y-1">
+              <div className="font-semibold text-cyan-300 uppercase tracking-wide">
+                {DATA_REPAIR_POLICY_OPTIONS.find(opt => opt.value === repairs.policy)?.label}
+              </div>
+              <div>
+                {repairs.duplicatesRemoved} duplicates removed · {repairs.wicksFixed} wicks fixed{repairs.reordered ? ' · re-sorted' : ''}
+              </div>
+              <div>
+                {repairs.candlesDropped} dropped · {repairs.candlesReplaced} replaced · {repairs.candlesInserted} inserted
+              </div>
+            </div>
+          )}
+
+          <div className="mt-4 pt-3 border-t border-gray-700/50 space-y-1">
+            {before.issues.slice(0, ISSUES_TO_LIST).map((issue, i) => (
+              <div key={`${issue.type}-${issue.index}-${i}`} className="text-xs font-mono text-gray-400 truncate" title={issue.detail}>
+                <span className="text-yellow-400">{formatIssueTime(issue.time)}</span> {issue.detail}
+              </div>
+            ))}
+            {issuesBefore > ISSUES_TO_LIST && (
+              <div className="text-xs text-gray-500">…and {issuesBefore - ISSUES_TO_LIST} more</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { FC } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { EntropyMetrics, DynamicsMode } from '../types';
+
+interface EntropyViewProps {
+  history: Array<EntropyMetrics & { timeStep: number }>;
+  current: EntropyMetrics;
+  dynamicsMode: DynamicsMode;
+}
+
+const SERIES_NAMES: Record<string, string> = {
+  predictionEntropy: 'Prediction H (bits)',
+  residueEntropy: 'Residue H (norm.)',
+  phaseReturnInformation: 'I(φ; return) (bits)',
+};
+
+const EntropyView: FC<EntropyViewProps> = ({ history, current, dynamicsMode }) => (
+  <div className="bg-gray-800/50 rounded-lg p-4 flex flex-col h-full shadow-lg backdrop-blur-sm border border-gray-700">
+    <div className="flex items-center justify-between mb-2">
+      <h2 className="text-lg font-bold text-cyan-300">Ecology Entropy</h2>
+      <span className="text-xs font-mono text-gray-400">
+        H {current.predictionEntropy.toFixed(2)} · residue {current.residueEntropy.toFixed(2)} · I {current.phaseReturnInformation.toFixed(3)}
+      </span>
+    </div>
+    <p className="text-sm text-gray-400 mb-4">
+      Lead guild's prediction and residue entropy, and how much its collective phase tells about the next candle
+      {dynamicsMode === 'entropy-minimizing' ? ' (entropy-minimizing dynamics).' : '.'}
+    </p>
+    <div className="flex-grow min-h-0">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={history} margin={{ top: 5, right: 0, left: -10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+          <XAxis dataKey="timeStep" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+          <YAxis yAxisId="bits" tick={{ fill: '#A0AEC0', fontSize: 10 }} domain={[0, 'dataMax']} />
+          <YAxis yAxisId="unit" orientation="right" tick={{ fill: '#A0AEC0', fontSize: 10 }} domain={[0, 1]} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
+            labelStyle={{ color: '#E2E8F0' }}
+            labelFormatter={(label) => `Step: ${label}`}
+            formatter={(value: number, name: string) => [value.toFixed(3), name]}
+          />
+          <Legend wrapperStyle={{ fontSize: '12px' }} />
+          <Line yAxisId="bits" type="monotone" dataKey="predictionEntropy" name={SERIES_NAMES.predictionEntropy} stroke="#f472b6" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line yAxisId="unit" type="monotone" dataKey="residueEntropy" name={SERIES_NAMES.residueEntropy} stroke="#82ca9d" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line yAxisId="unit" type="monotone" dataKey="phaseReturnInformation" name={SERIES_NAMES.phaseReturnInformation} stroke="#ffc658" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export default EntropyView;
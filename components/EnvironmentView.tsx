@@ -7,11 +7,15 @@ interface MarketViewProps {
   marketData: Candle[];
   currentTimeStep: number;
   eliteN: number | null;
+  symbolLabel: string;
+  liveCandle?: Candle | null; // Still-forming candle from the live stream
 }
 
 const CANDLES_TO_SHOW = 60;
+const PRICE_AREA_HEIGHT = 80; // Top 80% of the chart for price, bottom strip for volume
+const VOLUME_AREA_HEIGHT = 18;
 
-const MarketView: FC<MarketViewProps> = ({ observers, marketData, currentTimeStep, eliteN }) => {
+const MarketView: FC<MarketViewProps> = ({ observers, marketData, currentTimeStep, eliteN, symbolLabel, liveCandle }) => {
   const visibleCandles = marketData.slice(Math.max(0, currentTimeStep - CANDLES_TO_SHOW), currentTimeStep);
 
   if (visibleCandles.length === 0) {
@@ -19,6 +23,7 @@ const MarketView: FC<MarketViewProps> = ({ observers, marketData, currentTimeSte
   }
 
   const prices = visibleCandles.flatMap(c => [c.high, c.low]);
+  if (liveCandle) prices.push(liveCandle.high, liveCandle.low);
   const minPrice = Math.min(...prices);
   const maxPrice = Math.max(...prices);
   const priceRange = maxPrice - minPrice;
@@ -26,17 +31,20 @@ const MarketView: FC<MarketViewProps> = ({ observers, marketData, currentTimeSte
   const lastCandle = visibleCandles[visibleCandles.length - 1];
 
   const getPriceY = (price: number) => {
-    if (priceRange === 0) return 50;
-    return 100 - ((price - minPrice) / priceRange) * 100;
+    if (priceRange === 0) return PRICE_AREA_HEIGHT / 2;
+    return PRICE_AREA_HEIGHT - ((price - minPrice) / priceRange) * PRICE_AREA_HEIGHT;
   };
 
+  const maxVolume = Math.max(...visibleCandles.map(c => c.volume ?? 0));
+  const getVolumeHeight = (volume: number) => maxVolume > 0 ? (volume / maxVolume) * VOLUME_AREA_HEIGHT : 0;
+
   const candleWidth = 100 / CANDLES_TO_SHOW;
 
   return (
     <div className="bg-gray-800/50 rounded-lg p-4 flex flex-col h-full shadow-lg backdrop-blur-sm border border-gray-700">
       <h2 className="text-lg font-bold mb-2 text-cyan-300">Market Prediction</h2>
       <p className="text-sm text-gray-400 mb-4">
-        Observers predicting the next BTC candle's closing price. Last close: 
+        Observers predicting the next {symbolLabel} candle's closing price. Last close: 
         <span className="font-mono text-yellow-300"> ${lastCandle?.close.toFixed(2)}</span>
       </p>
       
@@ -59,6 +67,22 @@ const MarketView: FC<MarketViewProps> = ({ observers, marketData, currentTimeSte
             );
           })}
           
+          {/* Volume Bars */}
+          {maxVolume > 0 && visibleCandles.map((candle, index) => {
+            const height = getVolumeHeight(candle.volume ?? 0);
+            return (
+              <rect
+                key={`vol-${candle.time}`}
+                x={`${index * candleWidth + candleWidth * 0.1}%`}
+                y={`${100 - height}%`}
+                width={`${candleWidth * 0.8}%`}
+                height={`${height}%`}
+                fill={candle.close >= candle.open ? '#2ECC71' : '#E74C3C'}
+                opacity="0.35"
+              />
+            );
+          })}
+          
           {/* Candlesticks */}
           {visibleCandles.map((candle, index) => {
             const x = index * candleWidth;
@@ -123,6 +147,27 @@ const MarketView: FC<MarketViewProps> = ({ observers, marketData, currentTimeSte
                   stroke="#FFFF00" strokeWidth="2"
                />
            )}
+
+          {/* Live (unclosed) candle, drawn after the actual price */}
+          {liveCandle && (
+            <g opacity="0.6">
+              <line
+                x1={`${(visibleCandles.length + 1.5) * candleWidth}%`} y1={`${getPriceY(liveCandle.high)}%`}
+                x2={`${(visibleCandles.length + 1.5) * candleWidth}%`} y2={`${getPriceY(liveCandle.low)}%`}
+                stroke={liveCandle.close >= liveCandle.open ? '#2ECC71' : '#E74C3C'}
+                strokeWidth="1"
+              />
+              <rect
+                x={`${(visibleCandles.length + 1) * candleWidth + candleWidth * 0.1}%`}
+                y={`${Math.min(getPriceY(liveCandle.open), getPriceY(liveCandle.close))}%`}
+                width={`${candleWidth * 0.8}%`}
+                height={`${Math.abs(getPriceY(liveCandle.open) - getPriceY(liveCandle.close))}%`}
+                fill="none"
+                stroke={liveCandle.close >= liveCandle.open ? '#2ECC71' : '#E74C3C'}
+                strokeDasharray="2 1"
+              />
+            </g>
+          )}
         </svg>
       </div>
     </div>
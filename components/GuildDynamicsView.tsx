@@ -1,60 +1,98 @@
-
 import React from 'react';
 import type { FC } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { PRIMES } from '../constants';
+import type { Guild } from '../types';
+import { getLeadGuild } from '../services/guildEcologyService';
 
 interface GuildDynamicsViewProps {
-  history: Array<Record<string, number>>;
+  guilds: Guild[];
+  histories: Record<string, Array<Record<string, number>>>; // Phase vector history per guild id
 }
 
-// Show first 8 primes for clarity
-const PRIMES_TO_SHOW = PRIMES.slice(0, 8);
+// Show the first 8 basis moduli for clarity
+const MODULI_TO_SHOW = 8;
+const getBasis = (guild: Guild | undefined): number[] =>
+  guild ? Object.keys(guild.collectivePhaseVector).map(Number) : [];
+
 const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#e67e22', '#3498db', '#1abc9c', '#f1c40f', '#9b59b6'];
 
+const PhaseChart: FC<{ history: Array<Record<string, number>>; basis: number[]; showLegend: boolean }> = ({ history, basis, showLegend }) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <LineChart
+      data={history}
+      margin={{
+        top: 5,
+        right: 20,
+        left: -10,
+        bottom: 5,
+      }}
+    >
+      <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+      <XAxis dataKey="generation" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+      <YAxis tick={{ fill: '#A0AEC0', fontSize: 10 }} domain={['dataMin', 'dataMax']} />
+      <Tooltip
+        contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
+        labelStyle={{ color: '#E2E8F0' }}
+        labelFormatter={(label) => `Generation: ${label}`}
+        formatter={(value: number) => [value.toFixed(2), 'Phase']}
+      />
+      {showLegend && <Legend wrapperStyle={{fontSize: "12px"}}/>}
+      {basis.slice(0, MODULI_TO_SHOW).map((p, index) => (
+        <Line
+          key={p}
+          type="monotone"
+          dataKey={p}
+          name={`φ${p}`}
+          stroke={COLORS[index % COLORS.length]}
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      ))}
+    </LineChart>
+  </ResponsiveContainer>
+);
+
+const GuildHeader: FC<{ guild: Guild; name: string; isLead: boolean }> = ({ guild, name, isLead }) => (
+  <div className="flex items-center justify-between text-xs mb-1">
+    <span className={`font-semibold ${isLead ? 'text-cyan-300' : 'text-gray-300'}`}>
+      {name}{isLead && ' ★'}{guild.respawns > 0 && <span className="text-gray-500 font-normal"> · respawned {guild.respawns}×</span>}
+    </span>
+    <span className="font-mono text-gray-400">
+      {guild.position ? <span className={guild.position.type === 'LONG' ? 'text-green-400' : 'text-red-400'}>{guild.position.type} </span> : 'Flat '}
+      · {(guild.capitalShare * 100).toFixed(0)}% capital
+    </span>
+  </div>
+);
+
+const GuildDynamicsView: FC<GuildDynamicsViewProps> = ({ guilds, histories }) => {
+  const leadId = getLeadGuild(guilds)?.id;
 
-const GuildDynamicsView: FC<GuildDynamicsViewProps> = ({ history }) => {
   return (
     <div className="bg-gray-800/50 rounded-lg p-4 flex flex-col h-full shadow-lg backdrop-blur-sm border border-gray-700">
       <h2 className="text-lg font-bold mb-2 text-cyan-300">Guild Dynamics</h2>
       <p className="text-sm text-gray-400 mb-4">
-        Evolution of the Collective Phase Vector (φB) over generations.
+        Evolution of the Collective Phase Vector (φB) over generations{guilds.length > 1 ? `, per guild (${guilds.length} guilds)` : ''}.
       </p>
-      <div className="flex-grow min-h-0">
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart
-            data={history}
-            margin={{
-              top: 5,
-              right: 20,
-              left: -10,
-              bottom: 5,
-            }}
-          >
-            <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
-            <XAxis dataKey="generation" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
-            <YAxis tick={{ fill: '#A0AEC0', fontSize: 10 }} domain={['dataMin', 'dataMax']} />
-            <Tooltip
-              contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
-              labelStyle={{ color: '#E2E8F0' }}
-              labelFormatter={(label) => `Generation: ${label}`}
-              formatter={(value: number) => [value.toFixed(2), 'Phase']}
-            />
-            <Legend wrapperStyle={{fontSize: "12px"}}/>
-            {PRIMES_TO_SHOW.map((p, index) => (
-              <Line
-                key={p}
-                type="monotone"
-                dataKey={p}
-                name={`Prime ${p}`}
-                stroke={COLORS[index % COLORS.length]}
-                strokeWidth={2}
-                dot={false}
-              />
-            ))}
-          </LineChart>
-        </ResponsiveContainer>
-      </div>
+      {guilds.length <= 1 ? (
+        <div className="flex-grow min-h-0">
+          <PhaseChart history={histories[guilds[0]?.id] ?? []} basis={getBasis(guilds[0])} showLegend />
+        </div>
+      ) : (
+        <div className="flex-grow min-h-0 overflow-y-auto space-y-4 pr-1">
+          {guilds.map((guild, index) => (
+            <div key={guild.id}>
+              <GuildHeader guild={guild} name={`Guild ${index + 1}`} isLead={guild.id === leadId} />
+              <div className="h-1 bg-gray-700 rounded mb-2">
+                <div className="h-1 bg-cyan-500 rounded" style={{ width: `${guild.capitalShare * 100}%` }} />
+              </div>
+              <div className="h-40">
+                <PhaseChart history={histories[guild.id] ?? []} basis={getBasis(guild)} showLegend={false} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
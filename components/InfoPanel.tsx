@@ -1,14 +1,19 @@
 import React from 'react';
 import type { FC } from 'react';
-import type { SimulationStats } from '../types';
+import type { SimulationStats, MarketRegime } from '../types';
 
 interface InfoPanelProps {
   stats: SimulationStats;
 }
 
+// Order of the confusion matrix rows (actual) and columns (detected)
+const REGIMES: MarketRegime[] = ['trending', 'ranging', 'volatile'];
+
+const accuracyColorFor = (accuracy: number): string =>
+  accuracy >= 60 ? 'text-green-400' : accuracy >= 50 ? 'text-yellow-400' : 'text-red-400';
+
 const InfoPanel: FC<InfoPanelProps> = ({ stats }) => {
-  const accuracyColor = stats.directionAccuracy >= 60 ? 'text-green-400' :
-                       stats.directionAccuracy >= 50 ? 'text-yellow-400' : 'text-red-400';
+  const accuracyColor = accuracyColorFor(stats.directionAccuracy);
   
   return (
     <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl p-6 shadow-2xl backdrop-blur-md border border-gray-700/50">
@@ -65,6 +70,93 @@ const InfoPanel: FC<InfoPanelProps> = ({ stats }) => {
           )}
         </div>
       </div>
+
+      {stats.predictive && (
+        <div className="mt-6 pt-4 border-t border-gray-700/50">
+          <h3 className="text-sm font-bold text-cyan-300 mb-3 uppercase tracking-wide">
+            Predictive Interval ({(stats.predictive.level * 100).toFixed(0)}%)
+          </h3>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="font-semibold text-gray-400">Mean ± σ:</div>
+            <div className="font-mono text-right text-green-400">
+              ${stats.predictive.mean.toFixed(2)} ± {stats.predictive.scale.toFixed(2)}
+            </div>
+
+            <div className="font-semibold text-gray-400">Interval:</div>
+            <div className="font-mono text-right text-green-400">
+              ${stats.predictive.lower.toFixed(2)} – ${stats.predictive.upper.toFixed(2)}
+            </div>
+
+            <div className="font-semibold text-gray-400">P(Up):</div>
+            <div className={`font-mono text-right font-bold ${stats.predictive.probabilityUp >= 0.5 ? 'text-green-400' : 'text-red-400'}`}>
+              {(stats.predictive.probabilityUp * 100).toFixed(1)}%
+            </div>
+
+            <div className="font-semibold text-gray-400">Coverage:</div>
+            <div className="font-mono text-right text-cyan-400">
+              {stats.intervalCoverage !== null ? `${stats.intervalCoverage.toFixed(1)}%` : '—'}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {stats.regimeDetection && (
+        <div className="mt-6 pt-4 border-t border-gray-700/50">
+          <h3 className="text-sm font-bold text-cyan-300 mb-3 uppercase tracking-wide">Regime Detection</h3>
+          <div className="grid grid-cols-2 gap-4 text-sm mb-3">
+            <div className="font-semibold text-gray-400">Accuracy vs labels:</div>
+            <div className={`font-mono text-right font-bold ${accuracyColorFor(stats.regimeDetection.accuracy * 100)}`}>
+              {(stats.regimeDetection.accuracy * 100).toFixed(1)}% ({stats.regimeDetection.samples})
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            <div className="font-semibold text-gray-500">Actual ↓ / Detected →</div>
+            {REGIMES.map(regime => (
+              <div key={regime} className="font-semibold text-gray-500 text-right">{regime}</div>
+            ))}
+            {REGIMES.map(actual => (
+              <React.Fragment key={actual}>
+                <div className="font-mono text-gray-400">{actual}</div>
+                {REGIMES.map(detected => (
+                  <div key={detected} className={`font-mono text-right ${actual === detected ? 'text-green-400' : 'text-cyan-400'}`}>
+                    {stats.regimeDetection.confusion[actual][detected]}
+                  </div>
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {stats.horizonAccuracy.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-gray-700/50">
+          <h3 className="text-sm font-bold text-cyan-300 mb-3 uppercase tracking-wide">Forecast Horizons</h3>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            <div className="font-semibold text-gray-500">Horizon</div>
+            <div className="font-semibold text-gray-500 text-right">Forecast</div>
+            <div className="font-semibold text-gray-500 text-right">Accuracy</div>
+            <div className="font-semibold text-gray-500 text-right">Correct / Total</div>
+
+            <div className="font-mono text-gray-400">t+1</div>
+            <div className="font-mono text-right text-green-400">${stats.bestPrediction.toFixed(2)}</div>
+            <div className={`font-mono text-right font-bold ${accuracyColorFor(stats.directionAccuracy)}`}>
+              {stats.directionAccuracy.toFixed(1)}%
+            </div>
+            <div className="font-mono text-right text-cyan-400">{stats.correctPredictions} / {stats.totalPredictions}</div>
+
+            {stats.horizonAccuracy.map(entry => (
+              <React.Fragment key={entry.horizon}>
+                <div className="font-mono text-gray-400">t+{entry.horizon}</div>
+                <div className="font-mono text-right text-green-400">${entry.bestPrediction.toFixed(2)}</div>
+                <div className={`font-mono text-right font-bold ${entry.totalPredictions > 0 ? accuracyColorFor(entry.directionAccuracy) : 'text-gray-500'}`}>
+                  {entry.totalPredictions > 0 ? `${entry.directionAccuracy.toFixed(1)}%` : '—'}
+                </div>
+                <div className="font-mono text-right text-cyan-400">{entry.correctPredictions} / {entry.totalPredictions}</div>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
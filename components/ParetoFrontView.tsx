@@ -0,0 +1,71 @@
+import React from 'react';
+import type { FC } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { ParetoPoint } from '../types';
+
+interface ParetoFrontViewProps {
+  points: ParetoPoint[];
+  driverId: number | null;
+  pick: number | null;
+  onPick: (id: number | null) => void; // null returns the choice to the knee point
+}
+
+const ParetoTooltip: FC<{ active?: boolean; payload?: Array<{ payload: ParetoPoint }> }> = ({ active, payload }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-xs font-mono text-gray-200">
+      <div className="text-cyan-300 font-bold mb-1">Observer #{point.id} · front {point.front}</div>
+      <div>Return: ${point.return.toFixed(2)}</div>
+      <div>Max drawdown: ${point.drawdown.toFixed(2)}</div>
+      <div>Error: {(point.error * 100).toFixed(3)}%</div>
+      <div>Novelty: {point.novelty.toFixed(3)}</div>
+    </div>
+  );
+};
+
+const ParetoFrontView: FC<ParetoFrontViewProps> = ({ points, driverId, pick, onPick }) => {
+  const front = points.filter(point => point.front === 0 && point.id !== driverId);
+  const dominated = points.filter(point => point.front > 0);
+  const driver = points.filter(point => point.id === driverId);
+  const handleClick = (item: { payload?: ParetoPoint }) => {
+    if (item.payload?.front === 0) onPick(item.payload.id);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 flex flex-col h-full shadow-lg backdrop-blur-sm border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-bold text-cyan-300">Pareto Front</h2>
+        <span className="text-xs font-mono text-gray-400">
+          {driverId !== null ? `driver #${driverId}` : '—'} · {points.length - dominated.length} on front
+          {pick !== null && (
+            <button onClick={() => onPick(null)} className="ml-2 text-cyan-400 hover:text-cyan-300 underline">
+              knee
+            </button>
+          )}
+        </span>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Lead guild's observers by return and max drawdown (size = novelty). Click a front member to let it drive trading;
+        {pick === null ? ' the knee point drives it now.' : ' the knee point takes over if it leaves the front.'}
+      </p>
+      <div className="flex-grow min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+            <XAxis type="number" dataKey="drawdown" name="Max drawdown" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+            <YAxis type="number" dataKey="return" name="Return" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+            <ZAxis type="number" dataKey="novelty" range={[20, 160]} />
+            <Tooltip content={<ParetoTooltip />} />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Scatter name="Dominated" data={dominated} fill="#4A5568" isAnimationActive={false} />
+            <Scatter name="Pareto front" data={front} fill="#22d3ee" cursor="pointer" onClick={handleClick} isAnimationActive={false} />
+            <Scatter name="Driver" data={driver} fill="#ffc658" shape="star" isAnimationActive={false} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ParetoFrontView;
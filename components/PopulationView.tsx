@@ -0,0 +1,46 @@
+import React from 'react';
+import type { FC } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface PopulationViewProps {
+  history: Array<{ timeStep: number; population: number; capacity: number }>;
+  births: number;
+  deaths: number;
+}
+
+const PopulationView: FC<PopulationViewProps> = ({ history, births, deaths }) => {
+  const latest = history[history.length - 1];
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 flex flex-col h-full shadow-lg backdrop-blur-sm border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-bold text-cyan-300">Population</h2>
+        <span className="text-xs font-mono text-gray-400">
+          {latest ? `${latest.population} / ${latest.capacity}` : '—'} · <span className="text-green-400">+{births}</span> <span className="text-red-400">−{deaths}</span>
+        </span>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Observers alive across all guilds against the carrying capacity their trading earns.
+      </p>
+      <div className="flex-grow min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={history} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+            <XAxis dataKey="timeStep" tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+            <YAxis allowDecimals={false} tick={{ fill: '#A0AEC0', fontSize: 10 }} domain={['dataMin', 'dataMax']} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
+              labelStyle={{ color: '#E2E8F0' }}
+              labelFormatter={(label) => `Step: ${label}`}
+            />
+            <Legend wrapperStyle={{ fontSize: '12px' }} />
+            <Line type="stepAfter" dataKey="population" name="Population" stroke="#82ca9d" strokeWidth={2} dot={false} isAnimationActive={false} />
+            <Line type="stepAfter" dataKey="capacity" name="Capacity" stroke="#8884d8" strokeDasharray="4 4" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default PopulationView;
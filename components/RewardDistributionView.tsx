@@ -0,0 +1,82 @@
+import React from 'react';
+import type { FC } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { Observer, RewardFunctionConfig, ScoringRule } from '../types';
+import { REWARD_FUNCTIONS, rewardHistogram, rewardSpread, zeroRewardShare } from '../services/rewardFunctionService';
+
+interface RewardDistributionViewProps {
+  observers: Observer[]; // Lead guild's population
+  rewardFunction: RewardFunctionConfig;
+  scoringRule: ScoringRule;
+}
+
+// Below this reward spread selection is barely better than picking at random
+const WEAK_PRESSURE_STD_DEV = 0.02;
+// Above this share of observers in the 0–0.1 bin the scale is too tight for the errors
+const ZERO_PILE_SHARE = 0.5;
+
+const RewardDistributionView: FC<RewardDistributionViewProps> = ({ observers, rewardFunction, scoringRule }) => {
+  const histogram = rewardHistogram(observers);
+  const { mean, stdDev, max } = rewardSpread(observers);
+  const weakPressure = stdDev < WEAK_PRESSURE_STD_DEV;
+  const piledAtZero = zeroRewardShare(observers) > ZERO_PILE_SHARE;
+  const distributional = scoringRule !== 'squared-error';
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl p-6 shadow-2xl backdrop-blur-md border border-gray-700/50">
+      <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-700/50">
+        <h2 className="text-lg font-bold text-white flex items-center">
+          <span className="w-2 h-2 bg-purple-400 rounded-full mr-2"></span>
+          Reward Distribution
+        </h2>
+        <span className="text-xs font-mono text-gray-400">
+          {distributional ? scoringRule : rewardFunction.kind}
+          {(distributional || rewardFunction.kind !== 'legacy') && ` · ${rewardFunction.scale}%`}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-3">
+        {distributional
+          ? 'Proper score of each forecast distribution, normalized by the reward scale'
+          : REWARD_FUNCTIONS[rewardFunction.kind].description}
+      </p>
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={histogram} margin={{ top: 5, right: 5, left: -25, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" vertical={false} />
+            <XAxis dataKey="range" tick={{ fill: '#A0AEC0', fontSize: 9 }} interval={1} />
+            <YAxis allowDecimals={false} tick={{ fill: '#A0AEC0', fontSize: 10 }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
+              labelStyle={{ color: '#E2E8F0' }}
+              labelFormatter={(label) => `Reward ${label}`}
+              formatter={(value: number) => [value, 'Observers']}
+            />
+            <Bar dataKey="count" fill="#a78bfa" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-xs mt-3">
+        <div>
+          <div className="text-gray-500">Mean</div>
+          <div className="font-mono text-cyan-400">{mean.toFixed(3)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Std Dev</div>
+          <div className={`font-mono ${weakPressure ? 'text-yellow-400' : 'text-cyan-400'}`}>{stdDev.toFixed(3)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Best</div>
+          <div className="font-mono text-green-400">{max.toFixed(3)}</div>
+        </div>
+      </div>
+      {weakPressure && (
+        <p className="text-xs text-yellow-400 mt-2">⚠️ Rewards barely differ, so selection pressure is weak. Try another reward function or scale.</p>
+      )}
+      {piledAtZero && (
+        <p className="text-xs text-yellow-400 mt-2">⚠️ Most observers score near 0, so the reward scale is too tight for their errors. Try a larger scale.</p>
+      )}
+    </div>
+  );
+};
+
+export default RewardDistributionView;
@@ -0,0 +1,112 @@
+import React from 'react';
+import type { FC } from 'react';
+import type { SimulationTimeline, TradingSignal, Position, Candle } from '../types';
+
+interface TimelinePanelProps {
+  timeline: SimulationTimeline;
+  currentStep: number; // Absolute candle index of the state on screen
+  startStep: number; // First step of the run, for relative step labels
+  marketData: Candle[];
+  eliteN: number | null;
+  signal: TradingSignal | null;
+  position: Position | null;
+  isRunning: boolean;
+  onSeek: (step: number) => void;
+  onStepBack: () => void;
+  onStepForward: () => void;
+  onToggleRunning: () => void;
+}
+
+const formatCandleTime = (time: number | undefined): string =>
+  time !== undefined ? new Date(time).toISOString().slice(0, 16).replace('T', ' ') : '—';
+
+const TimelinePanel: FC<TimelinePanelProps> = ({
+  timeline,
+  currentStep,
+  startStep,
+  marketData,
+  eliteN,
+  signal,
+  position,
+  isRunning,
+  onSeek,
+  onStepBack,
+  onStepForward,
+  onToggleRunning
+}) => {
+  const { firstStep, lastStep } = timeline;
+  const isRewound = currentStep < lastStep;
+  const features = signal?.ecologyFeatures;
+  const signalColor = signal?.action === 'BUY' ? 'text-green-400' : signal?.action === 'SELL' ? 'text-red-400' : 'text-gray-400';
+  const buttonClass = (disabled: boolean) => `px-3 py-2 rounded-lg text-xs font-bold transition-all duration-200 border border-gray-600/50 ${
+    disabled ? 'bg-gray-700 text-gray-500 cursor-not-allowed' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+  }`;
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800/90 to-gray-900/90 rounded-xl p-6 shadow-2xl backdrop-blur-md border border-gray-700/50">
+      <div className="flex items-center justify-between mb-4 pb-3 border-b border-gray-700/50">
+        <h2 className="text-lg font-bold text-white flex items-center">
+          <span className={`w-2 h-2 ${isRewound ? 'bg-yellow-400' : 'bg-cyan-400'} rounded-full mr-2`}></span>
+          Timeline
+        </h2>
+        <span className="text-xs text-gray-400 font-mono">
+          step {currentStep - startStep} · {formatCandleTime(marketData[currentStep]?.time)}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={firstStep}
+        max={lastStep}
+        step={1}
+        value={Math.min(Math.max(currentStep, firstStep), lastStep)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="w-full h-2 bg-gradient-to-r from-gray-700 to-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 shadow-inner"
+      />
+      <div className="flex justify-between text-xs text-gray-500 font-mono mt-1">
+        <span>{firstStep - startStep}</span>
+        {isRewound && <span className="text-yellow-400">{lastStep - currentStep} steps behind</span>}
+        <span>{lastStep - startStep}</span>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button onClick={onStepBack} disabled={isRunning || currentStep <= firstStep} title="Step back one candle" className={`flex-1 ${buttonClass(isRunning || currentStep <= firstStep)}`}>
+          ⏮ Back
+        </button>
+        <button onClick={onToggleRunning} className={`flex-1 ${buttonClass(false)}`}>
+          {isRunning ? '⏸ Pause' : '▶ Resume'}
+        </button>
+        <button onClick={onStepForward} disabled={isRunning} title="Step forward one candle" className={`flex-1 ${buttonClass(isRunning)}`}>
+          Forward ⏭
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mt-4 pt-3 border-t border-gray-700/50 text-xs">
+        <div className="text-gray-400">Elite Prediction</div>
+        <div className="font-mono text-right text-cyan-400">{eliteN !== null ? `$${eliteN.toFixed(2)}` : '—'}</div>
+        <div className="text-gray-400">Signal</div>
+        <div className={`font-mono text-right font-bold ${signalColor}`}>
+          {signal ? `${signal.action} · ${(signal.confidence * 100).toFixed(0)}%` : '—'}
+        </div>
+        <div className="text-gray-400">Position</div>
+        <div className="font-mono text-right text-gray-300">
+          {position ? `${position.type} @ $${position.entryPrice.toFixed(2)}` : 'Flat'}
+        </div>
+        {features && (
+          <>
+            <div className="text-gray-400">Regime</div>
+            <div className="font-mono text-right text-gray-300">{features.marketRegime}</div>
+            <div className="text-gray-400">Phase Consensus</div>
+            <div className="font-mono text-right text-gray-300">{features.phaseConsensus.toFixed(2)}</div>
+            <div className="text-gray-400">Trend / Volatility</div>
+            <div className="font-mono text-right text-gray-300">
+              {features.trendStrength.toFixed(2)} / {(features.volatilityEstimate * 100).toFixed(2)}%
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
@@ -5,9 +5,10 @@ import type { TradingStats, TradingSignal } from '../types';
 interface TradingPanelProps {
   tradingStats: TradingStats;
   currentSignal: TradingSignal | null;
+  baseAsset: string; // Asset position sizes are denominated in
 }
 
-const TradingPanel: FC<TradingPanelProps> = ({ tradingStats, currentSignal }) => {
+const TradingPanel: FC<TradingPanelProps> = ({ tradingStats, currentSignal, baseAsset }) => {
   const winRateColor = tradingStats.winRate >= 60 ? 'text-green-400' : 
                        tradingStats.winRate >= 50 ? 'text-yellow-400' : 'text-red-400';
   
@@ -88,6 +89,21 @@ const TradingPanel: FC<TradingPanelProps> = ({ tradingStats, currentSignal }) =>
             <div className="font-mono text-right text-cyan-400">
               {(currentSignal.ecologyFeatures.phaseConsensus * 100).toFixed(1)}%
             </div>
+            
+            <div className="font-semibold text-gray-400">Relative Volume:</div>
+            <div className="font-mono text-right text-cyan-400">
+              {currentSignal.ecologyFeatures.relativeVolume.toFixed(2)}x
+            </div>
+            
+            <div className="font-semibold text-gray-400">OBV Slope:</div>
+            <div className={`font-mono text-right ${currentSignal.ecologyFeatures.obvSlope >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {currentSignal.ecologyFeatures.obvSlope >= 0 ? '+' : ''}{currentSignal.ecologyFeatures.obvSlope.toFixed(2)}
+            </div>
+            
+            <div className="font-semibold text-gray-400">Vol-Weighted Volatility:</div>
+            <div className="font-mono text-right text-cyan-400">
+              {(currentSignal.ecologyFeatures.volumeWeightedVolatility * 100).toFixed(2)}%
+            </div>
           </div>
         </div>
       )}
@@ -114,7 +130,7 @@ const TradingPanel: FC<TradingPanelProps> = ({ tradingStats, currentSignal }) =>
             
             <div className="font-semibold text-gray-400">Size:</div>
             <div className="font-mono text-right text-cyan-400">
-              {tradingStats.currentPosition.size} BTC
+              {Number(tradingStats.currentPosition.size.toPrecision(4))} {baseAsset}
             </div>
           </div>
         </div>
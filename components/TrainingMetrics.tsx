@@ -202,7 +202,7 @@ export const TrainingMetrics: React.FC<TrainingMetricsProps> = ({
             >
               <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
                 <span style={{ color: '#00ff88' }}>Epoch {m.epoch}</span>
-                <span style={{ color: '#aaa' }}>Timeframe: {m.timeframe}</span>
+                <span style={{ color: '#aaa' }}>Timeframe: {m.timeframe}{m.selectionStrategy ? ` · ${m.selectionStrategy}` : ''}</span>
               </div>
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                 <span>Win: {formatPercent(m.winRate)}</span>
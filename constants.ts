@@ -1,20 +1,51 @@
-import type { SimulationParams } from './types';
+import type { SimulationParams, SymbolInfo, Timeframe, SimulationSpeed, PrimeBasisKind, EmbeddingKind, HorizonSignalMode, ScoringRule, RewardFunctionKind, DynamicsMode, PhaseUpdateRule, CrossoverOperator, ParentSelection, SelectionStrategy, FitnessMode, BehaviorDescriptorKind } from './types';
 
-// First 30 prime numbers
+// First 30 prime numbers (the default basis)
 export const PRIMES = [
   2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41,
   43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97, 101, 103, 107, 109, 113
 ];
 
 export const DEFAULT_SIMULATION_PARAMS: SimulationParams = {
+  symbol: 'BTCUSDT',
+  dataProvider: 'mexc',
+  syntheticModel: 'regime-switching',
+  syntheticSeed: 42,
+  dateRange: null,
+  baseTimeframe: null,
+  liveMode: false,
+  liveStreamUrl: 'wss://wbs.mexc.com/ws',
+  dataRepairPolicy: 'forward-fill',
   numObservers: 50,
   learningRate: 0.05,
   mutationRate: 0.2, // Higher mutation for dynamic environment
+  seed: 42,
   resetToken: 0,
   timeframe: '4h',
   trainingMode: false,
   cycleTimeframes: false,
   targetEpochs: 5,
+  numGuilds: 1,
+  migrationInterval: 50,
+  migrationSize: 2,
+  capitalCompetition: 10,
+  extinctionShare: 0.25,
+  primeBasis: { kind: 'first-n', count: PRIMES.length, primes: PRIMES },
+  embedding: 'price',
+  forecastHorizons: [1],
+  eliteHorizon: 1,
+  horizonSignalMode: 'next-candle',
+  scoringRule: 'squared-error',
+  rewardFunction: { kind: 'gaussian', scale: 1 },
+  dynamicsMode: 'standard',
+  phaseUpdateRule: 'linear',
+  lifecycle: { enabled: false, fitnessThreshold: 0.4, patience: 20, minPopulation: 20, maxPopulation: 100 },
+  crossover: { operator: 'none', probability: 0.7, parentSelection: 'elite-ensemble', blendAlpha: 0.5, sbxEta: 15 },
+  selection: { strategy: 'truncation', ensembleSize: 3, tournamentSize: 3, rankPressure: 1.5, temperature: 0.05 },
+  fitnessMode: 'scalar',
+  qualityDiversity: { enabled: false, descriptor: 'trading-style', bins: 10, seedRate: 0.05 },
+  paretoPick: null,
+  entropyWeight: 0.3,
 };
 
 // Timeframes for cycling during training (ordered by increasing time horizon)
@@ -32,4 +63,137 @@ export const TIMEFRAME_OPTIONS = [
   { value: '1d', label: '1 Day' },
 ] as const;
 
+export const SYMBOL_OPTIONS: SymbolInfo[] = [
+  { symbol: 'BTCUSDT', label: 'BTC/USDT', baseAsset: 'BTC', quoteAsset: 'USDT' },
+  { symbol: 'ETHUSDT', label: 'ETH/USDT', baseAsset: 'ETH', quoteAsset: 'USDT' },
+  { symbol: 'SOLUSDT', label: 'SOL/USDT', baseAsset: 'SOL', quoteAsset: 'USDT' },
+  { symbol: 'BNBUSDT', label: 'BNB/USDT', baseAsset: 'BNB', quoteAsset: 'USDT' },
+  { symbol: 'XRPUSDT', label: 'XRP/USDT', baseAsset: 'XRP', quoteAsset: 'USDT' },
+  { symbol: 'DOGEUSDT', label: 'DOGE/USDT', baseAsset: 'DOGE', quoteAsset: 'USDT' },
+];
+
+export const MARKET_DATA_PROVIDER_OPTIONS = [
+  { value: 'mexc', label: 'MEXC Exchange (live API)' },
+  { value: 'local', label: 'Local File (CSV / JSON)' },
+  { value: 'synthetic', label: 'Synthetic Generator' },
+] as const;
+
+export const SYNTHETIC_MODEL_OPTIONS = [
+  { value: 'gbm', label: 'Geometric Brownian Motion' },
+  { value: 'regime-switching', label: 'Markov Regime Switching' },
+  { value: 'jump-diffusion', label: 'Jump Diffusion' },
+  { value: 'ornstein-uhlenbeck', label: 'Ornstein–Uhlenbeck (Mean Reverting)' },
+] as const;
+
+export const DATA_REPAIR_POLICY_OPTIONS = [
+  { value: 'forward-fill', label: 'Forward-fill (flat candles at last close)' },
+  { value: 'interpolate', label: 'Interpolate (linear between neighbours)' },
+  { value: 'drop', label: 'Drop bad candles (leave gaps)' },
+  { value: 'none', label: 'None (report only)' },
+] as const;
+
+export const PRIME_BASIS_OPTIONS: Array<{ value: PrimeBasisKind; label: string }> = [
+  { value: 'first-n', label: 'First N primes' },
+  { value: 'explicit', label: 'Explicit prime list' },
+  { value: 'prime-powers', label: 'First N prime powers (2, 3, 4, 5, 7, 8, 9…)' },
+];
+
+export const EMBEDDING_OPTIONS: Array<{ value: EmbeddingKind; label: string }> = [
+  { value: 'price', label: 'Price (n rounded to an integer)' },
+  { value: 'log-price', label: 'Log price (0.1% steps)' },
+  { value: 'returns', label: 'Returns (predicted move in basis points)' },
+  { value: 'multi-scale', label: 'Multi-scale (0.01% / 0.1% / 1% of price)' },
+];
+
+export const FORECAST_HORIZON_PRESETS: Array<{ value: string; label: string; horizons: number[] }> = [
+  { value: '1', label: 't+1 only', horizons: [1] },
+  { value: '1,4', label: 't+1, t+4', horizons: [1, 4] },
+  { value: '1,4,12', label: 't+1, t+4, t+12', horizons: [1, 4, 12] },
+  { value: '1,4,12,48', label: 't+1, t+4, t+12, t+48', horizons: [1, 4, 12, 48] },
+];
+
+export const HORIZON_SIGNAL_MODE_OPTIONS: Array<{ value: HorizonSignalMode; label: string }> = [
+  { value: 'next-candle', label: 'Next candle (t+1 elite)' },
+  { value: 'timed-entry', label: 'Long-horizon direction, t+1 entry timing' },
+];
+
+export const SCORING_RULE_OPTIONS: Array<{ value: ScoringRule; label: string }> = [
+  { value: 'squared-error', label: 'Point forecast (reward function)' },
+  { value: 'crps', label: 'CRPS (continuous ranked probability score)' },
+  { value: 'log-score', label: 'Log score (predictive likelihood)' },
+  { value: 'pinball', label: 'Pinball loss (10% / 50% / 90% quantiles)' },
+];
+
+export const REWARD_FUNCTION_OPTIONS: Array<{ value: RewardFunctionKind; label: string }> = [
+  { value: 'gaussian', label: 'Gaussian (percentage error)' },
+  { value: 'laplacian', label: 'Laplacian (percentage error)' },
+  { value: 'directional', label: 'Directional hit' },
+  { value: 'return-sign', label: 'Return-sign weighted' },
+  { value: 'trading-pnl', label: 'Trading PnL only' },
+  { value: 'legacy', label: 'Legacy (exp(-10·error²/price))' },
+];
+
+export const DYNAMICS_MODE_OPTIONS: Array<{ value: DynamicsMode; label: string }> = [
+  { value: 'standard', label: 'Standard (follow the elite)' },
+  { value: 'entropy-minimizing', label: 'Entropy-minimizing' },
+];
+
+export const PHASE_UPDATE_RULE_OPTIONS: Array<{ value: PhaseUpdateRule; label: string }> = [
+  { value: 'linear', label: 'Linear EMA of residues' },
+  { value: 'circular', label: 'Circular (unit-circle average)' },
+];
+
+export const CROSSOVER_OPERATOR_OPTIONS: Array<{ value: CrossoverOperator; label: string }> = [
+  { value: 'none', label: 'None (evolve toward one elite)' },
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'blend', label: 'Blend (BLX-α)' },
+  { value: 'sbx', label: 'Simulated binary (SBX)' },
+];
+
+export const PARENT_SELECTION_OPTIONS: Array<{ value: ParentSelection; label: string }> = [
+  { value: 'elite-ensemble', label: 'Two elites' },
+  { value: 'elite-and-self', label: 'Elite × self' },
+  { value: 'tournament', label: 'Binary tournament' },
+];
+
+export const FITNESS_MODE_OPTIONS: Array<{ value: FitnessMode; label: string }> = [
+  { value: 'scalar', label: 'Scalar (weighted blend)' },
+  { value: 'multi-objective', label: 'Multi-objective (NSGA-II)' },
+];
+
+export const BEHAVIOR_DESCRIPTOR_OPTIONS: Array<{ value: BehaviorDescriptorKind; label: string }> = [
+  { value: 'trading-style', label: 'Trade frequency × holding time' },
+  { value: 'strategy-genes', label: 'Trend following × risk tolerance' },
+];
+
+export const SELECTION_STRATEGY_OPTIONS: Array<{ value: SelectionStrategy; label: string }> = [
+  { value: 'truncation', label: 'Truncation (top N)' },
+  { value: 'tournament', label: 'Tournament' },
+  { value: 'linear-rank', label: 'Linear rank' },
+  { value: 'roulette', label: 'Roulette (fitness-proportionate)' },
+  { value: 'boltzmann', label: 'Boltzmann' },
+];
+
+export const PREDICTIVE_INTERVAL_LEVEL = 0.8; // Nominal coverage of the population's predictive interval
+
+// Candle duration in milliseconds for each timeframe
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+export const DEFAULT_CANDLE_COUNT = 1000; // Candles loaded when no date range is selected
+
 export const SIMULATION_SPEED_MS = 200; // Slower speed for better visualization of market steps
+
+// Step interval per speed; 'max' steps back to back and only yields to handle UI commands
+export const SIMULATION_SPEED_OPTIONS: Array<{ value: SimulationSpeed; label: string; intervalMs: number }> = [
+  { value: '1x', label: '1x', intervalMs: SIMULATION_SPEED_MS },
+  { value: '10x', label: '10x', intervalMs: SIMULATION_SPEED_MS / 10 },
+  { value: 'max', label: 'Max', intervalMs: 0 },
+];
@@ -0,0 +1,32 @@
+import { generateSyntheticMarket } from '../services/syntheticMarketService';
+import { runBacktest } from '../services/backtestService';
+import { DEFAULT_SIMULATION_PARAMS } from '../constants';
+import type { PhaseUpdateRule, SimulationParams } from '../types';
+
+/**
+ * Circular Phase Trading Check
+ * Backtests the same trending synthetic market under the linear and circular phase update
+ * rules and fails when the circular rule stops trading: its trend strength and consensus
+ * feed the same regime and entry thresholds as the linear rule's, so both should trade.
+ *
+ * Usage: npm run check:circular
+ */
+
+const MIN_TRADE_RATIO = 0.25; // Circular trades as a share of linear trades
+
+const { candles } = generateSyntheticMarket({ model: 'gbm', seed: 42, timeframe: '4h', length: 600, drift: 1.5 });
+
+const tradesUnder = (phaseUpdateRule: PhaseUpdateRule): number => {
+  const params: SimulationParams = { ...DEFAULT_SIMULATION_PARAMS, timeframe: '4h', phaseUpdateRule, targetEpochs: 1 };
+  return runBacktest(candles, params, 'synthetic gbm').tradingStats.totalTrades;
+};
+
+const linear = tradesUnder('linear');
+const circular = tradesUnder('circular');
+console.error(`Trending synthetic market: linear ${linear} trades, circular ${circular} trades`);
+
+if (circular === 0 || circular < linear * MIN_TRADE_RATIO) {
+  console.error(`❌ Circular phase updates barely trade (expected at least ${Math.ceil(linear * MIN_TRADE_RATIO)} trades)`);
+  process.exit(1);
+}
+console.error('✅ Circular phase updates trade on trending data');
@@ -0,0 +1,90 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import WebSocket from 'ws';
+import { generateSyntheticMarket } from '../services/syntheticMarketService';
+import { createLocalMarketDataProvider } from '../services/marketDataService';
+import { createWebSocketKlineStream } from '../services/klineStreamService';
+import { TIMEFRAME_MS } from '../constants';
+import type { Candle } from '../types';
+
+/**
+ * Kline Reconnect Check
+ * Replays a synthetic market through scripts/mockKlineServer.ts, which drops the client
+ * partway through, and fails unless the stream reconnects and fills the candles it missed
+ * while disconnected from the REST backfill, delivering every closed candle once and in order.
+ *
+ * Usage: npm run check:stream
+ */
+
+const PORT = 8799;
+const CANDLES = 60;
+const CANDLE_INTERVAL_MS = 150; // Wall-clock time per streamed candle
+const DROP_EVERY = 20; // The server drops its clients after every 20th candle
+const TIMEOUT_MS = 20_000;
+
+const { candles } = generateSyntheticMarket({ model: 'gbm', seed: 7, timeframe: '1m', length: CANDLES, drift: 0 });
+const directory = await mkdtemp(join(tmpdir(), 'kline-check-'));
+const dataPath = join(directory, 'candles.json');
+await writeFile(dataPath, JSON.stringify(candles));
+
+const server = spawn(process.execPath, [
+  ...process.execArgv, // Carries tsx's loader into the child
+  'scripts/mockKlineServer.ts', dataPath,
+  '--port', String(PORT),
+  '--interval-ms', String(CANDLE_INTERVAL_MS),
+  '--drop-every', String(DROP_EVERY),
+], { stdio: ['ignore', 'inherit', 'inherit'] });
+
+const provider = createLocalMarketDataProvider(candles);
+const closed: Candle[] = [];
+let gapFills = 0;
+let reconnects = 0;
+
+const stream = createWebSocketKlineStream({
+  url: `ws://localhost:${PORT}`,
+  symbol: 'BTCUSDT',
+  timeframe: '1m',
+  createSocket: (url) => new WebSocket(url) as unknown as globalThis.WebSocket,
+  fetchGap: async (range) => {
+    const missed = await provider.fetchCandles({ symbol: 'BTCUSDT', timeframe: '1m', range });
+    if (missed.length > 0) gapFills++;
+    return missed;
+  },
+});
+
+// The last candle is never closed by a newer one, so the run ends one short of the file
+const finished = new Promise<void>((resolve) => {
+  stream.start({
+    onPartialCandle: () => {},
+    onClosedCandle: (candle) => {
+      closed.push(candle);
+      if (candle.time >= candles[CANDLES - 2].time) resolve();
+    },
+    onStatusChange: (status) => {
+      if (status === 'reconnecting') reconnects++;
+    },
+  });
+});
+const timedOut = new Promise<'timeout'>((resolve) => setTimeout(() => resolve('timeout'), TIMEOUT_MS).unref());
+const outcome = await Promise.race([finished, timedOut]);
+
+stream.stop();
+server.kill();
+await rm(directory, { recursive: true, force: true });
+
+const failures: string[] = [];
+if (outcome === 'timeout') failures.push(`the stream closed only ${closed.length} candles within ${TIMEOUT_MS / 1000}s`);
+if (reconnects === 0) failures.push('the server never dropped the client');
+if (gapFills === 0) failures.push('no missed candles were filled via REST');
+const intervalMs = TIMEFRAME_MS['1m'];
+const breaks = closed.filter((candle, i) => i > 0 && candle.time !== closed[i - 1].time + intervalMs);
+if (breaks.length > 0) failures.push(`${breaks.length} closed candles do not follow the previous one`);
+
+console.error(`Closed ${closed.length} candles across ${reconnects} reconnect(s) with ${gapFills} gap fill(s)`);
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`❌ ${failure}`));
+  process.exit(1);
+}
+console.error('✅ Reconnects fill every missed candle in order');
@@ -0,0 +1,130 @@
+import { parseArgs } from 'node:util';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { Candle } from '../types';
+import { loadCandlesFromPath } from '../services/nodeMarketDataLoader';
+
+/**
+ * Mock Kline Server
+ * Replays a CSV/JSON candle file as a MEXC-style kline WebSocket stream so live mode
+ * can be exercised offline. Each candle is sent as several partial updates, then the
+ * next candle's first update closes it, just like the exchange.
+ *
+ * Usage: npm run mock:stream -- <file> [--port 8787] [--interval-ms 1000]
+ *        [--updates-per-candle 4] [--start-index 0] [--drop-every 0]
+ */
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    port: { type: 'string', default: '8787' },
+    'interval-ms': { type: 'string', default: '1000' }, // Wall-clock time per candle
+    'updates-per-candle': { type: 'string', default: '4' },
+    'start-index': { type: 'string', default: '0' }, // First candle to stream
+    'drop-every': { type: 'string', default: '0' }, // Close client sockets every N candles to test reconnects
+  },
+});
+
+const filePath = positionals[0];
+if (!filePath) {
+  console.error('❌ Usage: npm run mock:stream -- <candles.csv|json> [--port 8787] [--interval-ms 1000] [--start-index 0] [--drop-every 0]');
+  process.exit(1);
+}
+
+const port = Number(values.port);
+const intervalMs = Number(values['interval-ms']);
+const updatesPerCandle = Math.max(1, Number(values['updates-per-candle']));
+const dropEvery = Number(values['drop-every']);
+
+const candles = await loadCandlesFromPath(filePath);
+let index = Math.min(Math.max(0, Number(values['start-index'])), candles.length - 1);
+let update = 0;
+
+/**
+ * Partial view of a candle after `fraction` of its updates: the close walks from open
+ * to the final close and the range only ever widens toward the final high/low
+ */
+const partialCandle = (candle: Candle, fraction: number): Candle => {
+  const close = candle.open + (candle.close - candle.open) * fraction;
+  return {
+    ...candle,
+    close,
+    high: Math.max(candle.open, close, candle.open + (candle.high - candle.open) * fraction),
+    low: Math.min(candle.open, close, candle.open - (candle.open - candle.low) * fraction),
+    volume: candle.volume * fraction,
+    quoteVolume: candle.quoteVolume !== undefined ? candle.quoteVolume * fraction : undefined,
+  };
+};
+
+const toKlineMessage = (channel: string, candle: Candle): string => JSON.stringify({
+  c: channel,
+  d: {
+    k: {
+      t: Math.floor(candle.time / 1000),
+      o: String(candle.open),
+      h: String(candle.high),
+      l: String(candle.low),
+      c: String(candle.close),
+      v: String(candle.volume),
+      a: String(candle.quoteVolume ?? candle.volume * candle.close),
+      T: Math.floor((candle.closeTime ?? candle.time) / 1000),
+    },
+  },
+  t: Date.now(),
+});
+
+const subscriptions = new Map<WebSocket, string>();
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket) => {
+  console.log('✅ Client connected');
+
+  socket.on('message', (data) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (parsed === null || typeof parsed !== 'object') return;
+    const message = parsed as Record<string, unknown>;
+
+    if (message.method === 'SUBSCRIPTION' && Array.isArray(message.params)) {
+      const channel = String(message.params[0]);
+      subscriptions.set(socket, channel);
+      socket.send(JSON.stringify({ id: 0, code: 0, msg: channel }));
+      console.log(`✅ Subscribed to ${channel}`);
+    } else if (message.method === 'PING') {
+      socket.send(JSON.stringify({ id: 0, code: 0, msg: 'PONG' }));
+    }
+  });
+
+  socket.on('close', () => {
+    subscriptions.delete(socket);
+    console.log('⚠️ Client disconnected');
+  });
+});
+
+const tick = setInterval(() => {
+  if (index >= candles.length) {
+    console.log('✅ Replay finished');
+    clearInterval(tick);
+    server.close();
+    return;
+  }
+
+  update++;
+  const candle = partialCandle(candles[index], update / updatesPerCandle);
+  subscriptions.forEach((channel, socket) => socket.send(toKlineMessage(channel, candle)));
+
+  if (update < updatesPerCandle) return;
+
+  // Candle is complete; the first update of the next one closes it on the client
+  update = 0;
+  index++;
+  if (dropEvery > 0 && index % dropEvery === 0) {
+    console.log(`🔁 Dropping ${subscriptions.size} client(s) at candle ${index}`);
+    subscriptions.forEach((_, socket) => socket.terminate());
+  }
+}, intervalMs / updatesPerCandle);
+
+console.log(`✅ Streaming ${candles.length - index} candles from ${filePath} on ws://localhost:${port}`);
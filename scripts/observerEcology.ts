@@ -0,0 +1,277 @@
+import { parseArgs } from 'node:util';
+import { writeFile } from 'node:fs/promises';
+import type { SimulationParams, Timeframe, DataRepairPolicy, PrimeBasisConfig, PrimeBasisKind, EmbeddingKind, HorizonSignalMode, ScoringRule, RewardFunctionKind, DynamicsMode, PhaseUpdateRule, CrossoverOperator, ParentSelection, SelectionStrategy, FitnessMode, BehaviorDescriptorKind } from '../types';
+import { DEFAULT_SIMULATION_PARAMS, TIMEFRAME_OPTIONS, DATA_REPAIR_POLICY_OPTIONS, PRIME_BASIS_OPTIONS, EMBEDDING_OPTIONS, HORIZON_SIGNAL_MODE_OPTIONS, SCORING_RULE_OPTIONS, REWARD_FUNCTION_OPTIONS, DYNAMICS_MODE_OPTIONS, PHASE_UPDATE_RULE_OPTIONS, CROSSOVER_OPERATOR_OPTIONS, PARENT_SELECTION_OPTIONS, SELECTION_STRATEGY_OPTIONS, FITNESS_MODE_OPTIONS, BEHAVIOR_DESCRIPTOR_OPTIONS } from '../constants';
+import { loadCandlesFromPath } from '../services/nodeMarketDataLoader';
+import { resampleCandles } from '../services/resampleService';
+import { runBacktest } from '../services/backtestService';
+import { resolvePrimeBasis, parsePrimeList } from '../services/primeBasisService';
+
+/**
+ * Observer Ecology CLI
+ * Headless runs for sweeps and scripts.
+ *
+ * Usage: npm run observer-ecology -- backtest --data <file.csv|json> [--timeframe 4h]
+ *        [--base-timeframe 1m] [--symbol BTCUSDT] [--observers 50] [--guilds 1] [--epochs 5]
+ *        [--basis first-n:30 | prime-powers:40 | explicit:2,3,5,7] [--embedding price]
+ *        [--horizons 1,4,12] [--elite-horizon 1] [--horizon-signal next-candle]
+ *        [--scoring-rule squared-error] [--reward gaussian] [--reward-scale 1]
+ *        [--dynamics standard] [--entropy-weight 0.3] [--phase-update linear]
+ *        [--lifecycle] [--cull-threshold 0.4] [--cull-patience 20] [--min-observers 20] [--max-observers 100]
+ *        [--crossover none] [--crossover-rate 0.7] [--parent-selection elite-ensemble] [--blx-alpha 0.5] [--sbx-eta 15]
+ *        [--fitness-mode scalar] [--selection truncation] [--ensemble-size 3] [--tournament-size 3] [--rank-pressure 1.5] [--temperature 0.05]
+ *        [--quality-diversity] [--descriptor trading-style] [--archive-bins 10] [--archive-seed-rate 0.05]
+ *        [--seed 42] [--learning-rate 0.05] [--mutation-rate 0.2]
+ *        [--repair forward-fill] [--out backtest-report.json | -]
+ *
+ * Exit codes: 0 success, 1 run failed, 2 bad arguments.
+ */
+
+const USAGE = 'Usage: npm run observer-ecology -- backtest --data <file.csv|json> [--timeframe 4h] [--base-timeframe 1m] [--symbol BTCUSDT] [--observers 50] [--guilds 1] [--epochs 5] [--basis first-n:30] [--embedding price] [--horizons 1,4,12] [--elite-horizon 1] [--horizon-signal next-candle] [--scoring-rule squared-error] [--reward gaussian] [--reward-scale 1] [--dynamics standard] [--entropy-weight 0.3] [--phase-update linear] [--lifecycle] [--cull-threshold 0.4] [--cull-patience 20] [--min-observers 20] [--max-observers 100] [--crossover none] [--crossover-rate 0.7] [--parent-selection elite-ensemble] [--blx-alpha 0.5] [--sbx-eta 15] [--fitness-mode scalar] [--selection truncation] [--ensemble-size 3] [--tournament-size 3] [--rank-pressure 1.5] [--temperature 0.05] [--quality-diversity] [--descriptor trading-style] [--archive-bins 10] [--archive-seed-rate 0.05] [--seed 42] [--learning-rate 0.05] [--mutation-rate 0.2] [--repair forward-fill] [--out backtest-report.json | -]';
+
+const TIMEFRAMES = TIMEFRAME_OPTIONS.map(opt => opt.value) as Timeframe[];
+const REPAIR_POLICIES = DATA_REPAIR_POLICY_OPTIONS.map(opt => opt.value);
+const EMBEDDING_KINDS = EMBEDDING_OPTIONS.map(opt => opt.value);
+const BASIS_KINDS = PRIME_BASIS_OPTIONS.map(opt => opt.value);
+const HORIZON_SIGNAL_MODES = HORIZON_SIGNAL_MODE_OPTIONS.map(opt => opt.value);
+const SCORING_RULES = SCORING_RULE_OPTIONS.map(opt => opt.value);
+const REWARD_FUNCTION_KINDS = REWARD_FUNCTION_OPTIONS.map(opt => opt.value);
+const DYNAMICS_MODES = DYNAMICS_MODE_OPTIONS.map(opt => opt.value);
+const PHASE_UPDATE_RULES = PHASE_UPDATE_RULE_OPTIONS.map(opt => opt.value);
+const CROSSOVER_OPERATORS = CROSSOVER_OPERATOR_OPTIONS.map(opt => opt.value);
+const PARENT_SELECTIONS = PARENT_SELECTION_OPTIONS.map(opt => opt.value);
+const SELECTION_STRATEGIES = SELECTION_STRATEGY_OPTIONS.map(opt => opt.value);
+const FITNESS_MODES = FITNESS_MODE_OPTIONS.map(opt => opt.value);
+const BEHAVIOR_DESCRIPTORS = BEHAVIOR_DESCRIPTOR_OPTIONS.map(opt => opt.value);
+
+class UsageError extends Error {}
+
+const parseNumber = (name: string, value: string | undefined, fallback: number, isValid: (n: number) => boolean): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n) || !isValid(n)) {
+    throw new UsageError(`Invalid --${name}: ${value}`);
+  }
+  return n;
+};
+
+const parseTimeframe = (name: string, value: string): Timeframe => {
+  if (!TIMEFRAMES.includes(value as Timeframe)) {
+    throw new UsageError(`Invalid --${name}: ${value} (expected one of ${TIMEFRAMES.join(', ')})`);
+  }
+  return value as Timeframe;
+};
+
+// "<kind>:<count>" for first-n / prime-powers, "explicit:<p1,p2,…>" for a prime list
+const parsePrimeBasis = (value: string | undefined): PrimeBasisConfig => {
+  if (value === undefined) return DEFAULT_SIMULATION_PARAMS.primeBasis;
+  const [kind, spec = ''] = value.split(':');
+  if (!BASIS_KINDS.includes(kind as PrimeBasisKind)) {
+    throw new UsageError(`Invalid --basis: ${value} (expected ${BASIS_KINDS.join(', ')} followed by :<count> or :<primes>)`);
+  }
+  const config: PrimeBasisConfig = kind === 'explicit'
+    ? { ...DEFAULT_SIMULATION_PARAMS.primeBasis, kind, primes: parsePrimeList(spec) }
+    : { ...DEFAULT_SIMULATION_PARAMS.primeBasis, kind: kind as PrimeBasisKind, count: parseNumber('basis', spec, NaN, n => Number.isInteger(n) && n >= 1) };
+  try {
+    resolvePrimeBasis(config);
+  } catch (error) {
+    throw new UsageError(`Invalid --basis: ${(error as Error).message}`);
+  }
+  return config;
+};
+
+const parseHorizons = (value: string | undefined): number[] => {
+  if (value === undefined) return DEFAULT_SIMULATION_PARAMS.forecastHorizons;
+  const horizons = parsePrimeList(value);
+  if (horizons.length === 0 || !horizons.every(h => Number.isInteger(h) && h >= 1)) {
+    throw new UsageError(`Invalid --horizons: ${value} (expected candle counts such as 1,4,12)`);
+  }
+  return [...new Set([1, ...horizons])].sort((a, b) => a - b);
+};
+
+const backtest = async (args: string[]): Promise<void> => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      data: { type: 'string' },
+      timeframe: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.timeframe },
+      'base-timeframe': { type: 'string' }, // Timeframe of the file when it should be resampled to --timeframe
+      symbol: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.symbol },
+      observers: { type: 'string' },
+      guilds: { type: 'string' },
+      basis: { type: 'string' },
+      embedding: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.embedding },
+      horizons: { type: 'string' },
+      'elite-horizon': { type: 'string' },
+      'horizon-signal': { type: 'string', default: DEFAULT_SIMULATION_PARAMS.horizonSignalMode },
+      'scoring-rule': { type: 'string', default: DEFAULT_SIMULATION_PARAMS.scoringRule },
+      reward: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.rewardFunction.kind },
+      'reward-scale': { type: 'string' }, // Percent of the price
+      dynamics: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.dynamicsMode },
+      'entropy-weight': { type: 'string' },
+      'phase-update': { type: 'string', default: DEFAULT_SIMULATION_PARAMS.phaseUpdateRule },
+      lifecycle: { type: 'boolean', default: DEFAULT_SIMULATION_PARAMS.lifecycle.enabled },
+      'cull-threshold': { type: 'string' },
+      'cull-patience': { type: 'string' },
+      'min-observers': { type: 'string' }, // Carrying-capacity bounds per guild
+      'max-observers': { type: 'string' },
+      crossover: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.crossover.operator },
+      'crossover-rate': { type: 'string' },
+      'parent-selection': { type: 'string', default: DEFAULT_SIMULATION_PARAMS.crossover.parentSelection },
+      'blx-alpha': { type: 'string' },
+      'sbx-eta': { type: 'string' },
+      'fitness-mode': { type: 'string', default: DEFAULT_SIMULATION_PARAMS.fitnessMode }, // The knee point of the Pareto front drives trading
+      selection: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.selection.strategy },
+      'ensemble-size': { type: 'string' },
+      'tournament-size': { type: 'string' },
+      'rank-pressure': { type: 'string' },
+      temperature: { type: 'string' }, // Boltzmann selection
+      'quality-diversity': { type: 'boolean', default: DEFAULT_SIMULATION_PARAMS.qualityDiversity.enabled },
+      descriptor: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.qualityDiversity.descriptor },
+      'archive-bins': { type: 'string' },
+      'archive-seed-rate': { type: 'string' },
+      epochs: { type: 'string' },
+      seed: { type: 'string' },
+      'learning-rate': { type: 'string' },
+      'mutation-rate': { type: 'string' },
+      repair: { type: 'string', default: DEFAULT_SIMULATION_PARAMS.dataRepairPolicy },
+      out: { type: 'string', default: 'backtest-report.json' }, // '-' writes the report to stdout
+    },
+  });
+
+  if (!values.data) throw new UsageError('Missing --data');
+  if (!REPAIR_POLICIES.includes(values.repair as DataRepairPolicy)) {
+    throw new UsageError(`Invalid --repair: ${values.repair} (expected one of ${REPAIR_POLICIES.join(', ')})`);
+  }
+  if (!EMBEDDING_KINDS.includes(values.embedding as EmbeddingKind)) {
+    throw new UsageError(`Invalid --embedding: ${values.embedding} (expected one of ${EMBEDDING_KINDS.join(', ')})`);
+  }
+  if (!HORIZON_SIGNAL_MODES.includes(values['horizon-signal'] as HorizonSignalMode)) {
+    throw new UsageError(`Invalid --horizon-signal: ${values['horizon-signal']} (expected one of ${HORIZON_SIGNAL_MODES.join(', ')})`);
+  }
+  if (!SCORING_RULES.includes(values['scoring-rule'] as ScoringRule)) {
+    throw new UsageError(`Invalid --scoring-rule: ${values['scoring-rule']} (expected one of ${SCORING_RULES.join(', ')})`);
+  }
+  if (!REWARD_FUNCTION_KINDS.includes(values.reward as RewardFunctionKind)) {
+    throw new UsageError(`Invalid --reward: ${values.reward} (expected one of ${REWARD_FUNCTION_KINDS.join(', ')})`);
+  }
+  if (!DYNAMICS_MODES.includes(values.dynamics as DynamicsMode)) {
+    throw new UsageError(`Invalid --dynamics: ${values.dynamics} (expected one of ${DYNAMICS_MODES.join(', ')})`);
+  }
+  if (!PHASE_UPDATE_RULES.includes(values['phase-update'] as PhaseUpdateRule)) {
+    throw new UsageError(`Invalid --phase-update: ${values['phase-update']} (expected one of ${PHASE_UPDATE_RULES.join(', ')})`);
+  }
+  if (!CROSSOVER_OPERATORS.includes(values.crossover as CrossoverOperator)) {
+    throw new UsageError(`Invalid --crossover: ${values.crossover} (expected one of ${CROSSOVER_OPERATORS.join(', ')})`);
+  }
+  if (!PARENT_SELECTIONS.includes(values['parent-selection'] as ParentSelection)) {
+    throw new UsageError(`Invalid --parent-selection: ${values['parent-selection']} (expected one of ${PARENT_SELECTIONS.join(', ')})`);
+  }
+  if (!FITNESS_MODES.includes(values['fitness-mode'] as FitnessMode)) {
+    throw new UsageError(`Invalid --fitness-mode: ${values['fitness-mode']} (expected one of ${FITNESS_MODES.join(', ')})`);
+  }
+  if (!BEHAVIOR_DESCRIPTORS.includes(values.descriptor as BehaviorDescriptorKind)) {
+    throw new UsageError(`Invalid --descriptor: ${values.descriptor} (expected one of ${BEHAVIOR_DESCRIPTORS.join(', ')})`);
+  }
+  if (!SELECTION_STRATEGIES.includes(values.selection as SelectionStrategy)) {
+    throw new UsageError(`Invalid --selection: ${values.selection} (expected one of ${SELECTION_STRATEGIES.join(', ')})`);
+  }
+  const forecastHorizons = parseHorizons(values.horizons);
+  const minPopulation = parseNumber('min-observers', values['min-observers'], DEFAULT_SIMULATION_PARAMS.lifecycle.minPopulation, n => Number.isInteger(n) && n >= 3);
+  const maxPopulation = parseNumber('max-observers', values['max-observers'], DEFAULT_SIMULATION_PARAMS.lifecycle.maxPopulation, n => Number.isInteger(n) && n >= minPopulation);
+
+  const timeframe = parseTimeframe('timeframe', values.timeframe);
+  const baseTimeframe = values['base-timeframe'] ? parseTimeframe('base-timeframe', values['base-timeframe']) : null;
+  const params: SimulationParams = {
+    ...DEFAULT_SIMULATION_PARAMS,
+    dataProvider: 'local',
+    symbol: values.symbol.toUpperCase(),
+    timeframe,
+    baseTimeframe,
+    dataRepairPolicy: values.repair as DataRepairPolicy,
+    numObservers: parseNumber('observers', values.observers, DEFAULT_SIMULATION_PARAMS.numObservers, n => Number.isInteger(n) && n >= 3),
+    numGuilds: parseNumber('guilds', values.guilds, DEFAULT_SIMULATION_PARAMS.numGuilds, n => Number.isInteger(n) && n >= 1),
+    primeBasis: parsePrimeBasis(values.basis),
+    embedding: values.embedding as EmbeddingKind,
+    forecastHorizons,
+    eliteHorizon: parseNumber('elite-horizon', values['elite-horizon'], DEFAULT_SIMULATION_PARAMS.eliteHorizon, n => forecastHorizons.includes(n)),
+    horizonSignalMode: values['horizon-signal'] as HorizonSignalMode,
+    scoringRule: values['scoring-rule'] as ScoringRule,
+    rewardFunction: {
+      kind: values.reward as RewardFunctionKind,
+      scale: parseNumber('reward-scale', values['reward-scale'], DEFAULT_SIMULATION_PARAMS.rewardFunction.scale, n => n > 0),
+    },
+    dynamicsMode: values.dynamics as DynamicsMode,
+    phaseUpdateRule: values['phase-update'] as PhaseUpdateRule,
+    lifecycle: {
+      enabled: values.lifecycle,
+      fitnessThreshold: parseNumber('cull-threshold', values['cull-threshold'], DEFAULT_SIMULATION_PARAMS.lifecycle.fitnessThreshold, n => n >= 0 && n <= 1),
+      patience: parseNumber('cull-patience', values['cull-patience'], DEFAULT_SIMULATION_PARAMS.lifecycle.patience, n => Number.isInteger(n) && n >= 1),
+      minPopulation,
+      maxPopulation,
+    },
+    crossover: {
+      operator: values.crossover as CrossoverOperator,
+      probability: parseNumber('crossover-rate', values['crossover-rate'], DEFAULT_SIMULATION_PARAMS.crossover.probability, n => n >= 0 && n <= 1),
+      parentSelection: values['parent-selection'] as ParentSelection,
+      blendAlpha: parseNumber('blx-alpha', values['blx-alpha'], DEFAULT_SIMULATION_PARAMS.crossover.blendAlpha, n => n >= 0),
+      sbxEta: parseNumber('sbx-eta', values['sbx-eta'], DEFAULT_SIMULATION_PARAMS.crossover.sbxEta, n => n > 0),
+    },
+    fitnessMode: values['fitness-mode'] as FitnessMode,
+    qualityDiversity: {
+      enabled: values['quality-diversity'],
+      descriptor: values.descriptor as BehaviorDescriptorKind,
+      bins: parseNumber('archive-bins', values['archive-bins'], DEFAULT_SIMULATION_PARAMS.qualityDiversity.bins, n => Number.isInteger(n) && n >= 1),
+      seedRate: parseNumber('archive-seed-rate', values['archive-seed-rate'], DEFAULT_SIMULATION_PARAMS.qualityDiversity.seedRate, n => n >= 0 && n <= 1),
+    },
+    selection: {
+      strategy: values.selection as SelectionStrategy,
+      ensembleSize: parseNumber('ensemble-size', values['ensemble-size'], DEFAULT_SIMULATION_PARAMS.selection.ensembleSize, n => Number.isInteger(n) && n >= 1),
+      tournamentSize: parseNumber('tournament-size', values['tournament-size'], DEFAULT_SIMULATION_PARAMS.selection.tournamentSize, n => Number.isInteger(n) && n >= 1),
+      rankPressure: parseNumber('rank-pressure', values['rank-pressure'], DEFAULT_SIMULATION_PARAMS.selection.rankPressure, n => n >= 1 && n <= 2),
+      temperature: parseNumber('temperature', values.temperature, DEFAULT_SIMULATION_PARAMS.selection.temperature, n => n > 0),
+    },
+    entropyWeight: parseNumber('entropy-weight', values['entropy-weight'], DEFAULT_SIMULATION_PARAMS.entropyWeight, n => n >= 0 && n <= 1),
+    targetEpochs: parseNumber('epochs', values.epochs, DEFAULT_SIMULATION_PARAMS.targetEpochs, n => Number.isInteger(n) && n >= 1),
+    seed: parseNumber('seed', values.seed, DEFAULT_SIMULATION_PARAMS.seed, Number.isInteger),
+    learningRate: parseNumber('learning-rate', values['learning-rate'], DEFAULT_SIMULATION_PARAMS.learningRate, n => n > 0 && n <= 1),
+    mutationRate: parseNumber('mutation-rate', values['mutation-rate'], DEFAULT_SIMULATION_PARAMS.mutationRate, n => n >= 0 && n <= 1),
+  };
+
+  // Keep stdout clean for the report when it is piped
+  const toStdout = values.out === '-';
+  if (toStdout) console.log = console.error;
+
+  const fileCandles = await loadCandlesFromPath(values.data);
+  const candles = baseTimeframe ? resampleCandles(fileCandles, baseTimeframe, timeframe) : fileCandles;
+  console.error(`✅ Loaded ${fileCandles.length} candles from ${values.data}${baseTimeframe ? `, resampled to ${candles.length} ${timeframe} candles` : ''}`);
+
+  const report = runBacktest(candles, params, values.data);
+  const json = JSON.stringify(report, null, 2);
+
+  if (toStdout) {
+    process.stdout.write(`${json}\n`);
+  } else {
+    await writeFile(values.out, json);
+    console.error(`✅ Report written to ${values.out}`);
+  }
+
+  const { tradingStats } = report;
+  console.error(`✅ ${report.finishReason} after ${report.epochMetrics.length} epoch(s) in ${(report.durationMs / 1000).toFixed(1)}s: ${tradingStats.totalTrades} trades, win rate ${tradingStats.winRate.toFixed(1)}%, P&L $${tradingStats.totalPnL.toFixed(2)}`);
+};
+
+const [command, ...rest] = process.argv.slice(2);
+
+try {
+  if (command !== 'backtest') {
+    throw new UsageError(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+  await backtest(rest);
+} catch (error) {
+  if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`❌ ${(error as Error).message}\n${USAGE}`);
+    process.exit(2);
+  }
+  console.error(`❌ Backtest failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -0,0 +1,111 @@
+import type {
+  Candle,
+  SimulationParams,
+  SimulationFinishReason,
+  ModelCheckpoint,
+  BacktestReport,
+  BacktestTrade,
+} from '../types';
+import { checkMarketData, assertTimeframeMatches } from './dataQualityService';
+import { SimulationEngine } from './simulationEngine';
+import { getAllObservers } from './guildEcologyService';
+
+/**
+ * Headless Backtesting
+ * Runs the full ecology/trading/training pipeline on a fixed candle series and
+ * collects everything a sweep needs into one JSON-serializable report.
+ * Every run trains for params.targetEpochs epochs over the same series (at least one),
+ * so the report always carries epoch metrics and a final checkpoint.
+ */
+
+const REPORT_VERSION = '1.0';
+
+/**
+ * Run a backtest. Throws when the data is unusable or the run stops before finishing.
+ */
+export const runBacktest = (
+  candles: Candle[],
+  params: SimulationParams,
+  source: string = 'local'
+): BacktestReport => {
+  const startedAt = Date.now();
+  const runParams: SimulationParams = {
+    ...params,
+    trainingMode: true,
+    cycleTimeframes: false, // A single file holds a single timeframe
+    liveMode: false,
+    targetEpochs: Math.max(1, params.targetEpochs),
+  };
+
+  assertTimeframeMatches(candles, runParams.timeframe);
+  const quality = checkMarketData(candles, runParams.timeframe, runParams.dataRepairPolicy);
+  const engine = new SimulationEngine(runParams, { timelineCapacity: 0 }); // No rewinding headless
+
+  let finishReason: SimulationFinishReason | null = null;
+  let lastCheckpoint: ModelCheckpoint | null = null;
+  const epochTradeCounts: number[] = []; // Cumulative closed trades at the end of each epoch
+
+  engine.on('finished', reason => {
+    finishReason = reason;
+  });
+  engine.on('checkpoint', checkpoint => {
+    lastCheckpoint = checkpoint;
+  });
+  engine.on('epochEnd', () => {
+    epochTradeCounts.push(engine.getState().tradingStats.positionHistory.length);
+  });
+
+  engine.load(runParams, quality.candles);
+  engine.startTraining(runParams);
+  engine.runToEnd();
+
+  const state = engine.getState();
+  if (state.status !== 'finished' || !finishReason || state.guilds.length === 0) {
+    throw new Error(`Run stopped before finishing (status: ${state.status})`);
+  }
+
+  const { positionHistory, ...tradingStats } = state.tradingStats;
+  // Trading stats carry over between training epochs, so the history is cumulative
+  const trades: BacktestTrade[] = positionHistory.map((position, index) => {
+    const epoch = epochTradeCounts.findIndex(count => index < count);
+    return { ...position, epoch: epoch === -1 ? epochTradeCounts.length : epoch };
+  });
+
+  // Early stopping ends the run before the epoch's checkpoint is emitted
+  const checkpoint: ModelCheckpoint = finishReason === 'early-stop' || !lastCheckpoint
+    ? {
+        version: '1.0',
+        timestamp: Date.now(),
+        observers: getAllObservers(state.guilds),
+        trainingMetrics: state.trainingState.epochMetrics,
+        params: state.params,
+        totalEpochs: state.trainingState.epochsCompleted,
+        seed: state.params.seed,
+        archive: state.archive,
+      }
+    : lastCheckpoint;
+
+  const { candles: repairedCandles, ...qualityReport } = quality;
+
+  return {
+    version: REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    data: {
+      source,
+      symbol: runParams.symbol,
+      timeframe: runParams.timeframe,
+      candleCount: repairedCandles.length,
+      start: repairedCandles[0].time,
+      end: repairedCandles[repairedCandles.length - 1].time,
+      quality: qualityReport,
+    },
+    params: runParams,
+    seed: runParams.seed,
+    finishReason,
+    durationMs: Date.now() - startedAt,
+    tradingStats,
+    epochMetrics: state.trainingState.epochMetrics,
+    checkpoint,
+    trades,
+  };
+};
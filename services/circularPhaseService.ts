@@ -0,0 +1,87 @@
+import type { CircularPhaseVector, CircularResultant } from '../types';
+
+/**
+ * Circular Phase Statistics
+ * A residue r mod p is an angle θ = 2πr/p, so residues 0 and p−1 are neighbours rather than
+ * opposite ends of a line. Under the 'circular' phase update rule each modulus keeps an
+ * exponential average of unit vectors e^{iθ}; its angle is the collective phase (as a residue
+ * in [0, p), like the linear rule) and its length says how consistently the elites landed there.
+ * Resultant lengths are small even for random angles, so the ecology features are calibrated
+ * against that chance level (Rayleigh test): 1 − exp(−R²/E[R²]) is uniform on 0-1 for random
+ * phases and approaches 1 as they line up, the 0-1 range the regime and trading thresholds expect.
+ */
+
+const TAU = 2 * Math.PI;
+
+const EMPTY_RESULTANT: CircularResultant = { re: 0, im: 0, weightSq: 0 };
+
+export const createCircularPhaseVector = (basis: number[]): CircularPhaseVector =>
+  Object.fromEntries(basis.map(p => [p, EMPTY_RESULTANT]));
+
+/**
+ * Complex EMA step toward the unit vector of `residue` mod `modulus`
+ */
+export const updateCircularPhase = (
+  resultant: CircularResultant | undefined,
+  residue: number,
+  modulus: number,
+  rate: number
+): CircularResultant => {
+  const angle = (TAU * residue) / modulus;
+  const previous = resultant ?? EMPTY_RESULTANT;
+  return {
+    re: (1 - rate) * previous.re + rate * Math.cos(angle),
+    im: (1 - rate) * previous.im + rate * Math.sin(angle),
+    weightSq: (1 - rate) ** 2 * previous.weightSq + rate * rate,
+  };
+};
+
+/**
+ * Angle of a resultant expressed as a residue in [0, modulus); 0 while it has no direction
+ */
+export const phaseOf = (resultant: { re: number; im: number }, modulus: number): number => {
+  if (resultant.re === 0 && resultant.im === 0) return 0;
+  const angle = Math.atan2(resultant.im, resultant.re);
+  return (((angle + TAU) % TAU) / TAU) * modulus;
+};
+
+/**
+ * Mean resultant length R of unit vectors at `angles` (1 = identical, 0 = spread evenly)
+ */
+export const meanResultantLength = (angles: number[]): number => {
+  if (angles.length === 0) return 0;
+  const re = angles.reduce((sum, angle) => sum + Math.cos(angle), 0) / angles.length;
+  const im = angles.reduce((sum, angle) => sum + Math.sin(angle), 0) / angles.length;
+  return Math.hypot(re, im);
+};
+
+// ========== ECOLOGY FEATURES ==========
+
+/**
+ * Rayleigh-calibrated alignment: 1 − exp(−R² / E[R²]), where E[R²] is the squared resultant
+ * length expected from random angles (uniform on 0-1 for those, near 1 for aligned ones)
+ */
+export const alignmentBeyondChance = (length: number, chanceLengthSq: number): number =>
+  chanceLengthSq > 0 ? 1 - Math.exp(-(length * length) / chanceLengthSq) : 0;
+
+/**
+ * Trend strength from how far the collective phases across the basis line up on the circle
+ * beyond chance (n random angles give E[R²] = 1/n)
+ */
+export const calculateCircularTrendStrength = (circular: CircularPhaseVector): number => {
+  const angles = Object.keys(circular).map(Number)
+    .filter(p => circular[p].re !== 0 || circular[p].im !== 0)
+    .map(p => (TAU * phaseOf(circular[p], p)) / p);
+  if (angles.length === 0) return 0;
+  return alignmentBeyondChance(meanResultantLength(angles), 1 / angles.length);
+};
+
+/**
+ * Phase consensus: how consistently successive elites landed on each modulus's phase,
+ * beyond what the averaging of random residues would give, averaged over the basis
+ */
+export const calculateCircularPhaseConsensus = (circular: CircularPhaseVector): number => {
+  const resultants = Object.values(circular).filter(({ weightSq }) => weightSq > 0);
+  if (resultants.length === 0) return 0;
+  return resultants.reduce((sum, { re, im, weightSq }) => sum + alignmentBeyondChance(Math.hypot(re, im), weightSq), 0) / resultants.length;
+};
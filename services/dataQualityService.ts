@@ -0,0 +1,345 @@
+import type {
+  Candle,
+  Timeframe,
+  DataRepairPolicy,
+  DataQualityIssue,
+  DataQualityIssueType,
+  DataQualityReport,
+  DataRepairSummary,
+  DataQualityResult,
+} from '../types';
+import { TIMEFRAME_MS } from '../constants';
+import { mergeCandles } from './marketDataService';
+
+/**
+ * Market Data Quality
+ * Validates candle series before they reach the reward and volatility math, and
+ * repairs them with a configurable policy:
+ * - drop: remove bad candles and leave gaps as they are
+ * - forward-fill: replace bad candles and fill gaps with flat candles at the last close
+ * - interpolate: replace bad candles and fill gaps by linear interpolation between neighbours
+ * Duplicates, ordering and inconsistent wicks are fixed under every policy except 'none'.
+ */
+
+export interface DataQualityOptions {
+  outlierThreshold?: number; // Robust z-score above which a close-to-close return is an outlier
+  maxGapFill?: number; // Gaps longer than this many candles are reported but never filled
+}
+
+const DEFAULT_OUTLIER_THRESHOLD = 10;
+const DEFAULT_MAX_GAP_FILL = 500;
+const MAX_REPORTED_ISSUES = 200;
+const MAD_TO_STD = 1.4826; // Scales median absolute deviation to a normal standard deviation
+
+const ISSUE_TYPES: DataQualityIssueType[] = [
+  'gap',
+  'duplicate',
+  'non-monotonic',
+  'invalid-price',
+  'ohlc-inconsistency',
+  'outlier-return',
+];
+
+// ========== VALIDATION ==========
+
+const isValidPrice = (price: number): boolean => Number.isFinite(price) && price > 0;
+
+const hasValidPrices = (candle: Candle): boolean =>
+  isValidPrice(candle.open) && isValidPrice(candle.high) && isValidPrice(candle.low) && isValidPrice(candle.close);
+
+const hasConsistentWicks = (candle: Candle): boolean =>
+  candle.high >= Math.max(candle.open, candle.close, candle.low) &&
+  candle.low <= Math.min(candle.open, candle.close);
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Indices (into `candles`) of closes whose incoming log return is an outlier.
+ * Uses a median/MAD z-score so a few extreme moves cannot mask each other.
+ */
+const findOutlierReturns = (candles: Candle[], threshold: number): Array<{ index: number; zScore: number; logReturn: number }> => {
+  const returns: Array<{ index: number; logReturn: number }> = [];
+  let previous: Candle | null = null;
+  candles.forEach((candle, index) => {
+    if (!hasValidPrices(candle)) return;
+    if (previous) returns.push({ index, logReturn: Math.log(candle.close / previous.close) });
+    previous = candle;
+  });
+
+  const center = median(returns.map(r => r.logReturn));
+  const scale = MAD_TO_STD * median(returns.map(r => Math.abs(r.logReturn - center)));
+  if (scale === 0) return []; // Flat series: no meaningful spread to compare against
+
+  return returns
+    .map(r => ({ ...r, zScore: Math.abs(r.logReturn - center) / scale }))
+    .filter(r => r.zScore > threshold);
+};
+
+// Median gap between consecutive distinct candle times; null with fewer than two
+const medianGap = (candles: Candle[]): number | null => {
+  const times = candles.map(c => c.time).sort((a, b) => a - b);
+  const gaps = times.slice(1).map((time, i) => time - times[i]).filter(gap => gap > 0);
+  return gaps.length > 0 ? median(gaps) : null;
+};
+
+/**
+ * Interval a series actually has: the timeframe matching its median candle gap, or null
+ * when no timeframe matches or there are too few candles to tell
+ */
+export const inferTimeframe = (candles: Candle[]): Timeframe | null => {
+  const gap = medianGap(candles);
+  return (Object.keys(TIMEFRAME_MS) as Timeframe[]).find(tf => TIMEFRAME_MS[tf] === gap) ?? null;
+};
+
+/**
+ * Refuse a series whose own interval differs from `timeframe`: repairing it against the wrong
+ * interval would fill flat candles between every real pair (or flag every candle as a duplicate)
+ */
+export const assertTimeframeMatches = (candles: Candle[], timeframe: Timeframe): void => {
+  const gap = medianGap(candles);
+  if (gap === null || gap === TIMEFRAME_MS[timeframe]) return;
+  const inferred = inferTimeframe(candles);
+  const found = inferred ? `${inferred} candles` : `candles ${Math.round(gap / 60_000)} minutes apart`;
+  throw new Error(`The data holds ${found} but the ${timeframe} timeframe is selected. Select the data's timeframe, or resample it from a finer base timeframe.`);
+};
+
+/**
+ * Check a candle series for gaps, duplicates, ordering problems, invalid prices,
+ * inconsistent OHLC values and outlier returns
+ */
+export const validateCandles = (
+  candles: Candle[],
+  timeframe: Timeframe,
+  options: DataQualityOptions = {}
+): DataQualityReport => {
+  const intervalMs = TIMEFRAME_MS[timeframe];
+  const outlierThreshold = options.outlierThreshold ?? DEFAULT_OUTLIER_THRESHOLD;
+
+  const counts = Object.fromEntries(ISSUE_TYPES.map(type => [type, 0])) as Record<DataQualityIssueType, number>;
+  const issues: DataQualityIssue[] = [];
+  let missingCandles = 0;
+
+  const addIssue = (type: DataQualityIssueType, index: number, detail: string) => {
+    counts[type]++;
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      issues.push({ type, index, time: candles[index].time, detail });
+    }
+  };
+
+  const seenTimes = new Set<number>();
+  candles.forEach((candle, index) => {
+    if (seenTimes.has(candle.time)) {
+      addIssue('duplicate', index, 'Open time already present in the series');
+    }
+    seenTimes.add(candle.time);
+
+    if (index > 0 && candle.time < candles[index - 1].time) {
+      addIssue('non-monotonic', index, `Open time is ${((candles[index - 1].time - candle.time) / intervalMs).toFixed(1)} candles before the previous one`);
+    }
+
+    if (!hasValidPrices(candle)) {
+      addIssue('invalid-price', index, `Zero, negative or non-numeric price (O ${candle.open} H ${candle.high} L ${candle.low} C ${candle.close})`);
+    } else if (!hasConsistentWicks(candle)) {
+      addIssue('ohlc-inconsistency', index, `High/low do not contain open and close (O ${candle.open} H ${candle.high} L ${candle.low} C ${candle.close})`);
+    }
+  });
+
+  // Gaps are measured on the ordered, de-duplicated series so ordering problems are not double counted
+  const ordered = mergeCandles(candles);
+  const indexByTime = new Map(candles.map((candle, index) => [candle.time, index]));
+  for (let i = 1; i < ordered.length; i++) {
+    const missing = Math.round((ordered[i].time - ordered[i - 1].time) / intervalMs) - 1;
+    if (missing > 0) {
+      missingCandles += missing;
+      addIssue('gap', indexByTime.get(ordered[i].time) ?? i, `${missing} missing ${timeframe} candle${missing === 1 ? '' : 's'} before this one`);
+    }
+  }
+
+  for (const outlier of findOutlierReturns(ordered, outlierThreshold)) {
+    const index = indexByTime.get(ordered[outlier.index].time) ?? outlier.index;
+    addIssue('outlier-return', index, `${(outlier.logReturn * 100).toFixed(2)}% return (robust z ${outlier.zScore.toFixed(1)})`);
+  }
+
+  return {
+    candleCount: candles.length,
+    counts,
+    missingCandles,
+    issues: issues.sort((a, b) => a.time - b.time),
+  };
+};
+
+/**
+ * Total number of issues in a report
+ */
+export const countIssues = (report: DataQualityReport): number =>
+  ISSUE_TYPES.reduce((sum, type) => sum + report.counts[type], 0);
+
+// ========== REPAIR ==========
+
+const flatCandle = (time: number, price: number): Candle => ({
+  time,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: 0,
+});
+
+/**
+ * Candle spanning [time, time + intervalMs) on the straight line from (fromTime, fromPrice) to (toTime, toPrice)
+ */
+const interpolatedCandle = (
+  time: number,
+  intervalMs: number,
+  fromTime: number,
+  fromPrice: number,
+  toTime: number,
+  toPrice: number
+): Candle => {
+  const priceAt = (t: number) => fromPrice + (toPrice - fromPrice) * Math.min(1, (t - fromTime) / (toTime - fromTime));
+  const open = priceAt(time);
+  const close = priceAt(time + intervalMs);
+  return {
+    time,
+    open,
+    high: Math.max(open, close),
+    low: Math.min(open, close),
+    close,
+    volume: 0,
+  };
+};
+
+/**
+ * A spike is a single candle that jumps away and straight back:
+ * outlier returns into and out of it with opposite signs
+ */
+const findSpikes = (candles: Candle[], threshold: number): Set<number> => {
+  const outliers = new Map(findOutlierReturns(candles, threshold).map(o => [o.index, o.logReturn]));
+  const spikes = new Set<number>();
+  outliers.forEach((logReturn, index) => {
+    const next = outliers.get(index + 1);
+    if (next !== undefined && Math.sign(next) !== Math.sign(logReturn)) {
+      spikes.add(index);
+    }
+  });
+  return spikes;
+};
+
+/**
+ * Repair a candle series according to `policy`.
+ * Genuine outlier moves are kept; only invalid candles and one-candle spikes are treated as bad data.
+ */
+export const repairCandles = (
+  candles: Candle[],
+  timeframe: Timeframe,
+  policy: DataRepairPolicy,
+  options: DataQualityOptions = {}
+): { candles: Candle[]; summary: DataRepairSummary } => {
+  const intervalMs = TIMEFRAME_MS[timeframe];
+  const maxGapFill = options.maxGapFill ?? DEFAULT_MAX_GAP_FILL;
+  const summary: DataRepairSummary = {
+    policy,
+    duplicatesRemoved: 0,
+    reordered: false,
+    wicksFixed: 0,
+    candlesDropped: 0,
+    candlesReplaced: 0,
+    candlesInserted: 0,
+  };
+
+  if (policy === 'none') return { candles, summary };
+
+  // 1. Order by time and de-duplicate (the last copy of a candle wins, as in mergeCandles)
+  const ordered = mergeCandles(candles);
+  summary.duplicatesRemoved = candles.length - ordered.length;
+  summary.reordered = candles.some((candle, i) => i > 0 && candle.time < candles[i - 1].time);
+
+  // 2. Drop or replace invalid candles and spikes
+  const spikes = findSpikes(ordered, options.outlierThreshold ?? DEFAULT_OUTLIER_THRESHOLD);
+  const isBad = (candle: Candle, index: number) => !hasValidPrices(candle) || spikes.has(index);
+
+  const cleaned: Candle[] = [];
+  ordered.forEach((candle, index) => {
+    if (!isBad(candle, index)) {
+      cleaned.push(candle);
+      return;
+    }
+
+    const previous = cleaned[cleaned.length - 1];
+    // Nothing to fill from before the first good candle, so leading bad candles are always dropped
+    if (policy === 'drop' || !previous) {
+      summary.candlesDropped++;
+      return;
+    }
+
+    if (policy === 'forward-fill') {
+      cleaned.push({ ...flatCandle(candle.time, previous.close), volume: Number.isFinite(candle.volume) ? candle.volume : 0 });
+    } else {
+      const next = ordered.slice(index + 1).find((c, offset) => !isBad(c, index + 1 + offset));
+      cleaned.push(next
+        ? interpolatedCandle(candle.time, intervalMs, previous.time + intervalMs, previous.close, next.time, next.open)
+        : flatCandle(candle.time, previous.close));
+    }
+    summary.candlesReplaced++;
+  });
+
+  // 3. Widen wicks that do not contain open and close
+  const consistent = cleaned.map(candle => {
+    if (hasConsistentWicks(candle)) return candle;
+    summary.wicksFixed++;
+    return {
+      ...candle,
+      high: Math.max(candle.open, candle.high, candle.low, candle.close),
+      low: Math.min(candle.open, candle.high, candle.low, candle.close),
+    };
+  });
+
+  // 4. Fill missing intervals
+  if (policy === 'drop') return { candles: consistent, summary };
+
+  const filled: Candle[] = [];
+  consistent.forEach((candle, index) => {
+    const previous = consistent[index - 1];
+    if (previous) {
+      const missing = Math.round((candle.time - previous.time) / intervalMs) - 1;
+      if (missing > 0 && missing <= maxGapFill) {
+        for (let k = 1; k <= missing; k++) {
+          const time = previous.time + k * intervalMs;
+          filled.push(policy === 'forward-fill'
+            ? flatCandle(time, previous.close)
+            : interpolatedCandle(time, intervalMs, previous.time + intervalMs, previous.close, candle.time, candle.open));
+        }
+        summary.candlesInserted += missing;
+      }
+    }
+    filled.push(candle);
+  });
+
+  return { candles: filled, summary };
+};
+
+/**
+ * Validate, repair and re-validate a series in one go, as done before every run
+ */
+export const checkMarketData = (
+  candles: Candle[],
+  timeframe: Timeframe,
+  policy: DataRepairPolicy,
+  options: DataQualityOptions = {}
+): DataQualityResult => {
+  const before = validateCandles(candles, timeframe, options);
+  if (policy === 'none' || countIssues(before) === 0) {
+    return { candles, before, after: before, repairs: null };
+  }
+
+  const { candles: repaired, summary } = repairCandles(candles, timeframe, policy, options);
+  const after = validateCandles(repaired, timeframe, options);
+
+  console.log(`✅ Data quality: ${countIssues(before)} issues found, ${countIssues(after)} remaining after ${policy}`);
+  return { candles: repaired, before, after, repairs: summary };
+};
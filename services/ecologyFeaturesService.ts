@@ -1,10 +1,13 @@
-import type { EcologyFeatures, MarketRegime } from '../types';
-import { PRIMES } from '../constants';
+import type { EcologyFeatures, MarketRegime, CircularPhaseVector } from '../types';
+import { calculateCircularTrendStrength, calculateCircularPhaseConsensus } from './circularPhaseService';
 
 /**
  * Extract trading features from the observer ecology's collective phase vector
  */
 
+// The phase vector holds one entry per basis modulus, whatever basis the run uses
+const getBasis = (phaseVector: { [prime: number]: number }): number[] => Object.keys(phaseVector).map(Number);
+
 /**
  * Calculate volatility estimate from phase vector variance
  */
@@ -35,7 +38,9 @@ export const calculateTrendStrength = (
   phaseVector: { [prime: number]: number }
 ): number => {
   // Calculate how aligned the phases are
-  const phases = PRIMES.map(p => phaseVector[p] || 0);
+  const basis = getBasis(phaseVector);
+  if (basis.length === 0) return 0;
+  const phases = basis.map(p => phaseVector[p] || 0);
   const mean = phases.reduce((sum, p) => sum + p, 0) / phases.length;
   
   // Calculate standard deviation - low std = aligned = strong trend
@@ -43,7 +48,7 @@ export const calculateTrendStrength = (
   const stdDev = Math.sqrt(variance);
   
   // Normalize to 0-1, where 1 = strong trend (low variance)
-  const maxStdDev = Math.sqrt(PRIMES.reduce((sum, p) => sum + p * p, 0) / PRIMES.length);
+  const maxStdDev = Math.sqrt(basis.reduce((sum, p) => sum + p * p, 0) / basis.length);
   const alignment = 1 - (stdDev / maxStdDev);
   
   return Math.max(0, Math.min(1, alignment));
@@ -56,7 +61,8 @@ export const calculatePhaseConsensus = (
   phaseVector: { [prime: number]: number }
 ): number => {
   // Calculate entropy of phase distribution
-  const phases = PRIMES.map(p => phaseVector[p] || 0);
+  const basis = getBasis(phaseVector);
+  const phases = basis.map(p => phaseVector[p] || 0);
   const total = phases.reduce((sum, p) => sum + Math.abs(p), 0);
   
   if (total === 0) return 0;
@@ -70,8 +76,9 @@ export const calculatePhaseConsensus = (
     return sum + p * Math.log2(p);
   }, 0);
   
-  // Normalize entropy to 0-1 (max entropy is log2(num_primes))
-  const maxEntropy = Math.log2(PRIMES.length);
+  // Normalize entropy to 0-1 (max entropy is log2(basis size))
+  const maxEntropy = Math.log2(basis.length);
+  if (maxEntropy === 0) return 1; // A single modulus always agrees with itself
   const consensus = 1 - (entropy / maxEntropy);
   
   return Math.max(0, Math.min(1, consensus));
@@ -99,22 +106,111 @@ export const detectMarketRegime = (
 };
 
 /**
- * Extract all ecology features from the current state
+ * Calculate relative volume - latest volume versus the average of the preceding window
+ */
+export const calculateRelativeVolume = (recentVolumes: number[]): number => {
+  if (recentVolumes.length < 2) return 1; // Neutral without history
+  
+  const previous = recentVolumes.slice(0, -1);
+  const avgVolume = previous.reduce((sum, v) => sum + v, 0) / previous.length;
+  if (avgVolume <= 0) return 1;
+  
+  const relativeVolume = recentVolumes[recentVolumes.length - 1] / avgVolume;
+  return Math.max(0, Math.min(5, relativeVolume)); // Clamp extreme spikes
+};
+
+/**
+ * Calculate on-balance volume slope
+ * Fits a line through the OBV series and normalizes by average volume,
+ * so +1 means every candle closed up on average volume (accumulation)
+ */
+export const calculateObvSlope = (
+  recentPrices: number[],
+  recentVolumes: number[]
+): number => {
+  const length = Math.min(recentPrices.length, recentVolumes.length);
+  if (length < 3) return 0;
+  
+  const prices = recentPrices.slice(-length);
+  const volumes = recentVolumes.slice(-length);
+  const avgVolume = volumes.reduce((sum, v) => sum + v, 0) / length;
+  if (avgVolume <= 0) return 0;
+  
+  // Build OBV series
+  const obv = [0];
+  for (let i = 1; i < length; i++) {
+    const direction = Math.sign(prices[i] - prices[i - 1]);
+    obv.push(obv[i - 1] + direction * volumes[i]);
+  }
+  
+  // Least-squares slope of OBV against time
+  const meanX = (length - 1) / 2;
+  const meanY = obv.reduce((sum, v) => sum + v, 0) / length;
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < length; i++) {
+    covariance += (i - meanX) * (obv[i] - meanY);
+    varianceX += Math.pow(i - meanX, 2);
+  }
+  const slope = covariance / varianceX;
+  
+  return Math.max(-1, Math.min(1, slope / avgVolume));
+};
+
+/**
+ * Calculate volume-weighted volatility
+ * Moves on heavy volume count more than moves on thin volume
+ */
+export const calculateVolumeWeightedVolatility = (
+  recentPrices: number[],
+  recentVolumes: number[]
+): number => {
+  const length = Math.min(recentPrices.length, recentVolumes.length);
+  if (length < 2) return 0.02; // Default 2%
+  
+  const prices = recentPrices.slice(-length);
+  const volumes = recentVolumes.slice(-length);
+  
+  let weightedSquares = 0;
+  let totalVolume = 0;
+  for (let i = 1; i < length; i++) {
+    const r = (prices[i] - prices[i - 1]) / prices[i - 1];
+    weightedSquares += volumes[i] * r * r;
+    totalVolume += volumes[i];
+  }
+  
+  // Fall back to unweighted volatility when the source has no volume
+  if (totalVolume <= 0) {
+    return calculateVolatility({}, prices);
+  }
+  
+  const volatility = Math.sqrt(weightedSquares / totalVolume);
+  return Math.max(0.01, Math.min(0.10, volatility)); // Same clamp as calculateVolatility
+};
+
+/**
+ * Extract all ecology features from the current state; with `circularPhase` the trend
+ * strength and consensus use circular statistics instead of treating phases as numbers
  */
 export const extractEcologyFeatures = (
   predictedPrice: number,
   currentPrice: number,
   eliteReward: number,
   phaseVector: { [prime: number]: number },
-  recentPrices: number[]
+  recentPrices: number[],
+  recentVolumes: number[] = [],
+  circularPhase: CircularPhaseVector | null = null
 ): EcologyFeatures => {
   const direction: 'UP' | 'DOWN' = predictedPrice > currentPrice ? 'UP' : 'DOWN';
   const confidence = eliteReward; // Elite observer's reward is confidence
   
   const volatilityEstimate = calculateVolatility(phaseVector, recentPrices);
-  const trendStrength = calculateTrendStrength(phaseVector);
-  const phaseConsensus = calculatePhaseConsensus(phaseVector);
+  const trendStrength = circularPhase ? calculateCircularTrendStrength(circularPhase) : calculateTrendStrength(phaseVector);
+  const phaseConsensus = circularPhase ? calculateCircularPhaseConsensus(circularPhase) : calculatePhaseConsensus(phaseVector);
   const marketRegime = detectMarketRegime(trendStrength, volatilityEstimate);
+  const relativeVolume = calculateRelativeVolume(recentVolumes);
+  const obvSlope = calculateObvSlope(recentPrices, recentVolumes);
+  const volumeWeightedVolatility = calculateVolumeWeightedVolatility(recentPrices, recentVolumes);
   
   return {
     pricePrediction: predictedPrice,
@@ -124,5 +220,8 @@ export const extractEcologyFeatures = (
     trendStrength,
     marketRegime,
     phaseConsensus,
+    relativeVolume,
+    obvSlope,
+    volumeWeightedVolatility,
   };
 };
\ No newline at end of file
@@ -0,0 +1,181 @@
+import type { Observer, EmbeddingKind, EntropyMetrics, PhaseReturnTable } from '../types';
+import { embeddingResidue } from './primeBasisService';
+
+/**
+ * Ecology Entropy
+ * Measures from "Observer Ecologies as Entropy-Minimizing Integer Programs":
+ * - Prediction entropy: Shannon entropy (bits) of the population's predictions, binned by return
+ * - Residue entropy: entropy of each modulus's residues across observers, normalized to 0-1
+ *   and averaged over the basis
+ * - Phase-return information: mutual information (bits) between the binned collective phase
+ *   and the direction of the following candle, from exponentially decayed counts
+ * The 'entropy-minimizing' dynamics mode also steers the phase vector and elite selection
+ * toward low-entropy (consensus) states.
+ */
+
+const PREDICTION_BIN_WIDTH = 0.0025; // Predictions are binned by 0.25% return steps
+const PHASE_BINS = 8; // Phase bins per modulus (fewer for smaller moduli)
+const PHASE_RETURN_DECAY = 0.98; // Weight of older phase/return pairs (~50-step memory)
+
+// ========== ENTROPY ==========
+
+/**
+ * Shannon entropy in bits of a histogram
+ */
+export const shannonEntropy = (counts: number[]): number => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total <= 0) return 0;
+  return counts.reduce((sum, count) => (count > 0 ? sum - (count / total) * Math.log2(count / total) : sum), 0);
+};
+
+const countBy = (keys: number[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  return counts;
+};
+
+const predictionBin = (n: number, referencePrice: number): number =>
+  Math.floor((n / referencePrice - 1) / PREDICTION_BIN_WIDTH);
+
+/**
+ * Entropy (bits) of the population's predictions in 0.25% return bins
+ */
+export const predictionEntropy = (observers: Observer[], referencePrice: number): number =>
+  shannonEntropy([...countBy(observers.map(obs => predictionBin(obs.n, referencePrice))).values()]);
+
+/**
+ * Entropy of each modulus's residues across observers, normalized by its maximum
+ * (log₂ of the number of reachable residues) and averaged over the basis
+ */
+export const residueEntropy = (
+  observers: Observer[],
+  basis: number[],
+  embedding: EmbeddingKind,
+  referencePrice: number
+): number => {
+  if (observers.length < 2 || basis.length === 0) return 0;
+  const normalized = basis.map((p, index) => {
+    const residues = observers.map(obs => embeddingResidue(embedding, obs.n, referencePrice, p, index));
+    const maxEntropy = Math.log2(Math.min(p, observers.length));
+    return maxEntropy > 0 ? shannonEntropy([...countBy(residues).values()]) / maxEntropy : 0;
+  });
+  return normalized.reduce((sum, h) => sum + h, 0) / normalized.length;
+};
+
+// ========== PHASE-RETURN INFORMATION ==========
+
+const phaseBins = (p: number): number => Math.min(p, PHASE_BINS);
+
+const phaseBin = (phase: number, p: number): number => {
+  const bins = phaseBins(p);
+  return Math.min(bins - 1, Math.max(0, Math.floor((phase / p) * bins)));
+};
+
+/**
+ * Decay the table and count the phase vector held before a candle against that candle's direction
+ */
+export const updatePhaseReturnTable = (
+  table: PhaseReturnTable,
+  phaseVector: Record<number, number>,
+  basis: number[],
+  up: boolean
+): PhaseReturnTable =>
+  Object.fromEntries(basis.map(p => {
+    const counts = (table[p] ?? Array.from({ length: phaseBins(p) }, () => [0, 0] as [number, number]))
+      .map(([down, upCount]) => [down * PHASE_RETURN_DECAY, upCount * PHASE_RETURN_DECAY] as [number, number]);
+    const bin = phaseBin(phaseVector[p] ?? 0, p);
+    counts[bin] = up ? [counts[bin][0], counts[bin][1] + 1] : [counts[bin][0] + 1, counts[bin][1]];
+    return [p, counts];
+  }));
+
+/**
+ * Mutual information (bits) between one modulus's phase bin and the next candle's direction
+ */
+const mutualInformation = (counts: Array<[number, number]>): number => {
+  const total = counts.reduce((sum, [down, up]) => sum + down + up, 0);
+  if (total <= 0) return 0;
+  const totalDown = counts.reduce((sum, [down]) => sum + down, 0);
+  const marginals = [totalDown / total, (total - totalDown) / total];
+
+  return counts.reduce((sum, row) => {
+    const pBin = (row[0] + row[1]) / total;
+    return sum + row.reduce((inner, count, direction) => {
+      const joint = count / total;
+      return joint > 0 ? inner + joint * Math.log2(joint / (pBin * marginals[direction])) : inner;
+    }, 0);
+  }, 0);
+};
+
+/**
+ * Mean phase-return mutual information over the basis
+ */
+export const phaseReturnInformation = (table: PhaseReturnTable, basis: number[]): number => {
+  const values = basis.filter(p => table[p]).map(p => mutualInformation(table[p]));
+  return values.length > 0 ? values.reduce((sum, mi) => sum + mi, 0) / values.length : 0;
+};
+
+export const calculateEntropyMetrics = (
+  observers: Observer[],
+  basis: number[],
+  embedding: EmbeddingKind,
+  referencePrice: number,
+  table: PhaseReturnTable
+): EntropyMetrics => ({
+  predictionEntropy: predictionEntropy(observers, referencePrice),
+  residueEntropy: residueEntropy(observers, basis, embedding, referencePrice),
+  phaseReturnInformation: phaseReturnInformation(table, basis),
+});
+
+// ========== ENTROPY-MINIMIZING DYNAMICS ==========
+
+/**
+ * Residue class of `modulus` holding the most reward across the population: the
+ * minimum-surprisal point of its residue distribution, weighted toward accurate observers
+ */
+export const modalResidue = (
+  observers: Observer[],
+  embedding: EmbeddingKind,
+  referencePrice: number,
+  modulus: number,
+  index: number
+): number => {
+  const mass = new Map<number, number>();
+  observers.forEach(obs => {
+    const residue = embeddingResidue(embedding, obs.n, referencePrice, modulus, index);
+    // The small floor keeps a mode when every reward is ~0 (distributional rewards can go negative)
+    mass.set(residue, (mass.get(residue) ?? 0) + Math.max(0, obs.reward) + 1e-6);
+  });
+  let best = 0;
+  let bestMass = -1;
+  mass.forEach((value, residue) => {
+    if (value > bestMass || (value === bestMass && residue < best)) {
+      best = residue;
+      bestMass = value;
+    }
+  });
+  return best;
+};
+
+/**
+ * Re-rank fitness-ranked candidates with a bonus for predicting where the population is
+ * dense, so the elites (and the observers evolving toward them) lower prediction entropy.
+ * `weight` blends fitness (0) with density (1).
+ */
+export const rankByEntropyRegularizedFitness = (
+  candidates: Observer[],
+  observers: Observer[],
+  referencePrice: number,
+  weight: number,
+  topN: number
+): Observer[] => {
+  const counts = countBy(observers.map(obs => predictionBin(obs.n, referencePrice)));
+  const modeCount = Math.max(...counts.values());
+
+  return candidates
+    .map(obs => {
+      const density = (counts.get(predictionBin(obs.n, referencePrice)) ?? 0) / modeCount;
+      return { ...obs, fitness: (1 - weight) * (obs.fitness ?? 0) + weight * density };
+    })
+    .sort((a, b) => b.fitness - a.fitness)
+    .slice(0, topN);
+};
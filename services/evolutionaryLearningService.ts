@@ -1,4 +1,5 @@
-import type { Observer, TradingExperience } from '../types';
+import type { Observer, TradingExperience, CrossoverConfig, CrossoverOperator, ParentSelection } from '../types';
+import type { Random } from './randomService';
 
 /**
  * Evolutionary Strategy with Memory
@@ -114,6 +115,9 @@ export const evolveObserver = (
     
     holdingBias: observer.strategyGenes.holdingBias + 
       (elite.strategyGenes.holdingBias - observer.strategyGenes.holdingBias) * evolutionStrength,
+    
+    volumeSensitivity: observer.strategyGenes.volumeSensitivity + 
+      (elite.strategyGenes.volumeSensitivity - observer.strategyGenes.volumeSensitivity) * evolutionStrength,
   };
   
   return {
@@ -130,36 +134,43 @@ export const evolveObserver = (
 export const mutateStrategyGenes = (
   observer: Observer,
   mutationRate: number,
-  mutationStrength: number = 0.1
+  mutationStrength: number = 0.1,
+  random: Random = Math.random
 ): Observer => {
-  if (Math.random() > mutationRate) {
+  if (random() > mutationRate) {
     return observer;
   }
   
   const mutatedGenes = { ...observer.strategyGenes };
   
   // Randomly mutate one or more genes
-  if (Math.random() < 0.5) {
+  if (random() < 0.5) {
     mutatedGenes.riskTolerance = Math.max(0, Math.min(1,
-      mutatedGenes.riskTolerance + (Math.random() - 0.5) * mutationStrength
+      mutatedGenes.riskTolerance + (random() - 0.5) * mutationStrength
     ));
   }
   
-  if (Math.random() < 0.5) {
+  if (random() < 0.5) {
     mutatedGenes.trendFollowing = Math.max(0, Math.min(1,
-      mutatedGenes.trendFollowing + (Math.random() - 0.5) * mutationStrength
+      mutatedGenes.trendFollowing + (random() - 0.5) * mutationStrength
     ));
   }
   
-  if (Math.random() < 0.5) {
+  if (random() < 0.5) {
     mutatedGenes.volatilityPreference = Math.max(0, Math.min(1,
-      mutatedGenes.volatilityPreference + (Math.random() - 0.5) * mutationStrength
+      mutatedGenes.volatilityPreference + (random() - 0.5) * mutationStrength
     ));
   }
   
-  if (Math.random() < 0.5) {
+  if (random() < 0.5) {
     mutatedGenes.holdingBias = Math.max(-1, Math.min(1,
-      mutatedGenes.holdingBias + (Math.random() - 0.5) * mutationStrength * 2
+      mutatedGenes.holdingBias + (random() - 0.5) * mutationStrength * 2
+    ));
+  }
+  
+  if (random() < 0.5) {
+    mutatedGenes.volumeSensitivity = Math.max(0, Math.min(1,
+      mutatedGenes.volumeSensitivity + (random() - 0.5) * mutationStrength
     ));
   }
   
@@ -180,6 +191,8 @@ export const generateLearnedAction = (
     volatility: number;
     trend: number;
     regime: string;
+    relativeVolume?: number; // Latest volume vs recent average (1 = normal)
+    obvSlope?: number; // -1 (distribution) to 1 (accumulation)
   }
 ): { action: 'BUY' | 'SELL' | 'HOLD'; size: number } => {
   const { strategyGenes, n: predictedPrice } = observer;
@@ -190,8 +203,11 @@ export const generateLearnedAction = (
   // Adjust signal based on trend following gene
   const trendAdjustment = marketState.trend * strategyGenes.trendFollowing;
   
+  // Volume confirmation: accumulation nudges toward buying, distribution toward selling
+  const volumeAdjustment = (marketState.obvSlope ?? 0) * strategyGenes.volumeSensitivity * 0.01;
+  
   // Adjust for holding bias
-  const adjustedSignal = priceDiff + trendAdjustment + strategyGenes.holdingBias * 0.01;
+  const adjustedSignal = priceDiff + trendAdjustment + volumeAdjustment + strategyGenes.holdingBias * 0.01;
   
   // Determine action based on adjusted signal
   let action: 'BUY' | 'SELL' | 'HOLD' = 'HOLD';
@@ -218,6 +234,12 @@ export const generateLearnedAction = (
     size *= (0.8 + strategyGenes.trendFollowing * 0.4);
   }
   
+  // Scale conviction by relative volume if observer is volume-sensitive (0.5x to 1.5x)
+  if (marketState.relativeVolume !== undefined) {
+    const volumeConviction = Math.max(0.5, Math.min(1.5, marketState.relativeVolume));
+    size *= 1 + (volumeConviction - 1) * strategyGenes.volumeSensitivity;
+  }
+  
   // Scale by signal strength
   size *= Math.min(1, Math.abs(adjustedSignal) * 10);
   
@@ -227,22 +249,6 @@ export const generateLearnedAction = (
   return { action, size };
 };
 
-/**
- * Select elite based on fitness (combines prediction + trading performance)
- */
-export const selectEliteByFitness = (observers: Observer[]): Observer => {
-  // Calculate fitness for all observers
-  const observersWithFitness = observers.map(obs => ({
-    ...obs,
-    fitness: calculateFitness(obs),
-  }));
-  
-  // Return observer with highest fitness
-  return observersWithFitness.reduce((best, current) =>
-    current.fitness > best.fitness ? current : best
-  );
-};
-
 /**
  * Select top N elite observers as an ensemble
  * Provides more robust learning by avoiding over-reliance on single observer
@@ -266,7 +272,8 @@ export const selectEliteEnsemble = (observers: Observer[], topN: number = 3): Ob
  */
 export const sampleExperiences = (
   observer: Observer,
-  sampleSize: number = 10
+  sampleSize: number = 10,
+  random: Random = Math.random
 ): TradingExperience[] => {
   if (observer.experienceBuffer.length === 0) return [];
   
@@ -276,7 +283,7 @@ export const sampleExperiences = (
   
   // Random sampling without replacement
   while (indices.size < actualSampleSize) {
-    const randomIndex = Math.floor(Math.random() * observer.experienceBuffer.length);
+    const randomIndex = Math.floor(random() * observer.experienceBuffer.length);
     if (!indices.has(randomIndex)) {
       indices.add(randomIndex);
       sampled.push(observer.experienceBuffer[randomIndex]);
@@ -361,4 +368,146 @@ export const calculateAdaptiveMutationRate = (
   mutationMultiplier = Math.max(0.3, Math.min(3.0, mutationMultiplier));
   
   return baseMutationRate * mutationMultiplier;
-};
\ No newline at end of file
+};
+
+type StrategyGenes = Observer['strategyGenes'];
+
+// Valid range of each strategy gene
+const GENE_BOUNDS: Record<keyof StrategyGenes, [number, number]> = {
+  riskTolerance: [0, 1],
+  trendFollowing: [0, 1],
+  volatilityPreference: [0, 1],
+  holdingBias: [-1, 1],
+  volumeSensitivity: [0, 1],
+};
+
+/**
+ * Binary tournament: the fitter of two observers drawn at random
+ */
+const tournamentPick = (observers: Observer[], random: Random): Observer => {
+  const a = observers[Math.floor(random() * observers.length)];
+  const b = observers[Math.floor(random() * observers.length)];
+  return calculateFitness(b) > calculateFitness(a) ? b : a;
+};
+
+/**
+ * Pick two parents for a crossover child that replaces `observer`:
+ * - 'elite-ensemble': two distinct elites (one if the ensemble has a single member)
+ * - 'elite-and-self': an elite and the observer itself
+ * - 'tournament': two binary tournaments over the whole population
+ * The fitter parent comes first.
+ */
+export const selectCrossoverParents = (
+  selection: ParentSelection,
+  observer: Observer,
+  eliteEnsemble: Observer[],
+  population: Observer[],
+  random: Random = Math.random
+): [Observer, Observer] => {
+  let parents: [Observer, Observer];
+  if (selection === 'tournament') {
+    parents = [tournamentPick(population, random), tournamentPick(population, random)];
+  } else if (selection === 'elite-and-self') {
+    parents = [eliteEnsemble[Math.floor(random() * eliteEnsemble.length)], observer];
+  } else {
+    const first = Math.floor(random() * eliteEnsemble.length);
+    const second = eliteEnsemble.length > 1
+      ? (first + 1 + Math.floor(random() * (eliteEnsemble.length - 1))) % eliteEnsemble.length
+      : first;
+    parents = [eliteEnsemble[first], eliteEnsemble[second]];
+  }
+  return calculateFitness(parents[1]) > calculateFitness(parents[0]) ? [parents[1], parents[0]] : parents;
+};
+
+/**
+ * Recombine one gene value from two parents
+ */
+const crossoverGene = (
+  operator: Exclude<CrossoverOperator, 'none'>,
+  a: number,
+  b: number,
+  [min, max]: [number, number],
+  config: CrossoverConfig,
+  random: Random
+): number => {
+  let child: number;
+  switch (operator) {
+    case 'uniform':
+      child = random() < 0.5 ? a : b;
+      break;
+    case 'blend': {
+      // BLX-α: uniform over the parents' interval widened by α on each side
+      const low = Math.min(a, b);
+      const span = Math.abs(a - b);
+      child = low - config.blendAlpha * span + random() * span * (1 + 2 * config.blendAlpha);
+      break;
+    }
+    case 'sbx': {
+      // Simulated binary crossover: children spread around the parents like one-point crossover on bit strings
+      const u = random();
+      const beta = u <= 0.5
+        ? Math.pow(2 * u, 1 / (config.sbxEta + 1))
+        : Math.pow(1 / (2 * (1 - u)), 1 / (config.sbxEta + 1));
+      const sign = random() < 0.5 ? 1 : -1;
+      child = 0.5 * ((a + b) + sign * beta * (a - b));
+      break;
+    }
+  }
+  return Math.max(min, Math.min(max, child));
+};
+
+/**
+ * Merge two experience buffers by timestamp. Where both parents hold a step, keep the
+ * experience whose advice was executed (the first parent's otherwise).
+ */
+export const mergeExperienceBuffers = (first: TradingExperience[], second: TradingExperience[]): TradingExperience[] => {
+  const byTimestamp = new Map<number, TradingExperience>();
+  second.forEach(exp => byTimestamp.set(exp.timestamp, exp));
+  first.forEach(exp => {
+    const other = byTimestamp.get(exp.timestamp);
+    if (!other || exp.wasExecuted || !other.wasExecuted) byTimestamp.set(exp.timestamp, exp);
+  });
+  return [...byTimestamp.values()]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-MAX_EXPERIENCE_BUFFER);
+};
+
+/**
+ * Child of two parents that takes over `observer`'s slot: recombined strategy genes,
+ * a fitness-weighted blend of the parents' predictions and their merged experience
+ */
+export const crossoverObservers = (
+  observer: Observer,
+  [first, second]: [Observer, Observer],
+  config: CrossoverConfig,
+  random: Random = Math.random
+): Observer => {
+  const { operator } = config;
+  if (operator === 'none') return observer;
+
+  // Every gene is overwritten; starting from the fitter parent's keeps the accumulator a full StrategyGenes
+  const strategyGenes = (Object.keys(GENE_BOUNDS) as Array<keyof StrategyGenes>).reduce<StrategyGenes>(
+    (genes, gene) => ({
+      ...genes,
+      [gene]: crossoverGene(operator, first.strategyGenes[gene], second.strategyGenes[gene], GENE_BOUNDS[gene], config, random),
+    }),
+    { ...first.strategyGenes }
+  );
+
+  // Small floor so two zero-fitness parents still average
+  const firstWeight = calculateFitness(first) + 1e-6;
+  const secondWeight = calculateFitness(second) + 1e-6;
+  const n = (first.n * firstWeight + second.n * secondWeight) / (firstWeight + secondWeight);
+
+  return {
+    ...observer,
+    n,
+    strategyGenes,
+    experienceBuffer: mergeExperienceBuffers(first.experienceBuffer, second.experienceBuffer),
+    lifetimeTradingPnL: 0,
+    parentId: first.id,
+    lineageId: first.lineageId,
+    generation: Math.max(first.generation, second.generation) + 1,
+    lowFitnessSteps: 0,
+  };
+};
@@ -0,0 +1,212 @@
+import type { Observer, HorizonForecast, HorizonAccuracy, HorizonSignalMode, TradingSignal, RewardFunctionConfig } from '../types';
+import { getRandomInt } from './simulationService';
+import { calculatePointReward } from './rewardFunctionService';
+import { selectEliteEnsemble } from './evolutionaryLearningService';
+import type { Random } from './randomService';
+
+/**
+ * Forecast Horizons
+ * Observers forecast several horizons: Observer.n is the next close (t+1) and each
+ * HorizonForecast carries the close h candles ahead.
+ * - Forecasts are issued every step and queued until their target candle closes,
+ *   then scored with the point reward function at the forecast's horizon
+ * - Each horizon has its own elite, which that horizon's forecasts evolve toward
+ * - Trading signals can take their direction from a long horizon and time entries with t+1
+ */
+
+// ========== HORIZONS ==========
+
+/**
+ * Distinct horizons beyond the next candle, ascending
+ */
+export const getExtraHorizons = (horizons: number[]): number[] =>
+  [...new Set(horizons)].filter(h => Number.isInteger(h) && h > 1).sort((a, b) => a - b);
+
+export const getForecast = (observer: Observer, horizon: number): HorizonForecast | undefined =>
+  observer.forecasts.find(forecast => forecast.horizon === horizon);
+
+/**
+ * Fresh forecasts spread around `price`, like a new observer's n
+ */
+export const createForecasts = (horizons: number[], price: number, random: Random = Math.random): HorizonForecast[] => {
+  const searchRange = price * 0.1;
+  return horizons.map(horizon => ({
+    horizon,
+    n: price + getRandomInt(-searchRange, searchRange, random),
+    reward: 0,
+    error: 0,
+    pending: [],
+  }));
+};
+
+/**
+ * Match an observer's forecasts to the run's horizons. Horizons it already tracks keep their
+ * forecast, new ones start from its next-candle forecast, and queued forecasts are dropped
+ * because they refer to the previous run's candles.
+ */
+export const alignForecasts = (observer: Observer, horizons: number[]): Observer => ({
+  ...observer,
+  forecasts: horizons.map(horizon => {
+    const existing = observer.forecasts?.find(forecast => forecast.horizon === horizon);
+    return {
+      horizon,
+      n: existing?.n ?? observer.n,
+      reward: existing?.reward ?? 0,
+      error: existing?.error ?? 0,
+      pending: [],
+    };
+  }),
+});
+
+// ========== SCORING & ELITES ==========
+
+/**
+ * Score the forecasts whose target candle just closed at `actualClose`
+ */
+export const resolveForecasts = (
+  forecasts: HorizonForecast[],
+  actualClose: number,
+  rewardFunction: RewardFunctionConfig
+): HorizonForecast[] =>
+  forecasts.map(forecast => {
+    if (forecast.pending.length < forecast.horizon) return forecast;
+    const [due, ...rest] = forecast.pending;
+    const { reward, error } = calculatePointReward(rewardFunction, {
+      prediction: due.n,
+      actual: actualClose,
+      referencePrice: due.fromPrice,
+      horizon: forecast.horizon,
+    });
+    return { ...forecast, reward, error, pending: rest };
+  });
+
+/**
+ * Elite for each horizon: the observer whose latest resolved forecast scored best
+ */
+export const selectHorizonElites = (observers: Observer[], horizons: number[]): Map<number, Observer> =>
+  new Map(horizons.map(horizon => [
+    horizon,
+    observers.reduce((best, obs) =>
+      (getForecast(obs, horizon)?.reward ?? 0) > (getForecast(best, horizon)?.reward ?? 0) ? obs : best
+    ),
+  ]));
+
+/**
+ * Top observers by fitness with prediction accuracy measured at `horizon` (1 = the next-candle forecast)
+ */
+export const selectHorizonEliteEnsemble = (observers: Observer[], horizon: number, topN: number = 3): Observer[] => {
+  if (horizon <= 1) return selectEliteEnsemble(observers, topN);
+
+  const ranked = selectEliteEnsemble(
+    observers.map(obs => ({ ...obs, reward: getForecast(obs, horizon)?.reward ?? 0 })),
+    topN
+  );
+  // Hand back the observers themselves (with their next-candle reward), ranked by horizon fitness
+  const byId = new Map(observers.map(obs => [obs.id, obs]));
+  return ranked.map(elite => ({ ...byId.get(elite.id), fitness: elite.fitness }));
+};
+
+/**
+ * Move each forecast toward its horizon elite's, mutate around `referencePrice`,
+ * and issue the result for scoring once its target candle closes
+ */
+export const evolveForecasts = (
+  observer: Observer,
+  elites: Map<number, Observer>,
+  referencePrice: number,
+  mutationRate: number,
+  random: Random = Math.random
+): HorizonForecast[] =>
+  observer.forecasts.map(forecast => {
+    let n = forecast.n;
+
+    const elite = elites.get(forecast.horizon);
+    if (elite && elite.id !== observer.id && random() < 1.0 - forecast.reward) {
+      const eliteN = getForecast(elite, forecast.horizon)?.n ?? n;
+      n += Math.sign(eliteN - n) * random() * Math.abs(eliteN - n) * 0.5;
+    }
+
+    if (random() < mutationRate) {
+      const searchRange = referencePrice * 0.1;
+      n = referencePrice + getRandomInt(-searchRange / 2, searchRange / 2, random);
+    }
+
+    return { ...forecast, n, pending: [...forecast.pending, { n, fromPrice: referencePrice }] };
+  });
+
+// ========== ACCURACY ==========
+
+export const createHorizonAccuracy = (horizons: number[]): HorizonAccuracy[] =>
+  horizons.map(horizon => ({
+    horizon,
+    bestPrediction: 0,
+    directionAccuracy: 0,
+    totalPredictions: 0,
+    correctPredictions: 0,
+    pending: [],
+  }));
+
+/**
+ * Resolve the elite forecast issued `horizon` candles ago against `actualClose` and
+ * queue the elite forecasts issued now (keyed by horizon)
+ */
+export const updateHorizonAccuracy = (
+  accuracy: HorizonAccuracy[],
+  eliteForecasts: Map<number, number>,
+  actualClose: number
+): HorizonAccuracy[] =>
+  accuracy.map(entry => {
+    let { totalPredictions, correctPredictions, pending } = entry;
+
+    if (pending.length >= entry.horizon) {
+      const [due, ...rest] = pending;
+      const actual: 'UP' | 'DOWN' = actualClose > due.fromPrice ? 'UP' : 'DOWN';
+      totalPredictions += 1;
+      correctPredictions += actual === due.predicted ? 1 : 0;
+      pending = rest;
+    }
+
+    const forecast = eliteForecasts.get(entry.horizon) ?? entry.bestPrediction;
+    const predicted: 'UP' | 'DOWN' = forecast > actualClose ? 'UP' : 'DOWN';
+
+    return {
+      ...entry,
+      bestPrediction: forecast,
+      totalPredictions,
+      correctPredictions,
+      directionAccuracy: totalPredictions > 0 ? (correctPredictions / totalPredictions) * 100 : 0,
+      pending: [...pending, { fromPrice: actualClose, predicted }],
+    };
+  });
+
+// ========== SIGNALS ==========
+
+/**
+ * Direction the trading signal follows: the next-candle elite's, or under 'timed-entry'
+ * the longest horizon elite's forecast relative to `currentPrice`
+ */
+export const getSignalDirection = (
+  mode: HorizonSignalMode,
+  nextCandleDirection: 'UP' | 'DOWN',
+  elites: Map<number, Observer>,
+  currentPrice: number
+): 'UP' | 'DOWN' => {
+  if (mode !== 'timed-entry' || elites.size === 0) return nextCandleDirection;
+
+  const longestHorizon = Math.max(...elites.keys());
+  const forecast = getForecast(elites.get(longestHorizon), longestHorizon);
+  if (!forecast) return nextCandleDirection;
+  return forecast.n > currentPrice ? 'UP' : 'DOWN';
+};
+
+/**
+ * Under 'timed-entry', hold until the next-candle forecast agrees with the long-horizon direction
+ */
+export const timeSignalEntry = (
+  signal: TradingSignal,
+  mode: HorizonSignalMode,
+  nextCandleDirection: 'UP' | 'DOWN'
+): TradingSignal =>
+  mode === 'timed-entry' && signal.action !== 'HOLD' && signal.predictedDirection !== nextCandleDirection
+    ? { ...signal, action: 'HOLD' }
+    : signal;
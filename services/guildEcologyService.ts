@@ -0,0 +1,99 @@
+import type { Guild, Observer } from '../types';
+import { calculateFitness, selectEliteEnsemble } from './evolutionaryLearningService';
+
+/**
+ * Guild Ecology
+ * Inter-guild dynamics for multi-guild runs. Each guild evolves its own population and
+ * collective phase vector and trades its own slice of a shared capital budget.
+ * Every ecology round:
+ * - Migration: each guild sends copies of its fittest observers to the next guild (a ring),
+ *   replacing that guild's weakest observers
+ * - Capital competition: shares are reweighted by each guild's return over the round
+ * - Extinction: guilds whose share falls below a floor are wiped and respawned by the engine
+ * With a single guild every step is a no-op, so the ecology behaves like one population.
+ */
+
+/**
+ * Guild whose signal and predictions represent the ecology: the one trading the most capital
+ */
+export const getLeadGuild = (guilds: Guild[]): Guild | null =>
+  guilds.reduce<Guild | null>((lead, guild) => (!lead || guild.capitalShare > lead.capitalShare ? guild : lead), null);
+
+/**
+ * All observers across guilds (for checkpoints, epoch metrics and charts)
+ */
+export const getAllObservers = (guilds: Guild[]): Observer[] => guilds.flatMap(guild => guild.observers);
+
+/**
+ * Split a saved population into contiguous per-guild chunks, so a checkpoint saved with
+ * the same guild count restores each guild's members together
+ */
+export const splitPopulation = (observers: Observer[], numGuilds: number): Observer[][] => {
+  const chunkSize = Math.ceil(observers.length / numGuilds);
+  return Array.from({ length: numGuilds }, (_, g) => observers.slice(g * chunkSize, (g + 1) * chunkSize));
+};
+
+/**
+ * Copy each guild's `migrationSize` fittest observers into the next guild, replacing its weakest.
+ * Migrants get fresh ids so ids stay unique within every guild.
+ */
+export const migrateObservers = (guilds: Guild[], migrationSize: number): Guild[] => {
+  if (guilds.length < 2 || migrationSize <= 0) return guilds;
+
+  let nextId = Math.max(...getAllObservers(guilds).map(obs => obs.id)) + 1;
+  const emigrants = guilds.map(guild => selectEliteEnsemble(guild.observers, migrationSize));
+
+  return guilds.map((guild, index) => {
+    const immigrants = emigrants[(index - 1 + guilds.length) % guilds.length]
+      .slice(0, guild.observers.length - 1) // Always keep at least one native observer
+      .map(obs => ({ ...obs, id: nextId++ }));
+    const weakest = new Set(
+      [...guild.observers]
+        .sort((a, b) => calculateFitness(a) - calculateFitness(b))
+        .slice(0, immigrants.length)
+        .map(obs => obs.id)
+    );
+    return {
+      ...guild,
+      observers: [...guild.observers.filter(obs => !weakest.has(obs.id)), ...immigrants],
+    };
+  });
+};
+
+/**
+ * Reweight capital shares by each guild's return on its allocated capital over the round
+ * (replicator dynamics: share ∝ share · e^(competition · return)) and start a new round
+ */
+export const allocateCapital = (guilds: Guild[], competition: number, totalCapital: number): Guild[] => {
+  if (guilds.length < 2) return guilds.map(guild => ({ ...guild, roundPnL: 0 }));
+
+  const weights = guilds.map(guild => {
+    const allocated = guild.capitalShare * totalCapital;
+    const roundReturn = allocated > 0 ? Math.max(-1, Math.min(1, guild.roundPnL / allocated)) : 0;
+    return guild.capitalShare * Math.exp(competition * roundReturn);
+  });
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  return guilds.map((guild, i) => ({
+    ...guild,
+    capitalShare: totalWeight > 0 ? weights[i] / totalWeight : 1 / guilds.length,
+    roundPnL: 0,
+  }));
+};
+
+/**
+ * Indices of guilds whose capital share fell below `extinctionShare` of an equal share
+ */
+export const findExtinctGuilds = (guilds: Guild[], extinctionShare: number): number[] => {
+  if (guilds.length < 2 || extinctionShare <= 0) return [];
+  const floor = extinctionShare / guilds.length;
+  return guilds.flatMap((guild, index) => (guild.capitalShare < floor ? [index] : []));
+};
+
+/**
+ * Rescale shares to sum to 1 (after respawned guilds were handed an equal share)
+ */
+export const normalizeCapitalShares = (guilds: Guild[]): Guild[] => {
+  const total = guilds.reduce((sum, guild) => sum + guild.capitalShare, 0);
+  return guilds.map(guild => ({ ...guild, capitalShare: total > 0 ? guild.capitalShare / total : 1 / guilds.length }));
+};
@@ -0,0 +1,210 @@
+import type { Candle, Timeframe, DateRange, KlineStreamClient, KlineStreamHandlers } from '../types';
+import { TIMEFRAME_MS } from '../constants';
+
+/**
+ * Live Kline Streaming
+ * WebSocket client for MEXC-style kline channels with:
+ * - Partial candle updates for live charting
+ * - Candle close detection (a new open time means the previous candle is final)
+ * - Reconnects with exponential backoff
+ * - Gap filling through REST for candles missed while disconnected
+ */
+
+const PING_INTERVAL_MS = 20_000; // MEXC drops idle connections after ~60s
+const INITIAL_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// MEXC kline channel interval names
+const MEXC_STREAM_INTERVALS: Record<Timeframe, string> = {
+  '1m': 'Min1',
+  '5m': 'Min5',
+  '15m': 'Min15',
+  '30m': 'Min30',
+  '1h': 'Min60',
+  '4h': 'Hour4',
+  '1d': 'Day1',
+};
+
+export interface KlineStreamOptions {
+  url: string;
+  symbol: string;
+  timeframe: Timeframe;
+  lastClosedTime?: number; // Open time of the newest candle the caller already has
+  fetchGap?: (range: DateRange) => Promise<Candle[]>; // REST backfill for missed candles
+  createSocket?: (url: string) => WebSocket; // Override for tests or non-browser runtimes
+}
+
+/**
+ * MEXC subscription channel for a symbol/timeframe
+ */
+export const getKlineChannel = (symbol: string, timeframe: Timeframe): string =>
+  `spot@public.kline.v3.api@${symbol}@${MEXC_STREAM_INTERVALS[timeframe]}`;
+
+/**
+ * `value[key]` when it is a JSON object, otherwise null
+ */
+const field = (value: unknown, key: string): Record<string, unknown> | null => {
+  const record = value !== null && typeof value === 'object' ? value as Record<string, unknown> : null;
+  const child = record?.[key];
+  return child !== null && typeof child === 'object' ? child as Record<string, unknown> : null;
+};
+
+/**
+ * Parse a MEXC kline push message into a candle, or null for acks/pongs/other channels
+ * Message shape: { c: channel, d: { k: { t, o, h, l, c, v, a, T } } } with times in seconds
+ */
+export const parseKlineMessage = (raw: string): Candle | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  const kline = field(field(message, 'd'), 'k');
+  if (kline === null || kline.t === undefined) return null;
+
+  const candle: Candle = {
+    time: Number(kline.t) * 1000,
+    open: Number(kline.o),
+    high: Number(kline.h),
+    low: Number(kline.l),
+    close: Number(kline.c),
+    volume: Number(kline.v ?? 0),
+  };
+  if (kline.a !== undefined) candle.quoteVolume = Number(kline.a);
+  if (kline.T !== undefined) candle.closeTime = Number(kline.T) * 1000;
+
+  return Number.isFinite(candle.time) && Number.isFinite(candle.close) ? candle : null;
+};
+
+/**
+ * Create a kline stream client for a MEXC-compatible WebSocket endpoint
+ */
+export const createWebSocketKlineStream = (options: KlineStreamOptions): KlineStreamClient => {
+  const { url, symbol, timeframe, fetchGap } = options;
+  const intervalMs = TIMEFRAME_MS[timeframe];
+  const createSocket = options.createSocket ?? ((socketUrl: string) => new WebSocket(socketUrl));
+
+  let socket: WebSocket | null = null;
+  let handlers: KlineStreamHandlers | null = null;
+  let stopped = true;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  let partial: Candle | null = null;
+  let lastClosedTime = options.lastClosedTime ?? null;
+  // Closed candles are emitted through a promise chain so gap fills stay in order
+  let emitQueue: Promise<void> = Promise.resolve();
+
+  const emitClosed = (candle: Candle) => {
+    emitQueue = emitQueue.then(async () => {
+      if (stopped || !handlers) return;
+      if (lastClosedTime !== null && candle.time <= lastClosedTime) return; // Already delivered
+
+      if (lastClosedTime !== null && fetchGap && candle.time > lastClosedTime + intervalMs) {
+        try {
+          const missed = await fetchGap({ start: lastClosedTime + intervalMs, end: candle.time });
+          for (const gapCandle of missed) {
+            if (stopped) return;
+            if (gapCandle.time > (lastClosedTime ?? -Infinity) && gapCandle.time < candle.time) {
+              lastClosedTime = gapCandle.time;
+              handlers.onClosedCandle(gapCandle);
+            }
+          }
+          if (missed.length > 0) {
+            console.log(`🔁 Filled ${missed.length} missed ${symbol} ${timeframe} candles via REST`);
+          }
+        } catch (error) {
+          handlers.onError?.(error);
+        }
+      }
+
+      if (stopped) return;
+      lastClosedTime = candle.time;
+      handlers.onClosedCandle(candle);
+    });
+  };
+
+  const handleMessage = (raw: string) => {
+    const candle = parseKlineMessage(raw);
+    if (!candle || !handlers) return;
+
+    // A candle with a newer open time means the one we were tracking has closed
+    if (partial && candle.time > partial.time) {
+      emitClosed(partial);
+    }
+    if (!partial || candle.time >= partial.time) {
+      partial = candle;
+      handlers.onPartialCandle(candle);
+    }
+  };
+
+  const clearTimers = () => {
+    if (pingTimer) clearInterval(pingTimer);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    pingTimer = null;
+    reconnectTimer = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    handlers?.onStatusChange?.('reconnecting');
+    reconnectTimer = setTimeout(connect, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+
+  const connect = (): void => {
+    if (stopped) return;
+    handlers?.onStatusChange?.('connecting');
+
+    try {
+      socket = createSocket(url);
+    } catch (error) {
+      handlers?.onError?.(error);
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      socket?.send(JSON.stringify({ method: 'SUBSCRIPTION', params: [getKlineChannel(symbol, timeframe)] }));
+      pingTimer = setInterval(() => socket?.send(JSON.stringify({ method: 'PING' })), PING_INTERVAL_MS);
+      handlers?.onStatusChange?.('open');
+    };
+
+    socket.onmessage = (event) => handleMessage(String(event.data));
+
+    socket.onerror = (event) => handlers?.onError?.(event);
+
+    socket.onclose = () => {
+      clearTimers();
+      socket = null;
+      // The tracked candle may have missed updates; its final values come from the gap fill
+      partial = null;
+      if (stopped) {
+        handlers?.onStatusChange?.('closed');
+      } else {
+        scheduleReconnect();
+      }
+    };
+  };
+
+  return {
+    start: (streamHandlers: KlineStreamHandlers) => {
+      handlers = streamHandlers;
+      stopped = false;
+      connect();
+    },
+    stop: () => {
+      stopped = true;
+      clearTimers();
+      if (socket) {
+        socket.close();
+      } else {
+        handlers?.onStatusChange?.('closed');
+      }
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import type { Observer, Guild, LifecycleConfig } from '../types';
+import { getRandomInt } from './simulationService';
+import { calculateFitness, selectEliteEnsemble, mutateStrategyGenes } from './evolutionaryLearningService';
+import type { Random } from './randomService';
+
+/**
+ * Observer Lifecycle
+ * Observers are born and die instead of living forever:
+ * - Deaths: an observer whose fitness stays below the threshold for `patience` steps is culled
+ * - Births: offspring of elite parents fill the guild up to its carrying capacity, inheriting
+ *   the parent's lineage with mutated genes and prediction
+ * - Carrying capacity: each time the guild closes a trade it rises while the guild's aggregate
+ *   realized P&L (its `roundPnL`) is positive and falls while it is negative, within the
+ *   configured population bounds
+ */
+
+const ELITE_PARENTS = 3; // Offspring descend from one of the guild's top observers
+const OFFSPRING_SPREAD = 0.01; // Offspring predictions land within ±1% of the parent's
+const OFFSPRING_GENE_STRENGTH = 0.15;
+
+// ========== CARRYING CAPACITY ==========
+
+/**
+ * Move the capacity one observer toward growth while the guild is in profit overall, or toward
+ * shrinkage while it is at a loss, so one large loss outweighs many small wins
+ */
+export const adjustCarryingCapacity = (capacity: number, guildPnL: number, config: LifecycleConfig): number =>
+  Math.max(config.minPopulation, Math.min(config.maxPopulation, capacity + Math.sign(guildPnL)));
+
+// ========== DEATHS ==========
+
+/**
+ * Count consecutive steps each observer has spent below the fitness threshold
+ */
+export const updateLowFitnessStreaks = (observers: Observer[], threshold: number): Observer[] =>
+  observers.map(obs => ({
+    ...obs,
+    lowFitnessSteps: calculateFitness(obs) < threshold ? obs.lowFitnessSteps + 1 : 0,
+  }));
+
+/**
+ * Remove observers that outstayed their patience, then the weakest until the guild fits its
+ * capacity. The fittest observer always survives and the guild never drops below its minimum.
+ */
+export const cullObservers = (
+  observers: Observer[],
+  capacity: number,
+  config: LifecycleConfig
+): { survivors: Observer[]; deaths: number } => {
+  const ranked = [...observers].sort((a, b) => calculateFitness(a) - calculateFitness(b));
+  const fittestId = ranked[ranked.length - 1]?.id;
+  const culled = new Set<number>();
+
+  const cull = (obs: Observer): void => {
+    if (obs.id !== fittestId && observers.length - culled.size > config.minPopulation) culled.add(obs.id);
+  };
+  ranked.filter(obs => obs.lowFitnessSteps >= config.patience).forEach(cull);
+  ranked.forEach(obs => {
+    if (observers.length - culled.size > capacity) cull(obs);
+  });
+
+  return { survivors: observers.filter(obs => !culled.has(obs.id)), deaths: culled.size };
+};
+
+// ========== BIRTHS ==========
+
+/**
+ * Child of `parent` with a fresh id and memory, a nearby prediction and mutated genes
+ */
+export const spawnOffspring = (
+  parent: Observer,
+  id: number,
+  referencePrice: number,
+  random: Random = Math.random
+): Observer => {
+  const spread = referencePrice * OFFSPRING_SPREAD;
+  const child = mutateStrategyGenes(parent, 1.0, OFFSPRING_GENE_STRENGTH, random);
+  return {
+    ...child,
+    id,
+    n: parent.n + getRandomInt(-spread, spread, random),
+    tradingReward: 0,
+    contributedToTrade: false,
+    lifetimeTradingPnL: 0,
+    experienceBuffer: [],
+    parentId: parent.id,
+    lineageId: parent.lineageId,
+    generation: parent.generation + 1,
+    lowFitnessSteps: 0,
+  };
+};
+
+// ========== GUILD STEP ==========
+
+/**
+ * One lifecycle step for a guild: adjust its capacity from its P&L when it closed a trade,
+ * cull, then breed elites back up to capacity. Ids start at `nextId`.
+ */
+export const runLifecycle = (
+  guild: Guild,
+  tradeClosed: boolean,
+  config: LifecycleConfig,
+  nextId: number,
+  referencePrice: number,
+  random: Random = Math.random
+): { guild: Guild; births: number; deaths: number; nextId: number } => {
+  const carryingCapacity = tradeClosed
+    ? adjustCarryingCapacity(guild.carryingCapacity, guild.roundPnL, config)
+    : guild.carryingCapacity;
+  const streaks = updateLowFitnessStreaks(guild.observers, config.fitnessThreshold);
+  const { survivors, deaths } = cullObservers(streaks, carryingCapacity, config);
+
+  const parents = selectEliteEnsemble(survivors, ELITE_PARENTS);
+  const births = Math.max(0, carryingCapacity - survivors.length);
+  const offspring = Array.from({ length: births }, (_, i) =>
+    spawnOffspring(parents[Math.floor(random() * parents.length)], nextId + i, referencePrice, random)
+  );
+
+  return {
+    guild: { ...guild, observers: [...survivors, ...offspring], carryingCapacity },
+    births,
+    deaths,
+    nextId: nextId + births,
+  };
+};
@@ -0,0 +1,115 @@
+import type { Candle, Timeframe } from '../types';
+
+/**
+ * Market Data Cache
+ * Persists downloaded candles per symbol/timeframe in IndexedDB so reloads and
+ * training epochs reuse history instead of hitting the exchange again.
+ * Every function degrades to a no-op where IndexedDB is unavailable (Node, private mode).
+ */
+
+const DB_NAME = 'observer_ecology_market_data';
+const DB_VERSION = 2; // v2: candles carry volume fields
+const STORE_NAME = 'candles';
+
+interface CacheRecord {
+  key: string;
+  symbol: string;
+  timeframe: Timeframe;
+  updatedAt: number;
+  candles: Candle[];
+}
+
+const getCacheKey = (symbol: string, timeframe: Timeframe): string => `${symbol}:${timeframe}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Drop series cached by older versions; they lack fields the app now expects
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+        }
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const isCacheAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Read the cached series for a symbol/timeframe, or null if nothing is cached
+ */
+export const getCachedCandles = async (symbol: string, timeframe: Timeframe): Promise<Candle[] | null> => {
+  if (!isCacheAvailable()) return null;
+
+  try {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .get(getCacheKey(symbol, timeframe));
+      request.onsuccess = () => resolve((request.result as CacheRecord | undefined)?.candles ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('❌ Failed to read market data cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Replace the cached series for a symbol/timeframe
+ */
+export const putCachedCandles = async (symbol: string, timeframe: Timeframe, candles: Candle[]): Promise<void> => {
+  if (!isCacheAvailable()) return;
+
+  const record: CacheRecord = {
+    key: getCacheKey(symbol, timeframe),
+    symbol,
+    timeframe,
+    updatedAt: Date.now(),
+    candles,
+  };
+
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('❌ Failed to write market data cache:', error);
+  }
+};
+
+/**
+ * Remove every cached series
+ */
+export const clearCandleCache = async (): Promise<void> => {
+  if (!isCacheAvailable()) return;
+
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('❌ Failed to clear market data cache:', error);
+  }
+};
@@ -1,36 +1,387 @@
-import type { Candle, Timeframe } from '../types';
+import type { Candle, Timeframe, MarketDataProvider, DateRange, SymbolInfo } from '../types';
+import { TIMEFRAME_MS, DEFAULT_CANDLE_COUNT, SYMBOL_OPTIONS } from '../constants';
+import { getCachedCandles, putCachedCandles } from './marketDataCacheService';
+
+const MEXC_PAGE_LIMIT = 1000; // Max klines per request
+const MAX_BACKFILL_PAGES = 500; // Safety stop for very long ranges
+const CACHE_HOLE_TOLERANCE = 5; // Holes inside a cached series shorter than this many candles are not refetched
+
+interface KlineQuery {
+  symbol: string;
+  timeframe: Timeframe;
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+}
+
+/**
+ * Fetch a single page of klines from MEXC
+ */
+const fetchKlinesPage = async ({ symbol, timeframe, startTime, endTime, limit = MEXC_PAGE_LIMIT }: KlineQuery): Promise<Candle[]> => {
+  // Use the Vite proxy to avoid CORS issues
+  let url = `/api/mexc/api/v3/klines?symbol=${symbol}&interval=${timeframe}&limit=${limit}`;
+  if (startTime !== undefined) url += `&startTime=${startTime}`;
+  if (endTime !== undefined) url += `&endTime=${endTime}`;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`MEXC API Error: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json();
+
+  // MEXC returns an array of arrays:
+  // [open_time, open, high, low, close, volume, close_time, quote_volume, (trades)]
+  // We need to map this to our Candle object structure.
+  return data.map((d: any[]) => ({
+    time: Number(d[0]), // open_time (timestamp)
+    open: Number(d[1]),
+    high: Number(d[2]),
+    low: Number(d[3]),
+    close: Number(d[4]),
+    volume: Number(d[5] ?? 0),
+    closeTime: d[6] !== undefined ? Number(d[6]) : undefined,
+    quoteVolume: d[7] !== undefined ? Number(d[7]) : undefined,
+    trades: d[8] !== undefined ? Number(d[8]) : undefined,
+  }));
+};
 
 /**
  * Fetches real market data from the MEXC exchange API.
  * @param timeframe - The candlestick timeframe (e.g., '1m', '5m', '15m', '30m', '1h', '4h', '1d')
+ * @param symbol - The exchange symbol (e.g., 'BTCUSDT', 'ETHUSDT')
  * @returns A promise that resolves to an array of Candle objects.
  */
-export const fetchMarketData = async (timeframe: Timeframe = '4h'): Promise<Candle[]> => {
-  const symbol = 'BTCUSDT';
-  const limit = 1000; // Max limit
-  // Use the Vite proxy to avoid CORS issues
-  const url = `/api/mexc/api/v3/klines?symbol=${symbol}&interval=${timeframe}&limit=${limit}`;
-
+export const fetchMarketData = async (timeframe: Timeframe = '4h', symbol: string = 'BTCUSDT'): Promise<Candle[]> => {
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`MEXC API Error: ${response.status} ${response.statusText}`);
-    }
-    const data = await response.json();
-
-    // MEXC returns an array of arrays: [open_time, open, high, low, close, ...]
-    // We need to map this to our Candle object structure.
-    const candles: Candle[] = data.map((d: any[]) => ({
-      time: Number(d[0]), // open_time (timestamp)
-      open: Number(d[1]),
-      high: Number(d[2]),
-      low: Number(d[3]),
-      close: Number(d[4]),
-    }));
-    
-    return candles;
+    return await fetchKlinesPage({ symbol, timeframe });
   } catch (error) {
     console.error("Failed to fetch market data:", error);
     throw error; // Re-throw to be caught by the calling component
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Merge candle series, de-duplicating by open time.
+ * Later series win on conflicts so fresher data replaces stale candles.
+ */
+export const mergeCandles = (...series: Candle[][]): Candle[] => {
+  const byTime = new Map<number, Candle>();
+  for (const candles of series) {
+    for (const candle of candles) {
+      byTime.set(candle.time, candle);
+    }
+  }
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Page through MEXC klines from oldest to newest until the whole range is covered.
+ * MEXC caps each request at 1000 candles, so long ranges need many requests.
+ */
+export const fetchMarketDataRange = async (
+  timeframe: Timeframe,
+  range: DateRange,
+  symbol: string = 'BTCUSDT',
+  onProgress?: (candlesLoaded: number) => void
+): Promise<Candle[]> => {
+  const intervalMs = TIMEFRAME_MS[timeframe];
+  const pages: Candle[][] = [];
+  let loaded = 0;
+  let cursor = range.start;
+
+  for (let page = 0; page < MAX_BACKFILL_PAGES && cursor < range.end; page++) {
+    const candles = await fetchKlinesPage({ symbol, timeframe, startTime: cursor, endTime: range.end - 1 });
+    if (candles.length === 0) break;
+
+    pages.push(candles);
+    loaded += candles.length;
+    onProgress?.(loaded);
+
+    const nextCursor = candles[candles.length - 1].time + intervalMs;
+    if (nextCursor <= cursor) break; // No progress, avoid looping forever
+    cursor = nextCursor;
+  }
+
+  return mergeCandles(...pages).filter(c => c.time >= range.start && c.time < range.end);
+};
+
+/**
+ * Resolve the range to load, defaulting to the latest DEFAULT_CANDLE_COUNT closed candles
+ */
+export const resolveDateRange = (timeframe: Timeframe, range?: DateRange | null, now: number = Date.now()): DateRange => {
+  if (range) return range;
+  const intervalMs = TIMEFRAME_MS[timeframe];
+  const end = Math.floor(now / intervalMs) * intervalMs; // Open time of the still-forming candle
+  return { start: end - DEFAULT_CANDLE_COUNT * intervalMs, end };
+};
+
+/**
+ * Find the parts of a range not covered by a cached series.
+ * Small holes inside the series are tolerated since exchanges have genuine outages.
+ */
+const findMissingRanges = (cached: Candle[], range: DateRange, intervalMs: number): DateRange[] => {
+  const missing: DateRange[] = [];
+  let expected = range.start;
+
+  for (const candle of cached) {
+    if (candle.time < range.start) continue;
+    if (candle.time >= range.end) break;
+
+    const isHead = expected === range.start;
+    const holeSize = candle.time - expected;
+    if (holeSize >= intervalMs * (isHead ? 1 : CACHE_HOLE_TOLERANCE)) {
+      missing.push({ start: expected, end: candle.time });
+    }
+    expected = candle.time + intervalMs;
+  }
+
+  if (range.end - expected >= intervalMs) {
+    missing.push({ start: expected, end: range.end });
+  }
+  return missing;
+};
+
+/**
+ * Load a range of candles, serving what we can from the IndexedDB cache and
+ * only fetching the missing parts of the range from the exchange.
+ * Only closed candles are cached so a partial candle never goes stale in storage.
+ */
+export const loadMarketDataRange = async (
+  timeframe: Timeframe,
+  range: DateRange,
+  symbol: string = 'BTCUSDT',
+  onProgress?: (candlesLoaded: number) => void
+): Promise<Candle[]> => {
+  const intervalMs = TIMEFRAME_MS[timeframe];
+  const lastClosedOpen = Math.floor(Date.now() / intervalMs) * intervalMs - intervalMs;
+  const clampedRange = { start: range.start, end: Math.min(range.end, lastClosedOpen + intervalMs) };
+
+  const cached = await getCachedCandles(symbol, timeframe) ?? [];
+  const missing = findMissingRanges(cached, clampedRange, intervalMs);
+
+  let merged = cached;
+  if (missing.length > 0) {
+    const fetched: Candle[][] = [];
+    for (const gap of missing) {
+      fetched.push(await fetchMarketDataRange(timeframe, gap, symbol, onProgress));
+    }
+    merged = mergeCandles(cached, ...fetched).filter(c => c.time <= lastClosedOpen);
+    await putCachedCandles(symbol, timeframe, merged);
+    console.log(`✅ Cached ${merged.length} ${symbol} ${timeframe} candles`);
+  } else {
+    console.log(`✅ Served ${symbol} ${timeframe} candles from cache`);
+  }
+
+  return merged.filter(c => c.time >= clampedRange.start && c.time < clampedRange.end);
+};
+
+const KNOWN_QUOTE_ASSETS = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'USD', 'BTC', 'ETH', 'EUR'];
+
+/**
+ * Describe a symbol for display and sizing, e.g. 'ETHUSDT' -> ETH/USDT
+ * Unlisted symbols are split on a known quote asset suffix.
+ */
+export const getSymbolInfo = (symbol: string): SymbolInfo => {
+  const listed = SYMBOL_OPTIONS.find(option => option.symbol === symbol);
+  if (listed) return listed;
+
+  const quoteAsset = KNOWN_QUOTE_ASSETS.find(quote => symbol.endsWith(quote) && symbol.length > quote.length) ?? '';
+  const baseAsset = quoteAsset ? symbol.slice(0, -quoteAsset.length) : symbol;
+  return {
+    symbol,
+    label: quoteAsset ? `${baseAsset}/${quoteAsset}` : symbol,
+    baseAsset,
+    quoteAsset,
+  };
+};
+
+// ========== PROVIDERS ==========
+
+/**
+ * MEXC klines through the Vite proxy (the original data source)
+ */
+export const mexcMarketDataProvider: MarketDataProvider = {
+  id: 'mexc',
+  label: 'MEXC Exchange',
+  fetchCandles: ({ symbol, timeframe, range, onProgress }) =>
+    loadMarketDataRange(timeframe, resolveDateRange(timeframe, range), symbol, onProgress),
+};
+
+/**
+ * Offline provider serving candles that were loaded from a user-supplied file.
+ * The file is a single series, so the same candles are returned for every timeframe.
+ */
+export const createLocalMarketDataProvider = (
+  candles: Candle[],
+  label: string = 'Local File'
+): MarketDataProvider => ({
+  id: 'local',
+  label,
+  fetchCandles: async ({ range }) => {
+    if (candles.length === 0) {
+      throw new Error('No local market data loaded. Drop a CSV or JSON file onto the data source panel.');
+    }
+    return range ? candles.filter(c => c.time >= range.start && c.time < range.end) : candles;
+  },
+});
+
+// ========== FILE PARSING ==========
+
+const TIME_KEYS = ['time', 'timestamp', 'open_time', 'opentime', 'date', 'datetime'];
+const FIELD_KEYS = ['open', 'high', 'low', 'close'] as const;
+const VOLUME_KEYS = ['volume', 'vol', 'base_volume'];
+const QUOTE_VOLUME_KEYS = ['quote_volume', 'quotevolume', 'quote_asset_volume', 'quoteassetvolume'];
+const TRADES_KEYS = ['trades', 'count', 'number_of_trades', 'numberoftrades'];
+
+/**
+ * First finite number among the given keys, if any
+ */
+const pickNumber = (record: Record<string, unknown>, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    if (record[key] === undefined || record[key] === '') continue;
+    const value = Number(record[key]);
+    if (Number.isFinite(value)) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Convert a timestamp in seconds, milliseconds or ISO-8601 form to epoch milliseconds
+ */
+const parseTimestamp = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value < 1e12 ? value * 1000 : value; // Values below 1e12 are epoch seconds
+  }
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseTimestamp(Number(text));
+  }
+  return Date.parse(text);
+};
+
+/**
+ * Build a candle from a keyed record (CSV row or JSON object), or null if it is unusable
+ */
+const candleFromRecord = (record: Record<string, unknown>): Candle | null => {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    normalized[key.trim().toLowerCase()] = value;
+  }
+
+  const timeKey = TIME_KEYS.find(key => normalized[key] !== undefined && normalized[key] !== '');
+  if (!timeKey) return null;
+
+  const candle: Candle = {
+    time: parseTimestamp(normalized[timeKey]),
+    open: Number(normalized.open),
+    high: Number(normalized.high),
+    low: Number(normalized.low),
+    close: Number(normalized.close),
+    volume: pickNumber(normalized, VOLUME_KEYS) ?? 0,
+  };
+
+  const quoteVolume = pickNumber(normalized, QUOTE_VOLUME_KEYS);
+  if (quoteVolume !== undefined) candle.quoteVolume = quoteVolume;
+  const trades = pickNumber(normalized, TRADES_KEYS);
+  if (trades !== undefined) candle.trades = trades;
+
+  return Number.isFinite(candle.time) && FIELD_KEYS.every(key => Number.isFinite(candle[key]))
+    ? candle
+    : null;
+};
+
+/**
+ * Build a candle from an exchange-style kline array:
+ * [open_time, open, high, low, close, volume, close_time, quote_volume, trades]
+ */
+const candleFromArray = (row: unknown[]): Candle | null => {
+  if (row.length < 5) return null;
+  return candleFromRecord({
+    time: row[0] as number,
+    open: row[1],
+    high: row[2],
+    low: row[3],
+    close: row[4],
+    volume: row[5],
+    quote_volume: row[7],
+    trades: row[8],
+  });
+};
+
+const parseCsv = (text: string): Candle[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const firstRow = lines[0].split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+  const hasHeader = firstRow.some(cell => isNaN(Number(cell)) && Number.isNaN(Date.parse(cell)));
+
+  const rows = (hasHeader ? lines.slice(1) : lines).map(line =>
+    line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''))
+  );
+
+  if (!hasHeader) {
+    return rows.map(candleFromArray).filter((c): c is Candle => c !== null);
+  }
+
+  return rows
+    .map(cells => candleFromRecord(Object.fromEntries(firstRow.map((header, i) => [header, cells[i]]))))
+    .filter((c): c is Candle => c !== null);
+};
+
+const parseJson = (text: string, fileName: string): Candle[] => {
+  const parsed: unknown = JSON.parse(text);
+  // Accept a bare array or a wrapper object such as { candles: [...] } / { data: [...] }
+  const wrapper = parsed !== null && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  const rows = Array.isArray(parsed) ? parsed : wrapper?.candles ?? wrapper?.data ?? [];
+  if (!wrapper || !Array.isArray(rows)) {
+    throw new Error(`Unsupported JSON layout in ${fileName || 'input'}: expected an array of candles or { candles: [...] } / { data: [...] }`);
+  }
+
+  return rows
+    .map(row =>
+      Array.isArray(row) ? candleFromArray(row)
+        : row !== null && typeof row === 'object' ? candleFromRecord(row as Record<string, unknown>)
+        : null
+    )
+    .filter((c): c is Candle => c !== null);
+};
+
+/**
+ * Parse candles from CSV or JSON text.
+ * CSV may have a header (time/timestamp/date, open, high, low, close, optional volume) or use
+ * exchange column order. JSON may hold candle objects or kline arrays.
+ * @param text - Raw file contents
+ * @param fileName - Used to pick the format; falls back to sniffing the content
+ * @returns Candles sorted by time
+ */
+export const parseCandleText = (text: string, fileName: string = ''): Candle[] => {
+  const trimmed = text.trim();
+  const isJson = fileName.toLowerCase().endsWith('.json') ||
+    (!fileName.toLowerCase().endsWith('.csv') && (trimmed.startsWith('[') || trimmed.startsWith('{')));
+
+  const candles = isJson ? parseJson(trimmed, fileName) : parseCsv(trimmed);
+  if (candles.length === 0) {
+    throw new Error(`No valid candles found in ${fileName || 'input'}`);
+  }
+
+  return candles.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Read candles from a browser File (drag-and-drop or file picker)
+ */
+export const parseCandleFile = (file: File): Promise<Candle[]> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        resolve(parseCandleText(e.target?.result as string, file.name));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsText(file);
+  });
+};
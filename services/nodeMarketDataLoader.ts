@@ -0,0 +1,25 @@
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { Candle, MarketDataProvider } from '../types';
+import { parseCandleText, createLocalMarketDataProvider } from './marketDataService';
+
+/**
+ * Node-only market data loading.
+ * Kept out of marketDataService so the browser bundle never pulls in `fs`.
+ */
+
+/**
+ * Load candles from a CSV or JSON file on disk
+ */
+export const loadCandlesFromPath = async (filePath: string): Promise<Candle[]> => {
+  const text = await readFile(filePath, 'utf-8');
+  return parseCandleText(text, basename(filePath));
+};
+
+/**
+ * Create a local provider backed by a file on disk
+ */
+export const createFileMarketDataProvider = async (filePath: string): Promise<MarketDataProvider> => {
+  const candles = await loadCandlesFromPath(filePath);
+  return createLocalMarketDataProvider(candles, basename(filePath));
+};
@@ -0,0 +1,179 @@
+import type { Observer, ParetoPoint } from '../types';
+import { getForecast } from './forecastHorizonService';
+
+/**
+ * Multi-Objective Fitness
+ * NSGA-II ranking for the 'multi-objective' fitness mode. Instead of calculateFitness's fixed
+ * 0.3/0.5/0.2 blend, each observer is scored on four separate objectives:
+ * - Return: sum of the executed trade outcomes in its experience buffer (maximize)
+ * - Max drawdown: largest peak-to-trough fall of those outcomes' running sum (minimize)
+ * - Prediction error: forecast error at the elite horizon, as a fraction of the price (minimize)
+ * - Novelty: mean distance of its strategy genes to its nearest neighbours' (maximize)
+ * Observers are ranked by non-dominated front, then by crowding distance within a front.
+ * One member of the first front (the Pareto front) drives the guild's trading.
+ */
+
+const NOVELTY_NEIGHBOURS = 5;
+
+// ========== OBJECTIVES ==========
+
+const executedOutcomes = (obs: Observer): number[] =>
+  obs.experienceBuffer.filter(exp => exp.wasExecuted).map(exp => exp.outcome);
+
+const maxDrawdown = (outcomes: number[]): number => {
+  let equity = 0;
+  let peak = 0;
+  let drawdown = 0;
+  outcomes.forEach(outcome => {
+    equity += outcome;
+    peak = Math.max(peak, equity);
+    drawdown = Math.max(drawdown, peak - equity);
+  });
+  return drawdown;
+};
+
+const geneVector = (obs: Observer): number[] => Object.values(obs.strategyGenes);
+
+/**
+ * Mean distance of each observer's strategy genes to its `k` nearest neighbours
+ */
+export const behavioralNovelty = (observers: Observer[], k: number = NOVELTY_NEIGHBOURS): number[] => {
+  const vectors = observers.map(geneVector);
+  return vectors.map((vector, i) => {
+    const distances = vectors
+      .filter((_, j) => j !== i)
+      .map(other => Math.hypot(...vector.map((gene, g) => gene - other[g])))
+      .sort((a, b) => a - b)
+      .slice(0, k);
+    return distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0;
+  });
+};
+
+/**
+ * Objective values of every observer (front unassigned)
+ */
+export const calculateObjectives = (observers: Observer[], referencePrice: number, horizon: number = 1): ParetoPoint[] => {
+  const novelty = behavioralNovelty(observers);
+  return observers.map((obs, i) => {
+    const outcomes = executedOutcomes(obs);
+    const error = horizon <= 1 ? obs.error : getForecast(obs, horizon)?.error ?? obs.error;
+    return {
+      id: obs.id,
+      return: outcomes.reduce((sum, outcome) => sum + outcome, 0),
+      drawdown: maxDrawdown(outcomes),
+      error: error / referencePrice,
+      novelty: novelty[i],
+      front: 0,
+    };
+  });
+};
+
+// Every objective as a cost, so lower is better throughout
+const costs = (point: ParetoPoint): number[] => [-point.return, point.drawdown, point.error, -point.novelty];
+
+const dominates = (a: number[], b: number[]): boolean =>
+  a.every((value, i) => value <= b[i]) && a.some((value, i) => value < b[i]);
+
+// ========== NSGA-II ==========
+
+/**
+ * Fast non-dominated sort: front index of each cost vector (0 = non-dominated)
+ */
+export const nonDominatedSort = (vectors: number[][]): number[] => {
+  const dominatedBy = vectors.map(() => [] as number[]);
+  const dominationCount = vectors.map(() => 0);
+  vectors.forEach((a, i) => {
+    vectors.forEach((b, j) => {
+      if (i === j) return;
+      if (dominates(a, b)) dominatedBy[i].push(j);
+      else if (dominates(b, a)) dominationCount[i]++;
+    });
+  });
+
+  const fronts = vectors.map(() => 0);
+  let current = vectors.map((_, i) => i).filter(i => dominationCount[i] === 0);
+  let front = 0;
+  while (current.length > 0) {
+    const next: number[] = [];
+    current.forEach(i => {
+      fronts[i] = front;
+      dominatedBy[i].forEach(j => {
+        dominationCount[j]--;
+        if (dominationCount[j] === 0) next.push(j);
+      });
+    });
+    current = next;
+    front++;
+  }
+  return fronts;
+};
+
+/**
+ * Crowding distance of each vector within its front; a front's extremes get Infinity
+ */
+export const crowdingDistances = (vectors: number[][], fronts: number[]): number[] => {
+  const distances = vectors.map(() => 0);
+  const frontCount = Math.max(-1, ...fronts) + 1;
+  for (let front = 0; front < frontCount; front++) {
+    const members = fronts.map((f, i) => (f === front ? i : -1)).filter(i => i >= 0);
+    vectors[0]?.forEach((_, objective) => {
+      const sorted = [...members].sort((a, b) => vectors[a][objective] - vectors[b][objective]);
+      const span = vectors[sorted[sorted.length - 1]][objective] - vectors[sorted[0]][objective];
+      distances[sorted[0]] = Infinity;
+      distances[sorted[sorted.length - 1]] = Infinity;
+      if (span <= 0) return;
+      for (let k = 1; k < sorted.length - 1; k++) {
+        distances[sorted[k]] += (vectors[sorted[k + 1]][objective] - vectors[sorted[k - 1]][objective]) / span;
+      }
+    });
+  }
+  return distances;
+};
+
+/**
+ * Observers ranked by front, then by crowding distance (more isolated first). Each carries
+ * `fitness` = 1 / (1 + front) so fitness-weighted selection strategies still apply.
+ */
+export const rankByParetoDominance = (
+  observers: Observer[],
+  referencePrice: number,
+  horizon: number = 1
+): { ranked: Observer[]; points: ParetoPoint[] } => {
+  const objectives = calculateObjectives(observers, referencePrice, horizon);
+  const vectors = objectives.map(costs);
+  const fronts = nonDominatedSort(vectors);
+  const crowding = crowdingDistances(vectors, fronts);
+
+  const order = observers
+    .map((_, i) => i)
+    .sort((a, b) => fronts[a] - fronts[b] || crowding[b] - crowding[a]);
+
+  return {
+    ranked: order.map(i => ({ ...observers[i], fitness: 1 / (1 + fronts[i]) })),
+    points: objectives.map((point, i) => ({ ...point, front: fronts[i] })),
+  };
+};
+
+// ========== DRIVER ==========
+
+/**
+ * Pareto-front member closest to the ideal point, with each objective normalized across the front
+ */
+export const kneePoint = (front: ParetoPoint[]): ParetoPoint => {
+  const vectors = front.map(costs);
+  const mins = vectors[0].map((_, i) => Math.min(...vectors.map(v => v[i])));
+  const maxs = vectors[0].map((_, i) => Math.max(...vectors.map(v => v[i])));
+  const distances = vectors.map(vector =>
+    Math.hypot(...vector.map((value, i) => (maxs[i] > mins[i] ? (value - mins[i]) / (maxs[i] - mins[i]) : 0)))
+  );
+  return front[distances.indexOf(Math.min(...distances))];
+};
+
+/**
+ * Id of the front member that drives trading: the picked observer while it stays on the
+ * Pareto front, otherwise the knee point
+ */
+export const selectParetoDriver = (points: ParetoPoint[], pick: number | null): number => {
+  const front = points.filter(point => point.front === 0);
+  return front.find(point => point.id === pick)?.id ?? kneePoint(front).id;
+};
@@ -0,0 +1,132 @@
+import type { PrimeBasisConfig, EmbeddingKind } from '../types';
+
+/**
+ * Prime Basis
+ * Configurable basis of the Prime-Hilbert space and the registry of embeddings.
+ * - Basis: the moduli p an observer's prediction is embedded on (first N primes,
+ *   an explicit prime list, or the first N prime powers)
+ * - Embeddings: how a predicted price n becomes the integer whose residues mod p
+ *   give each amplitude and phase, and which the collective phase vector tracks
+ */
+
+const LOG_PRICE_SCALE = 1000; // ln-price units per integer step (~0.1%)
+const RETURN_SCALE = 10_000; // Basis points
+const MULTI_SCALE_RESOLUTIONS = [0.0001, 0.001, 0.01]; // Fractions of the reference price, cycled across the basis
+
+// ========== BASIS ==========
+
+export const isPrime = (value: number): boolean => {
+  if (!Number.isInteger(value) || value < 2) return false;
+  for (let d = 2; d * d <= value; d++) {
+    if (value % d === 0) return false;
+  }
+  return true;
+};
+
+/**
+ * First `count` primes: 2, 3, 5, 7, 11…
+ */
+export const firstPrimes = (count: number): number[] => {
+  const primes: number[] = [];
+  for (let candidate = 2; primes.length < count; candidate++) {
+    if (isPrime(candidate)) primes.push(candidate);
+  }
+  return primes;
+};
+
+const firstFactor = (value: number): number => {
+  for (let d = 2; d * d <= value; d++) {
+    if (value % d === 0) return d;
+  }
+  return value;
+};
+
+/**
+ * First `count` prime powers p^k (k ≥ 1): 2, 3, 4, 5, 7, 8, 9, 11, 13, 16…
+ */
+export const firstPrimePowers = (count: number): number[] => {
+  const powers: number[] = [];
+  for (let candidate = 2; powers.length < count; candidate++) {
+    const smallestFactor = firstFactor(candidate);
+    let rest = candidate;
+    while (rest % smallestFactor === 0) rest /= smallestFactor;
+    if (rest === 1) powers.push(candidate);
+  }
+  return powers;
+};
+
+/**
+ * Resolve a basis configuration to its sorted, distinct moduli
+ * @throws when an explicit list holds a non-prime or the basis would be empty
+ */
+export const resolvePrimeBasis = (config: PrimeBasisConfig): number[] => {
+  const count = Math.max(1, Math.floor(config.count));
+  switch (config.kind) {
+    case 'first-n':
+      return firstPrimes(count);
+    case 'prime-powers':
+      return firstPrimePowers(count);
+    case 'explicit': {
+      const invalid = config.primes.filter(p => !isPrime(p));
+      if (invalid.length > 0) {
+        throw new Error(`Prime basis contains non-primes: ${invalid.join(', ')}`);
+      }
+      const primes = [...new Set(config.primes)].sort((a, b) => a - b);
+      if (primes.length === 0) {
+        throw new Error('Prime basis must contain at least one prime');
+      }
+      return primes;
+    }
+  }
+};
+
+/**
+ * Parse a comma/space separated list of numbers (e.g. "2, 3, 5, 7")
+ */
+export const parsePrimeList = (text: string): number[] =>
+  text.split(/[\s,]+/).filter(Boolean).map(Number).filter(Number.isFinite);
+
+// ========== EMBEDDINGS ==========
+
+export interface EmbeddingDefinition {
+  description: string;
+  /**
+   * Integer encoding prediction `n` for the basis modulus at `index`;
+   * `referencePrice` is the price the prediction was made from
+   */
+  toInteger: (n: number, referencePrice: number, index: number) => number;
+}
+
+export const EMBEDDINGS: Record<EmbeddingKind, EmbeddingDefinition> = {
+  price: {
+    description: 'The predicted price rounded to an integer (the original Ψ(n))',
+    toInteger: (n) => Math.round(n),
+  },
+  'log-price': {
+    description: 'Log price in ~0.1% steps, so residues mean the same on every price level',
+    toInteger: (n) => Math.round(Math.log(Math.max(n, Number.MIN_VALUE)) * LOG_PRICE_SCALE),
+  },
+  returns: {
+    description: 'Predicted return from the reference price in basis points',
+    toInteger: (n, referencePrice) => Math.round((n / referencePrice - 1) * RETURN_SCALE),
+  },
+  'multi-scale': {
+    description: 'Price integerized at a resolution that cycles across the basis (0.01%, 0.1%, 1% of the reference price)',
+    toInteger: (n, referencePrice, index) =>
+      Math.round(n / (referencePrice * MULTI_SCALE_RESOLUTIONS[index % MULTI_SCALE_RESOLUTIONS.length])),
+  },
+};
+
+/**
+ * Residue of the embedded integer modulo `modulus`, always in [0, modulus)
+ */
+export const embeddingResidue = (
+  embedding: EmbeddingKind,
+  n: number,
+  referencePrice: number,
+  modulus: number,
+  index: number
+): number => {
+  const value = EMBEDDINGS[embedding].toInteger(n, referencePrice, index);
+  return ((value % modulus) + modulus) % modulus;
+};
@@ -0,0 +1,211 @@
+import type { Observer, ScoringRule, PredictiveDistribution, IntervalCalibration, RewardFunctionConfig } from '../types';
+import { PREDICTIVE_INTERVAL_LEVEL, DEFAULT_SIMULATION_PARAMS } from '../constants';
+import { calculatePointReward } from './rewardFunctionService';
+import type { Random } from './randomService';
+
+/**
+ * Probabilistic Forecasts
+ * Observers predict a Gaussian N(n, scale²) for the next close instead of a point.
+ * - Proper scoring rules (CRPS, log score, pinball loss) turn a forecast and the actual
+ *   close into a reward. Each score is normalized against a reference scale σ₀ set by the
+ *   reward function's scale (a percentage of the price, widening with √horizon) and mapped
+ *   affinely, without caps, so the forecast with the best expected score also earns the best
+ *   expected reward and evolved scales settle on the data's spread rather than on σ₀.
+ *   Rewards run 1 (a sharp, centred forecast) to 0 (a normalized score of SCORE_SPAN) and
+ *   can leave that range at either end.
+ * - The population's forecasts combine into a predictive distribution whose interval width
+ *   is calibrated online against the coverage of earlier intervals.
+ */
+
+const MIN_SCALE_FRACTION = 0.0001; // Scales never shrink below 0.01% of the price
+const CALIBRATION_RATE = 0.05; // Step size of the online interval-width correction
+const PINBALL_QUANTILES = [0.1, 0.5, 0.9];
+const SCORE_SPAN = 4; // Normalized score (in σ₀ or nats) at which the reward reaches 0
+
+// ========== GAUSSIAN HELPERS ==========
+
+const normalPdf = (z: number): number => Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+/**
+ * Standard normal quantile by bisection on the CDF
+ */
+export const normalQuantile = (p: number): number => {
+  let lo = -10;
+  let hi = 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (normalCdf(mid) < p) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+const PINBALL_Z = PINBALL_QUANTILES.map(normalQuantile);
+
+/**
+ * Reference scale σ₀ in price units: `scalePct` percent of the price, widened by √horizon
+ */
+export const referenceScale = (price: number, horizon: number = 1, scalePct: number = DEFAULT_SIMULATION_PARAMS.rewardFunction.scale): number =>
+  price * (scalePct / 100) * Math.sqrt(horizon);
+
+export const clampScale = (scale: number, price: number): number => Math.max(scale, price * MIN_SCALE_FRACTION);
+
+// ========== SCORING RULES ==========
+
+/**
+ * Continuous ranked probability score of N(mean, scale²) at `actual` (price units, lower is better)
+ */
+export const crps = (mean: number, scale: number, actual: number): number => {
+  const z = (actual - mean) / scale;
+  return scale * (z * (2 * normalCdf(z) - 1) + 2 * normalPdf(z) - 1 / Math.sqrt(Math.PI));
+};
+
+/**
+ * Negative log density of N(mean, scale²) at `actual` (lower is better)
+ */
+export const logScore = (mean: number, scale: number, actual: number): number => {
+  const z = (actual - mean) / scale;
+  return 0.5 * Math.log(2 * Math.PI * scale * scale) + 0.5 * z * z;
+};
+
+/**
+ * Average pinball (quantile) loss of the forecast's 10%, 50% and 90% quantiles (price units)
+ */
+export const pinballLoss = (mean: number, scale: number, actual: number): number =>
+  PINBALL_QUANTILES.reduce((sum, tau, i) => {
+    const diff = actual - (mean + scale * PINBALL_Z[i]);
+    return sum + diff * (tau - (diff < 0 ? 1 : 0));
+  }, 0) / PINBALL_QUANTILES.length;
+
+// Affine in the score, so averaging rewards ranks forecasts exactly like averaging scores
+const affineReward = (normalizedScore: number): number => 1 - normalizedScore / SCORE_SPAN;
+
+/**
+ * Reward for a forecast N(mean, scale²) made from `referencePrice`, `horizon` candles before
+ * `actual`, under `rule` (distributional rules are uncapped); 'squared-error' ignores the
+ * scale and scores the mean with the point reward function
+ */
+export const scoreForecast = (
+  rule: ScoringRule,
+  mean: number,
+  scale: number,
+  actual: number,
+  referencePrice: number,
+  rewardFunction: RewardFunctionConfig,
+  horizon: number = 1
+): { reward: number; error: number } => {
+  const error = Math.abs(mean - actual);
+  const sigma0 = referenceScale(actual, horizon, rewardFunction.scale);
+  const safeScale = clampScale(scale, actual);
+
+  switch (rule) {
+    case 'squared-error':
+      return calculatePointReward(rewardFunction, { prediction: mean, actual, referencePrice, horizon });
+    case 'crps':
+      // CRPS reduces to |error| for a point forecast
+      return { reward: affineReward(crps(mean, safeScale, actual) / sigma0), error };
+    case 'log-score': {
+      // Log score in excess of a perfectly centred forecast at the reference scale (nats)
+      const excess = logScore(mean, safeScale, actual) - logScore(actual, sigma0, actual);
+      return { reward: affineReward(excess), error };
+    }
+    case 'pinball':
+      // The symmetric quantile set averages to |error| / 2 for a point forecast
+      return { reward: affineReward((2 * pinballLoss(mean, safeScale, actual)) / sigma0), error };
+  }
+};
+
+export const isDistributional = (rule: ScoringRule): boolean => rule !== 'squared-error';
+
+// ========== SCALE EVOLUTION ==========
+
+/**
+ * Starting scale for a new observer: around the reference scale for `scalePct`, spread out
+ * when the scale is scored (without drawing randomness when it is not)
+ */
+export const createScale = (price: number, rule: ScoringRule, scalePct: number, random: Random = Math.random): number =>
+  isDistributional(rule) ? referenceScale(price, 1, scalePct) * (0.5 + random() * 1.5) : referenceScale(price, 1, scalePct);
+
+/**
+ * Move a scale toward the target elite's and mutate it multiplicatively
+ */
+export const evolveScale = (
+  scale: number,
+  targetScale: number | null,
+  moveProbability: number,
+  mutationRate: number,
+  price: number,
+  random: Random = Math.random
+): number => {
+  let evolved = scale;
+  if (targetScale !== null && random() < moveProbability) {
+    evolved += (targetScale - evolved) * random() * 0.5;
+  }
+  if (random() < mutationRate) {
+    evolved *= Math.exp(random() - 0.5);
+  }
+  return clampScale(evolved, price);
+};
+
+// ========== PREDICTIVE DISTRIBUTION ==========
+
+export const createCalibration = (): IntervalCalibration => ({ factor: 1, hits: 0, total: 0 });
+
+/**
+ * Moment-matched mixture of the observers' forecasts, widened by the calibration factor
+ */
+export const calculatePredictiveDistribution = (
+  observers: Observer[],
+  referencePrice: number,
+  calibration: IntervalCalibration,
+  level: number = PREDICTIVE_INTERVAL_LEVEL
+): PredictiveDistribution => {
+  const mean = observers.reduce((sum, obs) => sum + obs.n, 0) / observers.length;
+  const variance = observers.reduce((sum, obs) => sum + obs.scale * obs.scale + (obs.n - mean) ** 2, 0) / observers.length;
+  const scale = clampScale(Math.sqrt(variance) * calibration.factor, referencePrice);
+  const z = normalQuantile(0.5 + level / 2);
+
+  return {
+    mean,
+    scale,
+    level,
+    lower: mean - z * scale,
+    upper: mean + z * scale,
+    referencePrice,
+    probabilityUp: 1 - normalCdf((referencePrice - mean) / scale),
+  };
+};
+
+/**
+ * Score the interval issued last step against the close it forecast: misses widen future
+ * intervals and hits narrow them, so coverage settles at the nominal level
+ */
+export const updateCalibration = (
+  calibration: IntervalCalibration,
+  issued: PredictiveDistribution | null,
+  actualClose: number
+): IntervalCalibration => {
+  if (!issued) return calibration;
+  const hit = actualClose >= issued.lower && actualClose <= issued.upper;
+  const missRate = hit ? 0 : 1;
+  return {
+    factor: calibration.factor * Math.exp(CALIBRATION_RATE * (missRate - (1 - issued.level))),
+    hits: calibration.hits + (hit ? 1 : 0),
+    total: calibration.total + 1,
+  };
+};
+
+/**
+ * Probability the next close moves in `direction` from the forecast's reference price
+ */
+export const directionProbability = (predictive: PredictiveDistribution, direction: 'UP' | 'DOWN'): number =>
+  direction === 'UP' ? predictive.probabilityUp : 1 - predictive.probabilityUp;
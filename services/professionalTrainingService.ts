@@ -1,5 +1,8 @@
-import type { Observer, EpochMetrics, ModelCheckpoint, SimulationParams, Timeframe } from '../types';
+import type { Observer, EpochMetrics, ModelCheckpoint, SimulationParams, Timeframe, SelectionStrategy, QualityDiversityArchive } from '../types';
 import { calculateFitness } from './evolutionaryLearningService';
+import { referenceScale } from './probabilisticForecastService';
+import type { Random } from './randomService';
+import { DEFAULT_SIMULATION_PARAMS } from '../constants';
 
 /**
  * Professional Training Service
@@ -24,7 +27,8 @@ export const saveModel = (
   observers: Observer[],
   metrics: EpochMetrics[],
   params: SimulationParams,
-  totalEpochs: number
+  totalEpochs: number,
+  archive: QualityDiversityArchive | null
 ): void => {
   const checkpoint: ModelCheckpoint = {
     version: '1.0',
@@ -33,16 +37,47 @@ export const saveModel = (
     trainingMetrics: metrics,
     params,
     totalEpochs,
+    seed: params.seed,
+    archive,
   };
   
   try {
     localStorage.setItem(MODEL_STORAGE_KEY, JSON.stringify(checkpoint));
-    console.log(`✅ Model saved: ${observers.length} observers, ${metrics.length} epochs`);
+    console.log(`✅ Model saved: ${observers.length} observers, ${metrics.length} epochs (${params.symbol})`);
   } catch (error) {
     console.error('❌ Failed to save model:', error);
   }
 };
 
+/**
+ * Fill in fields added after a checkpoint was written so older models keep working
+ */
+export const normalizeCheckpoint = (checkpoint: ModelCheckpoint): ModelCheckpoint => ({
+  ...checkpoint,
+  seed: checkpoint.seed ?? checkpoint.params?.seed ?? DEFAULT_SIMULATION_PARAMS.seed, // Models before seeded runs had no seed
+  archive: checkpoint.archive ?? null, // Models before quality diversity kept no archive
+  params: {
+    ...checkpoint.params,
+    symbol: checkpoint.params?.symbol ?? 'BTCUSDT', // Models before multi-symbol support were BTC-only
+    seed: checkpoint.params?.seed ?? checkpoint.seed ?? DEFAULT_SIMULATION_PARAMS.seed,
+    primeBasis: checkpoint.params?.primeBasis ?? DEFAULT_SIMULATION_PARAMS.primeBasis, // Models before configurable bases used the first 30 primes
+    embedding: checkpoint.params?.embedding ?? DEFAULT_SIMULATION_PARAMS.embedding,
+  },
+  observers: checkpoint.observers.map(obs => ({
+    ...obs,
+    strategyGenes: {
+      ...obs.strategyGenes,
+      volumeSensitivity: obs.strategyGenes.volumeSensitivity ?? 0.5,
+    },
+    forecasts: obs.forecasts ?? [], // Models before multi-horizon forecasts only forecast the next candle
+    scale: obs.scale ?? referenceScale(obs.n, 1, checkpoint.params?.rewardFunction?.scale), // Models before probabilistic observers made point forecasts
+    parentId: obs.parentId ?? null, // Models before the lifecycle treat every observer as a founder
+    lineageId: obs.lineageId ?? obs.id,
+    generation: obs.generation ?? 0,
+    lowFitnessSteps: obs.lowFitnessSteps ?? 0,
+  })),
+});
+
 /**
  * Load trained model from localStorage
  */
@@ -51,7 +86,7 @@ export const loadModel = (): ModelCheckpoint | null => {
     const stored = localStorage.getItem(MODEL_STORAGE_KEY);
     if (!stored) return null;
     
-    const checkpoint: ModelCheckpoint = JSON.parse(stored);
+    const checkpoint = normalizeCheckpoint(JSON.parse(stored));
     console.log(`✅ Model loaded: ${checkpoint.observers.length} observers, trained for ${checkpoint.totalEpochs} epochs`);
     return checkpoint;
   } catch (error) {
@@ -83,7 +118,7 @@ export const importModel = (file: File): Promise<ModelCheckpoint> => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const checkpoint: ModelCheckpoint = JSON.parse(e.target?.result as string);
+        const checkpoint = normalizeCheckpoint(JSON.parse(e.target?.result as string));
         resolve(checkpoint);
       } catch (error) {
         reject(error);
@@ -138,7 +173,8 @@ export const calculateEpochMetrics = (
   losingTrades: number,
   totalPnL: number,
   sharpeRatio: number | undefined,
-  maxDrawdown: number
+  maxDrawdown: number,
+  selectionStrategy: SelectionStrategy
 ): EpochMetrics => {
   const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
   
@@ -158,6 +194,7 @@ export const calculateEpochMetrics = (
     totalTrades,
     avgFitness,
     diversityScore,
+    selectionStrategy,
   };
 };
 
@@ -232,7 +269,7 @@ export const calculateObserverDiversity = (observers: Observer[]): number => {
   if (observers.length === 0) return 0;
   
   // Calculate variance for each strategy gene
-  const genes = ['riskTolerance', 'trendFollowing', 'volatilityPreference', 'holdingBias'] as const;
+  const genes = ['riskTolerance', 'trendFollowing', 'volatilityPreference', 'holdingBias', 'volumeSensitivity'] as const;
   
   let totalVariance = 0;
   
@@ -255,7 +292,8 @@ export const calculateObserverDiversity = (observers: Observer[]): number => {
 export const maintainDiversity = (
   observers: Observer[],
   minDiversity: number = 0.3,
-  perturbationStrength: number = 0.2
+  perturbationStrength: number = 0.2,
+  random: Random = Math.random
 ): Observer[] => {
   const currentDiversity = calculateObserverDiversity(observers);
   
@@ -281,16 +319,19 @@ export const maintainDiversity = (
       ...obs,
       strategyGenes: {
         riskTolerance: Math.max(0, Math.min(1,
-          obs.strategyGenes.riskTolerance + (Math.random() - 0.5) * perturbationStrength
+          obs.strategyGenes.riskTolerance + (random() - 0.5) * perturbationStrength
         )),
         trendFollowing: Math.max(0, Math.min(1,
-          obs.strategyGenes.trendFollowing + (Math.random() - 0.5) * perturbationStrength
+          obs.strategyGenes.trendFollowing + (random() - 0.5) * perturbationStrength
         )),
         volatilityPreference: Math.max(0, Math.min(1,
-          obs.strategyGenes.volatilityPreference + (Math.random() - 0.5) * perturbationStrength
+          obs.strategyGenes.volatilityPreference + (random() - 0.5) * perturbationStrength
         )),
         holdingBias: Math.max(-1, Math.min(1,
-          obs.strategyGenes.holdingBias + (Math.random() - 0.5) * perturbationStrength * 2
+          obs.strategyGenes.holdingBias + (random() - 0.5) * perturbationStrength * 2
+        )),
+        volumeSensitivity: Math.max(0, Math.min(1,
+          obs.strategyGenes.volumeSensitivity + (random() - 0.5) * perturbationStrength
         )),
       },
     };
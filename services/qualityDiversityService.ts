@@ -0,0 +1,125 @@
+import type { Observer, Guild, BehaviorDescriptorKind, QualityDiversityArchive, QualityDiversityConfig } from '../types';
+import { calculateFitness } from './evolutionaryLearningService';
+import { spawnOffspring } from './lifecycleService';
+import type { Random } from './randomService';
+
+/**
+ * Quality-Diversity Archive (MAP-Elites)
+ * A grid over two behaviour descriptors, each scaled to 0-1:
+ * - 'trading-style': trade frequency (share of non-HOLD proposals) × average holding time
+ *   (mean run of the same BUY/SELL proposal, up to MAX_HOLDING_STEPS)
+ * - 'strategy-genes': trendFollowing × riskTolerance
+ * Each cell keeps the fittest observer that ever landed in it during the run. Seeding replaces
+ * a guild's weakest observer with offspring of a random cell, so strategies that lost out in
+ * the population can come back.
+ */
+
+const MAX_HOLDING_STEPS = 20;
+
+// ========== BEHAVIOUR DESCRIPTORS ==========
+
+const tradeFrequency = (obs: Observer): number =>
+  obs.experienceBuffer.length > 0
+    ? obs.experienceBuffer.filter(exp => exp.action !== 'HOLD').length / obs.experienceBuffer.length
+    : 0;
+
+const averageHoldingTime = (obs: Observer): number => {
+  const runs: number[] = [];
+  obs.experienceBuffer.forEach((exp, i) => {
+    if (exp.action === 'HOLD') return;
+    if (i > 0 && obs.experienceBuffer[i - 1].action === exp.action) runs[runs.length - 1]++;
+    else runs.push(1);
+  });
+  if (runs.length === 0) return 0;
+  const mean = runs.reduce((sum, run) => sum + run, 0) / runs.length;
+  return Math.min(1, (mean - 1) / (MAX_HOLDING_STEPS - 1));
+};
+
+/**
+ * Position of an observer in behaviour space, each axis in [0, 1]
+ */
+export const behaviorDescriptor = (obs: Observer, kind: BehaviorDescriptorKind): [number, number] =>
+  kind === 'trading-style'
+    ? [tradeFrequency(obs), averageHoldingTime(obs)]
+    : [obs.strategyGenes.trendFollowing, obs.strategyGenes.riskTolerance];
+
+export const archiveCellKey = (x: number, y: number): string => `${x},${y}`;
+
+const cellOf = (descriptor: [number, number], bins: number): string =>
+  archiveCellKey(
+    Math.min(bins - 1, Math.floor(descriptor[0] * bins)),
+    Math.min(bins - 1, Math.floor(descriptor[1] * bins))
+  );
+
+// ========== ARCHIVE ==========
+
+export const createArchive = (config: QualityDiversityConfig): QualityDiversityArchive => ({
+  descriptor: config.descriptor,
+  bins: config.bins,
+  cells: {},
+});
+
+/**
+ * Whether an archive was built on the grid `config` asks for
+ */
+export const archiveMatches = (archive: QualityDiversityArchive | null, config: QualityDiversityConfig): boolean =>
+  !!archive && archive.descriptor === config.descriptor && archive.bins === config.bins;
+
+/**
+ * File each observer in its cell if it beats the cell's occupant. Archived copies drop their
+ * experience and forecasts, and keep their prediction as a return from `referencePrice`.
+ */
+export const updateArchive = (
+  archive: QualityDiversityArchive,
+  observers: Observer[],
+  referencePrice: number,
+  timeStep: number
+): QualityDiversityArchive => {
+  let cells = archive.cells;
+  observers.forEach(obs => {
+    const key = cellOf(behaviorDescriptor(obs, archive.descriptor), archive.bins);
+    const fitness = calculateFitness(obs);
+    if (cells[key] && cells[key].fitness >= fitness) return;
+    if (cells === archive.cells) cells = { ...cells }; // Copy once, on the first change
+    cells[key] = {
+      observer: { ...obs, experienceBuffer: [], forecasts: [] },
+      fitness,
+      relativeN: obs.n / referencePrice - 1,
+      timeStep,
+    };
+  });
+  return cells === archive.cells ? archive : { ...archive, cells };
+};
+
+/**
+ * Cells filled and the sum of their fitness (the QD score)
+ */
+export const archiveSummary = (archive: QualityDiversityArchive): { filled: number; qdScore: number } => {
+  const entries = Object.values(archive.cells);
+  return { filled: entries.length, qdScore: entries.reduce((sum, entry) => sum + entry.fitness, 0) };
+};
+
+// ========== SEEDING ==========
+
+/**
+ * With probability `seedRate`, replace the guild's weakest observer with offspring of a random
+ * archive cell. The child takes over the slot's id and forecasts and predicts the archived
+ * return from `referencePrice`.
+ */
+export const seedFromArchive = (
+  guild: Guild,
+  archive: QualityDiversityArchive,
+  seedRate: number,
+  referencePrice: number,
+  random: Random = Math.random
+): Guild => {
+  const keys = Object.keys(archive.cells);
+  if (keys.length === 0 || guild.observers.length === 0 || random() >= seedRate) return guild;
+
+  const entry = archive.cells[keys[Math.floor(random() * keys.length)]];
+  const weakest = guild.observers.reduce((worst, obs) => (calculateFitness(obs) < calculateFitness(worst) ? obs : worst));
+  const parent = { ...entry.observer, n: referencePrice * (1 + entry.relativeN) };
+  const child = { ...spawnOffspring(parent, weakest.id, referencePrice, random), forecasts: weakest.forecasts };
+
+  return { ...guild, observers: guild.observers.map(obs => (obs.id === weakest.id ? child : obs)) };
+};
@@ -0,0 +1,42 @@
+/**
+ * Seeded Randomness
+ * Every random draw in the simulation goes through a `Random` so a run is fully
+ * determined by its seed and data. Services take a `random` argument that defaults
+ * to Math.random, keeping ad-hoc callers working unchanged.
+ */
+
+/**
+ * Uniform [0, 1) source. Math.random satisfies this too.
+ */
+export type Random = () => number;
+
+/**
+ * Seeded generator whose position can be saved and restored (for snapshots and checkpoints)
+ */
+export interface SeededRandom {
+  (): number;
+  getState: () => number;
+  setState: (state: number) => void;
+}
+
+/**
+ * Mulberry32 PRNG - small, fast and fully determined by its 32-bit state
+ */
+export const createRandom = (seed: number): SeededRandom => {
+  let state = seed >>> 0;
+
+  const random = (() => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }) as SeededRandom;
+
+  random.getState = () => state;
+  random.setState = (next: number) => {
+    state = next >>> 0;
+  };
+
+  return random;
+};
@@ -0,0 +1,137 @@
+import type { Candle, Timeframe, DateRange, MarketDataProvider, MarketRegime } from '../types';
+import { TIMEFRAME_MS, DEFAULT_CANDLE_COUNT } from '../constants';
+
+/**
+ * Timeframe Resampling
+ * Builds coarser OHLC candles from one finer base series (e.g. 5m/15m/1h/4h/1d from 1m),
+ * so every training timeframe covers the same calendar window and offline data that only
+ * exists at one resolution can drive multi-timeframe runs.
+ * Buckets are aligned to UTC multiples of the target interval, matching exchange candles.
+ */
+
+const MAX_BASE_CANDLES = 100_000; // Caps the default window on fine bases (about 69 days of 1m candles)
+
+/**
+ * Whether `target` candles can be built from `base` candles (target interval is a whole multiple)
+ */
+export const canResample = (base: Timeframe, target: Timeframe): boolean =>
+  TIMEFRAME_MS[target] >= TIMEFRAME_MS[base] && TIMEFRAME_MS[target] % TIMEFRAME_MS[base] === 0;
+
+/**
+ * Aggregate one bucket of base candles (already in time order) into a single candle
+ */
+const aggregateBucket = (bucketTime: number, targetMs: number, candles: Candle[]): Candle => {
+  const candle: Candle = {
+    time: bucketTime,
+    open: candles[0].open,
+    high: Math.max(...candles.map(c => c.high)),
+    low: Math.min(...candles.map(c => c.low)),
+    close: candles[candles.length - 1].close,
+    volume: candles.reduce((sum, c) => sum + c.volume, 0),
+    closeTime: bucketTime + targetMs - 1,
+  };
+  if (candles.every(c => c.quoteVolume !== undefined)) {
+    candle.quoteVolume = candles.reduce((sum, c) => sum + (c.quoteVolume ?? 0), 0);
+  }
+  if (candles.every(c => c.trades !== undefined)) {
+    candle.trades = candles.reduce((sum, c) => sum + (c.trades ?? 0), 0);
+  }
+  if (candles.every(c => c.regime !== undefined)) {
+    // Label the bucket with the regime most of its candles were generated in
+    const counts = new Map<MarketRegime, number>();
+    candles.forEach(c => counts.set(c.regime, (counts.get(c.regime) ?? 0) + 1));
+    candle.regime = [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+  }
+  return candle;
+};
+
+/**
+ * Resample a base series into `target` candles.
+ * Partial buckets at either end of the series are dropped because their OHLC would
+ * misrepresent the full interval; buckets with holes in the middle are kept.
+ */
+export const resampleCandles = (candles: Candle[], base: Timeframe, target: Timeframe): Candle[] => {
+  if (base === target) return candles;
+  if (!canResample(base, target)) {
+    throw new Error(`Cannot build ${target} candles from ${base} data`);
+  }
+
+  const targetMs = TIMEFRAME_MS[target];
+  const candlesPerBucket = targetMs / TIMEFRAME_MS[base];
+
+  const buckets = new Map<number, Candle[]>();
+  for (const candle of [...candles].sort((a, b) => a.time - b.time)) {
+    const bucketTime = Math.floor(candle.time / targetMs) * targetMs;
+    const bucket = buckets.get(bucketTime);
+    if (bucket) {
+      bucket.push(candle);
+    } else {
+      buckets.set(bucketTime, [candle]);
+    }
+  }
+
+  const entries = Array.from(buckets.entries());
+  return entries
+    .filter(([, bucket], i) => {
+      const isEdge = i === 0 || i === entries.length - 1;
+      return !isEdge || bucket.length === candlesPerBucket;
+    })
+    .map(([bucketTime, bucket]) => aggregateBucket(bucketTime, targetMs, bucket));
+};
+
+/**
+ * Latest window holding DEFAULT_CANDLE_COUNT `target` candles, capped at MAX_BASE_CANDLES
+ * `base` candles and aligned to the target interval so no bucket is cut short
+ */
+export const defaultBaseRange = (base: Timeframe, target: Timeframe, now: number = Date.now()): DateRange => {
+  const targetMs = TIMEFRAME_MS[target];
+  const spanMs = Math.min(DEFAULT_CANDLE_COUNT * targetMs, MAX_BASE_CANDLES * TIMEFRAME_MS[base]);
+  const end = Math.floor(now / targetMs) * targetMs; // Open time of the still-forming target candle
+  return { start: end - Math.floor(spanMs / targetMs) * targetMs, end };
+};
+
+/**
+ * Wrap a provider so every timeframe is resampled from one base-timeframe series.
+ * The base series is memoized per symbol/range, so cycling timeframes during training
+ * downloads it once and every epoch sees the same calendar window.
+ * Without a date range the window is sized for the coarsest of `timeframes` (the set a run
+ * cycles through) and the requested timeframe; local files are always used whole.
+ */
+export const createResamplingMarketDataProvider = (
+  baseProvider: MarketDataProvider,
+  baseTimeframe: Timeframe,
+  timeframes: Timeframe[] = []
+): MarketDataProvider => {
+  let memo: { key: string; candles: Promise<Candle[]> } | null = null;
+
+  const resolveBaseRange = (timeframe: Timeframe, range: DateRange | undefined): DateRange | undefined => {
+    if (range || baseProvider.id === 'local') return range;
+    const coarsest = [timeframe, ...timeframes].reduce((a, b) => (TIMEFRAME_MS[b] > TIMEFRAME_MS[a] ? b : a));
+    return defaultBaseRange(baseTimeframe, coarsest);
+  };
+
+  const loadBase = (symbol: string, range: DateRange | undefined, onProgress?: (candlesLoaded: number) => void): Promise<Candle[]> => {
+    const key = `${symbol}:${range ? `${range.start}-${range.end}` : 'all'}`;
+    if (memo?.key !== key) {
+      const candles = baseProvider.fetchCandles({ symbol, timeframe: baseTimeframe, range, onProgress });
+      memo = { key, candles };
+      candles.catch(() => {
+        if (memo?.key === key) memo = null; // Let the next request retry
+      });
+    }
+    return memo.candles;
+  };
+
+  return {
+    id: baseProvider.id,
+    label: `${baseProvider.label} · resampled from ${baseTimeframe}`,
+    fetchCandles: async ({ symbol, timeframe, range, onProgress }) => {
+      if (!canResample(baseTimeframe, timeframe)) {
+        throw new Error(`Cannot build ${timeframe} candles from ${baseTimeframe} data; pick a base timeframe that divides it`);
+      }
+      const baseCandles = await loadBase(symbol, resolveBaseRange(timeframe, range), onProgress);
+      const resampled = resampleCandles(baseCandles, baseTimeframe, timeframe);
+      return range ? resampled.filter(c => c.time >= range.start && c.time < range.end) : resampled;
+    },
+  };
+};
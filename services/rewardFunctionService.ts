@@ -0,0 +1,108 @@
+import type { Observer, RewardFunctionKind, RewardFunctionConfig } from '../types';
+import { calculateReward } from './simulationService';
+
+/**
+ * Reward Functions
+ * Turn a point forecast and the close it targeted into the 0-1 reward that drives selection.
+ * Every function except 'legacy' works on percentages of the price, so selection pressure
+ * is the same at every price level. `scale` (in percent) sets how quickly each one saturates;
+ * it widens with √horizon because returns do.
+ */
+
+export interface RewardInput {
+  prediction: number;
+  actual: number;
+  referencePrice: number; // Close the forecast was made from
+  horizon: number; // Candles between referencePrice and actual
+}
+
+export interface RewardFunctionDefinition {
+  description: string;
+  /**
+   * Reward in 0-1 given the prediction error, predicted move and realised move (all in percent
+   * of the price) and the horizon-adjusted scale
+   */
+  reward: (moves: { errorPct: number; predictedPct: number; actualPct: number }, scale: number, input: RewardInput) => number;
+}
+
+const gaussian = (errorPct: number, scale: number): number => Math.exp(-0.5 * (errorPct / scale) ** 2);
+
+export const REWARD_FUNCTIONS: Record<RewardFunctionKind, RewardFunctionDefinition> = {
+  legacy: {
+    description: 'exp(-10·error²/price) in price units (the original reward; ignores the scale)',
+    reward: (_moves, _scale, { prediction, actual, horizon }) => calculateReward(prediction, actual, horizon).reward,
+  },
+  gaussian: {
+    description: 'Gaussian in the percentage error: exp(-½(error/scale)²)',
+    reward: ({ errorPct }, scale) => gaussian(errorPct, scale),
+  },
+  laplacian: {
+    description: 'Laplacian in the percentage error: exp(-|error|/scale), heavier tails than the Gaussian',
+    reward: ({ errorPct }, scale) => Math.exp(-errorPct / scale),
+  },
+  directional: {
+    description: 'Direction hit, graded by conviction: predicted moves near the scale earn the full hit (or miss)',
+    reward: ({ predictedPct, actualPct }, scale) => 0.5 + 0.5 * Math.sign(actualPct) * Math.tanh(predictedPct / scale),
+  },
+  'return-sign': {
+    description: 'Gaussian percentage-error reward, halved when the predicted move has the wrong sign',
+    reward: ({ errorPct, predictedPct, actualPct }, scale) =>
+      gaussian(errorPct, scale) * (predictedPct * actualPct < 0 ? 0.5 : 1),
+  },
+  'trading-pnl': {
+    description: 'PnL only: a position sized by conviction (tanh of the predicted move over the scale) marked at the realised return',
+    reward: ({ predictedPct, actualPct }, scale) => {
+      const pnl = Math.tanh(predictedPct / scale) * actualPct;
+      return 1 / (1 + Math.exp(-pnl / scale));
+    },
+  },
+};
+
+/**
+ * Reward and absolute error (price units) of a point forecast under `config`
+ */
+export const calculatePointReward = (config: RewardFunctionConfig, input: RewardInput): { reward: number; error: number } => {
+  const { prediction, actual, referencePrice, horizon } = input;
+  const moves = {
+    errorPct: (Math.abs(prediction - actual) / actual) * 100,
+    predictedPct: ((prediction - referencePrice) / referencePrice) * 100,
+    actualPct: ((actual - referencePrice) / referencePrice) * 100,
+  };
+  const scale = config.scale * Math.sqrt(horizon);
+
+  return {
+    reward: REWARD_FUNCTIONS[config.kind].reward(moves, scale, input),
+    error: Math.abs(prediction - actual),
+  };
+};
+
+// ========== DIAGNOSTICS ==========
+
+/**
+ * Observer counts per equal-width reward bin over 0-1
+ */
+export const rewardHistogram = (observers: Observer[], bins: number = 10): Array<{ range: string; count: number }> => {
+  const counts = new Array(bins).fill(0);
+  observers.forEach(obs => {
+    counts[Math.min(bins - 1, Math.max(0, Math.floor(obs.reward * bins)))] += 1;
+  });
+  return counts.map((count, i) => ({ range: `${(i / bins).toFixed(1)}–${((i + 1) / bins).toFixed(1)}`, count }));
+};
+
+/**
+ * Spread of the population's rewards: selection has nothing to act on when every
+ * observer scores about the same (std dev near 0)
+ */
+export const rewardSpread = (observers: Observer[]): { mean: number; stdDev: number; max: number } => {
+  if (observers.length === 0) return { mean: 0, stdDev: 0, max: 0 };
+  const mean = observers.reduce((sum, obs) => sum + obs.reward, 0) / observers.length;
+  const variance = observers.reduce((sum, obs) => sum + (obs.reward - mean) ** 2, 0) / observers.length;
+  return { mean, stdDev: Math.sqrt(variance), max: Math.max(...observers.map(obs => obs.reward)) };
+};
+
+/**
+ * Share of observers in the lowest reward bin: when most of the population scores near 0,
+ * the scale is too tight for the errors it sees and rewards stop separating observers
+ */
+export const zeroRewardShare = (observers: Observer[], bins: number = 10): number =>
+  observers.length > 0 ? rewardHistogram(observers, bins)[0].count / observers.length : 0;
@@ -58,37 +58,6 @@ export const assignTradingCredit = (
   });
 };
 
-/**
- * Select elite observer based on trading performance, not just prediction
- * This implements the RL policy: which observer gives best trading advice?
- */
-export const selectTradingElite = (observers: Observer[]): Observer => {
-  // Weight recent trading performance heavily
-  const scoredObservers = observers.map(obs => {
-    // Combine prediction accuracy with trading success
-    const predictionScore = obs.reward; // 0-1 based on prediction
-    const tradingScore = obs.tradingReward; // 0-1 based on trade outcome
-    
-    // Lifetime P&L provides long-term signal
-    const lifetimeScore = Math.max(0, Math.min(1, 
-      0.5 + obs.lifetimeTradingPnL / 1000 // Normalize around $1000
-    ));
-    
-    // Combined score: 40% prediction, 40% recent trade, 20% lifetime
-    const combinedScore = 
-      predictionScore * 0.4 + 
-      tradingScore * 0.4 + 
-      lifetimeScore * 0.2;
-    
-    return { ...obs, combinedScore };
-  });
-  
-  // Return observer with highest combined score
-  return scoredObservers.reduce((best, current) => 
-    (current.combinedScore || 0) > (best.combinedScore || 0) ? current : best
-  );
-};
-
 /**
  * Determine consensus action from the ecology
  * Uses voting weighted by trading performance
@@ -0,0 +1,103 @@
+import type { Observer, SelectionConfig } from '../types';
+import type { Random } from './randomService';
+
+/**
+ * Elite Selection
+ * Picks the elite ensemble the rest of a guild evolves toward from candidates already ranked
+ * (best first, with `fitness` set). Strategies, all without replacement:
+ * - Truncation: the top N, deterministic
+ * - Tournament: each pick is the best-ranked of `tournamentSize` random contenders
+ * - Linear rank: pick odds fall linearly with rank; `rankPressure` (1-2) is the best
+ *   candidate's expected picks relative to the average
+ * - Roulette: pick odds proportional to fitness
+ * - Boltzmann: pick odds proportional to exp(fitness / temperature)
+ * The ensemble keeps the candidates' order in `ranked` (which may come from Pareto or entropy
+ * ranking rather than raw fitness), so its first member is the best-ranked pick.
+ */
+
+const fitnessOf = (obs: Observer): number => obs.fitness ?? 0;
+
+/**
+ * Index drawn with odds proportional to `weights` (uniform when they sum to zero)
+ */
+const weightedIndex = (weights: number[], random: Random): number => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return Math.floor(random() * weights.length);
+  let target = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  return weights.length - 1;
+};
+
+/**
+ * Draw `count` candidates without replacement, re-weighting the remaining pool after each pick
+ */
+const drawWithoutReplacement = (
+  ranked: Observer[],
+  count: number,
+  weigh: (pool: Observer[]) => number[],
+  random: Random
+): Observer[] => {
+  const pool = [...ranked];
+  const picked: Observer[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(weightedIndex(weigh(pool), random), 1)[0]);
+  }
+  return picked;
+};
+
+// Linear ranking weights (Baker): best = pressure, worst = 2 − pressure, in rank order
+const linearRankWeights = (pressure: number) => (pool: Observer[]): number[] =>
+  pool.map((_, rank) => (pool.length > 1 ? pressure - (2 * (pressure - 1) * rank) / (pool.length - 1) : 1));
+
+// Fitness shifted so the weakest candidate keeps a small share
+const rouletteWeights = (pool: Observer[]): number[] => {
+  const min = Math.min(...pool.map(fitnessOf));
+  return pool.map(obs => fitnessOf(obs) - Math.min(0, min) + 1e-6);
+};
+
+// Subtract the best fitness before exponentiating so low temperatures stay finite
+const boltzmannWeights = (temperature: number) => (pool: Observer[]): number[] => {
+  const max = Math.max(...pool.map(fitnessOf));
+  return pool.map(obs => Math.exp((fitnessOf(obs) - max) / temperature));
+};
+
+const tournamentSelect = (ranked: Observer[], count: number, size: number, random: Random): Observer[] => {
+  const pool = [...ranked];
+  const picked: Observer[] = [];
+  while (picked.length < count && pool.length > 0) {
+    // Pool stays in rank order, so the lowest drawn index is the best-ranked contender
+    let winner = pool.length;
+    for (let i = 0; i < size; i++) winner = Math.min(winner, Math.floor(random() * pool.length));
+    picked.push(pool.splice(winner, 1)[0]);
+  }
+  return picked;
+};
+
+/**
+ * Elite ensemble from `ranked` (best first) under the configured strategy
+ */
+export const selectElites = (ranked: Observer[], config: SelectionConfig, random: Random = Math.random): Observer[] => {
+  const count = Math.min(config.ensembleSize, ranked.length);
+
+  let elites: Observer[];
+  switch (config.strategy) {
+    case 'truncation':
+      return ranked.slice(0, count);
+    case 'tournament':
+      elites = tournamentSelect(ranked, count, config.tournamentSize, random);
+      break;
+    case 'linear-rank':
+      elites = drawWithoutReplacement(ranked, count, linearRankWeights(config.rankPressure), random);
+      break;
+    case 'roulette':
+      elites = drawWithoutReplacement(ranked, count, rouletteWeights, random);
+      break;
+    case 'boltzmann':
+      elites = drawWithoutReplacement(ranked, count, boltzmannWeights(config.temperature), random);
+      break;
+  }
+  return elites.sort((a, b) => ranked.indexOf(a) - ranked.indexOf(b));
+};
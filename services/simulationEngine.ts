@@ -0,0 +1,1159 @@
+import type {
+  Candle,
+  Observer,
+  Guild,
+  Position,
+  TradingSignal,
+  SimulationParams,
+  SimulationStats,
+  TradingStats,
+  TrainingState,
+  ModelCheckpoint,
+  Timeframe,
+  SimulationStatus,
+  SimulationSnapshot,
+  SimulationEngineEvents,
+  SimulationTimeline,
+  ForkParams,
+  EntropyMetrics,
+  ParetoPoint,
+  MarketRegime,
+} from '../types';
+import { TRAINING_TIMEFRAMES } from '../constants';
+import { getRandomInt, calculateEmbedding } from './simulationService';
+import { generateTradingSignal, executeTradingSignal, calculateTradingStats, closePosition, DEFAULT_TRADING_CONFIG } from './tradingService';
+import { extractEcologyFeatures } from './ecologyFeaturesService';
+import { assignTradingCredit } from './rlTradingService';
+import {
+  calculateFitness,
+  evolveObserver,
+  selectCrossoverParents,
+  crossoverObservers,
+  mutateStrategyGenes,
+  generateLearnedAction,
+  recordExperience,
+  calculateAdaptiveMutationRate,
+  sampleExperiences,
+  calculateFitnessFromSamples,
+} from './evolutionaryLearningService';
+import {
+  calculateEpochMetrics,
+  shouldStopEarly,
+  calculateLearningRate,
+  maintainDiversity,
+} from './professionalTrainingService';
+import {
+  getLeadGuild,
+  getAllObservers,
+  splitPopulation,
+  migrateObservers,
+  allocateCapital,
+  findExtinctGuilds,
+  normalizeCapitalShares,
+} from './guildEcologyService';
+import { createRandom, type SeededRandom } from './randomService';
+import { resolvePrimeBasis, embeddingResidue } from './primeBasisService';
+import {
+  getExtraHorizons,
+  getForecast,
+  createForecasts,
+  alignForecasts,
+  resolveForecasts,
+  selectHorizonElites,
+  selectHorizonEliteEnsemble,
+  evolveForecasts,
+  createHorizonAccuracy,
+  updateHorizonAccuracy,
+  getSignalDirection,
+  timeSignalEntry,
+} from './forecastHorizonService';
+import {
+  scoreForecast,
+  isDistributional,
+  createScale,
+  evolveScale,
+  createCalibration,
+  calculatePredictiveDistribution,
+  updateCalibration,
+} from './probabilisticForecastService';
+import {
+  calculateEntropyMetrics,
+  updatePhaseReturnTable,
+  modalResidue,
+  rankByEntropyRegularizedFitness,
+} from './entropyService';
+import { createCircularPhaseVector, updateCircularPhase, phaseOf } from './circularPhaseService';
+import { runLifecycle } from './lifecycleService';
+import { selectElites } from './selectionService';
+import { rankByParetoDominance, selectParetoDriver } from './paretoService';
+import { createArchive, archiveMatches, updateArchive, seedFromArchive } from './qualityDiversityService';
+import { recordRegimeDetection } from './syntheticMarketService';
+
+/**
+ * Simulation Engine
+ * Framework-free owner of the observer ecology: guild, prediction stats, trading and
+ * multi-epoch training. Runs in the browser, a Web Worker or Node; hosts drive it with
+ * step()/runToEnd() and subscribe to events instead of reading React state.
+ * Every random draw comes from one generator seeded by params.seed, so the same seed
+ * on the same data replays bit-identically.
+ */
+
+const WARM_UP_CANDLES = 60; // History every replay run starts after
+export const MIN_CANDLES = WARM_UP_CANDLES + 2; // Warm-up plus one prediction target
+const RECENT_WINDOW = 20; // Candles used for volatility/trend/volume features
+const HISTORY_LENGTH = 100; // Prediction and phase history kept for charts
+const TIMELINE_CAPACITY = 200; // Steps kept for rewind; each holds its own observer array, so memory grows with population size
+
+type Listener<T> = (payload: T) => void;
+
+export interface SimulationEngineOptions {
+  /**
+   * Synchronously supply candles for a training epoch on another timeframe.
+   * Lets runToEnd() cycle timeframes without a host round trip; return null to
+   * fall back to the 'awaitingData' event.
+   */
+  resolveMarketData?: (timeframe: Timeframe) => Candle[] | null;
+  /**
+   * Number of past steps kept for seek()/stepBack(); 0 disables the timeline
+   */
+  timelineCapacity?: number;
+}
+
+const createEmptyStats = (currentPrice: number = 0, extraHorizons: number[] = []): SimulationStats => ({
+  timeStep: 0,
+  currentPrice,
+  bestPrediction: 0,
+  predictionError: 0,
+  directionAccuracy: 0,
+  totalPredictions: 0,
+  correctPredictions: 0,
+  predictionHistory: [],
+  horizonAccuracy: createHorizonAccuracy(extraHorizons),
+  predictive: null,
+  intervalCoverage: null,
+  entropy: { predictionEntropy: 0, residueEntropy: 0, phaseReturnInformation: 0 },
+  entropyHistory: [],
+  births: 0,
+  deaths: 0,
+  populationHistory: [],
+  pareto: [],
+  paretoDriverId: null,
+  regimeDetection: null,
+});
+
+const createEmptyTradingStats = (): TradingStats => ({
+  totalTrades: 0,
+  winningTrades: 0,
+  losingTrades: 0,
+  winRate: 0,
+  totalPnL: 0,
+  currentPosition: null,
+  positionHistory: [],
+});
+
+const createTrainingState = (learningRate: number, totalEpochs: number = 0, isTraining: boolean = false): TrainingState => ({
+  currentEpoch: 0,
+  totalEpochs,
+  epochsCompleted: 0,
+  timeframeIndex: 0,
+  isTraining,
+  epochMetrics: [],
+  bestValidationEpoch: -1,
+  epochsWithoutImprovement: 0,
+  currentLearningRate: learningRate,
+});
+
+const createInitialPhaseVector = (basis: number[]): { [prime: number]: number } => basis.reduce((acc, p) => {
+  acc[p] = 0;
+  return acc;
+}, {} as { [prime: number]: number });
+
+// Market context shared by every guild within one step
+interface StepContext {
+  currentPrice: number;
+  actualNextClose: number;
+  timestamp: number;
+  recentPrices: number[];
+  recentVolumes: number[];
+  volatility: number;
+  trend: number;
+  learningRate: number;
+  basis: number[]; // Moduli of the run's prime basis
+  extraHorizons: number[]; // Forecast horizons beyond the next candle
+}
+
+interface GuildStepResult {
+  guild: Guild;
+  eliteObserver: Observer;
+  predicted: 'UP' | 'DOWN';
+  signal: TradingSignal;
+  closedPosition: Position | null;
+  horizonForecasts: Map<number, number>; // Forecast each horizon elite issued this step
+  entropy: EntropyMetrics;
+  pareto: ParetoPoint[];
+  regime: MarketRegime; // Regime the guild's ecology features detect
+}
+
+const calculateStdDev = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+  const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
+  return Math.sqrt(variance);
+};
+
+export class SimulationEngine {
+  private state: SimulationSnapshot;
+  private marketData: Candle[] = [];
+  private listeners: { [K in keyof SimulationEngineEvents]?: Set<Listener<SimulationEngineEvents[K]>> } = {};
+  private readonly options: SimulationEngineOptions;
+  private random: SeededRandom;
+  private timeline: SimulationSnapshot[] = []; // Oldest first; states are immutable, so entries are shared, not copied
+
+  constructor(params: SimulationParams, options: SimulationEngineOptions = {}) {
+    this.options = options;
+    this.random = createRandom(params.seed);
+    this.state = {
+      status: 'idle',
+      params,
+      currentTimeStep: WARM_UP_CANDLES,
+      startStep: WARM_UP_CANDLES,
+      guilds: [],
+      stats: createEmptyStats(),
+      phaseHistory: {},
+      tradingStats: createEmptyTradingStats(),
+      currentSignal: null,
+      trainingState: createTrainingState(params.learningRate),
+      preservedObservers: null,
+      rngState: this.random.getState(),
+      archive: null,
+    };
+  }
+
+  // ========== EVENTS ==========
+
+  /**
+   * Subscribe to an engine event. Returns an unsubscribe function.
+   */
+  on<K extends keyof SimulationEngineEvents>(event: K, listener: Listener<SimulationEngineEvents[K]>): () => void {
+    const listeners: { [P in K]?: Set<Listener<SimulationEngineEvents[P]>> } = this.listeners; // Viewed through K so the new set can be stored under `event`
+    const set = listeners[event] ?? new Set<Listener<SimulationEngineEvents[K]>>();
+    listeners[event] = set;
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  private emit<K extends keyof SimulationEngineEvents>(event: K, payload: SimulationEngineEvents[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+
+  private update(patch: Partial<SimulationSnapshot>): void {
+    this.state = { ...this.state, ...patch, rngState: this.random.getState() };
+    this.emit('change', this.state);
+  }
+
+  // ========== ACCESSORS ==========
+
+  /**
+   * Current state. Treat as read-only; it is replaced, never mutated, on every update.
+   */
+  getState(): SimulationSnapshot {
+    return this.state;
+  }
+
+  getMarketData(): Candle[] {
+    return this.marketData;
+  }
+
+  get status(): SimulationStatus {
+    return this.state.status;
+  }
+
+  /**
+   * Range of steps that can be revisited with seek(), or null before the first run
+   */
+  getTimeline(): SimulationTimeline | null {
+    if (this.timeline.length === 0) return null;
+    return {
+      firstStep: this.timeline[0].currentTimeStep,
+      lastStep: this.timeline[this.timeline.length - 1].currentTimeStep,
+    };
+  }
+
+  private get isLive(): boolean {
+    return this.state.params.liveMode && !this.state.params.trainingMode;
+  }
+
+  // ========== SETUP ==========
+
+  /**
+   * Load params and a candle series, then (re)initialize the ecology from params.seed
+   */
+  load(params: SimulationParams, marketData: Candle[]): void {
+    this.assertEnoughData(marketData);
+    this.random = createRandom(params.seed);
+    this.state = { ...this.state, params };
+    this.marketData = marketData;
+    this.reset();
+  }
+
+  /**
+   * Supply the candles requested by 'awaitingData' and continue training.
+   * Unlike load() this keeps the random sequence running across the epoch boundary.
+   */
+  provideMarketData(marketData: Candle[]): void {
+    this.assertEnoughData(marketData);
+    this.marketData = marketData;
+    this.reset();
+  }
+
+  private assertEnoughData(marketData: Candle[]): void {
+    if (marketData.length < MIN_CANDLES) {
+      throw new Error(`Need at least ${MIN_CANDLES} candles to run the simulation, got ${marketData.length}`);
+    }
+  }
+
+  /**
+   * Append closed candles in live mode without reinitializing
+   */
+  appendCandles(candles: Candle[]): void {
+    const lastTime = this.marketData[this.marketData.length - 1]?.time ?? -Infinity;
+    const newer = candles.filter(c => c.time > lastTime);
+    if (newer.length > 0) {
+      this.marketData = [...this.marketData, ...newer];
+    }
+  }
+
+  /**
+   * Fresh observers spread around `initialPrice`, scored against `targetPrice`
+   */
+  private createObservers(count: number, idOffset: number, initialPrice: number, targetPrice: number, basis: number[]): Observer[] {
+    const { embedding: embeddingKind, forecastHorizons, scoringRule, rewardFunction } = this.state.params;
+    const extraHorizons = getExtraHorizons(forecastHorizons);
+    const initialCollectivePhase = createInitialPhaseVector(basis);
+    const searchRange = initialPrice * 0.1;
+
+    return Array.from({ length: count }, (_, i) => {
+      const n = initialPrice + getRandomInt(-searchRange, searchRange, this.random);
+      const scale = createScale(initialPrice, scoringRule, rewardFunction.scale, this.random);
+      const { reward, error } = scoreForecast(scoringRule, n, scale, targetPrice, initialPrice, rewardFunction);
+      const embedding = calculateEmbedding(n, initialCollectivePhase, basis, embeddingKind, initialPrice);
+
+      // Determine proposed action based on predicted vs current price
+      const proposedAction: 'BUY' | 'SELL' | 'HOLD' =
+        n > initialPrice * 1.01 ? 'BUY' :
+        n < initialPrice * 0.99 ? 'SELL' : 'HOLD';
+
+      return {
+        id: idOffset + i,
+        n,
+        scale,
+        reward,
+        error,
+        embedding,
+        proposedAction,
+        proposedSize: 0.5 + this.random() * 0.5, // Random initial size 0.5-1.0
+        tradingReward: 0,
+        contributedToTrade: false,
+        lifetimeTradingPnL: 0,
+        // Evolutionary Strategy with Memory fields
+        experienceBuffer: [],
+        strategyGenes: {
+          riskTolerance: 0.3 + this.random() * 0.5, // 0.3-0.8 random start
+          trendFollowing: this.random(), // 0-1 random
+          volatilityPreference: this.random(), // 0-1 random
+          holdingBias: (this.random() - 0.5) * 0.4, // -0.2 to 0.2
+          volumeSensitivity: this.random(), // 0-1 random
+        },
+        fitness: 0,
+        forecasts: createForecasts(extraHorizons, initialPrice, this.random),
+        parentId: null,
+        lineageId: idOffset + i,
+        generation: 0,
+        lowFitnessSteps: 0,
+      };
+    });
+  }
+
+  /**
+   * Start a fresh ecology on the loaded data, reusing preserved observers if there are any
+   */
+  reset(): void {
+    const marketData = this.marketData;
+    if (marketData.length < MIN_CANDLES) return;
+
+    const { params, preservedObservers, guilds: previousGuilds, archive: previousArchive } = this.state;
+    const numGuilds = Math.max(1, params.numGuilds);
+    const basis = resolvePrimeBasis(params.primeBasis);
+    const extraHorizons = getExtraHorizons(params.forecastHorizons);
+    const startStep = this.isLive ? marketData.length - 1 : WARM_UP_CANDLES;
+    const initialPrice = marketData[startStep - 1].close;
+    const targetPrice = marketData[startStep].close;
+
+    // In training mode, trading (stats, open positions, capital shares) carries over between epochs for cumulative learning
+    const carryTrading = !!preservedObservers && params.trainingMode;
+    const carriedGuilds = carryTrading && previousGuilds.length === numGuilds ? previousGuilds : null;
+
+    // Use preserved observers if continuing training, otherwise create new ones
+    const populations = preservedObservers
+      ? splitPopulation(preservedObservers, numGuilds)
+      : Array.from({ length: numGuilds }, () => [] as Observer[]);
+
+    const guilds: Guild[] = populations.map((population, g) => ({
+      id: `guild-${g + 1}`,
+      collectivePhaseVector: createInitialPhaseVector(basis),
+      circularPhase: params.phaseUpdateRule === 'circular' ? createCircularPhaseVector(basis) : null,
+      observers: population.length > 0
+        ? population.map(obs => alignForecasts(obs, extraHorizons))
+        : this.createObservers(params.numObservers, g * params.numObservers, initialPrice, targetPrice, basis),
+      eliteN: null,
+      eliteReward: -1,
+      capitalShare: carriedGuilds?.[g].capitalShare ?? 1 / numGuilds,
+      position: carriedGuilds?.[g].position ?? null,
+      roundPnL: carriedGuilds?.[g].roundPnL ?? 0,
+      respawns: carriedGuilds?.[g].respawns ?? 0,
+      predictive: null,
+      calibration: carriedGuilds?.[g].calibration ?? createCalibration(),
+      phaseReturnTable: {},
+      carryingCapacity: carriedGuilds?.[g].carryingCapacity ?? (population.length > 0 ? population.length : params.numObservers),
+    }));
+
+    this.update({
+      status: 'ready',
+      currentTimeStep: startStep,
+      startStep,
+      guilds,
+      stats: createEmptyStats(initialPrice, extraHorizons),
+      phaseHistory: Object.fromEntries(guilds.map(guild => [guild.id, []])),
+      tradingStats: carryTrading ? this.state.tradingStats : createEmptyTradingStats(),
+      currentSignal: null,
+      // The archive spans the whole run: training epochs and loaded models keep theirs
+      archive: params.qualityDiversity.enabled
+        ? (preservedObservers && archiveMatches(previousArchive, params.qualityDiversity) ? previousArchive : createArchive(params.qualityDiversity))
+        : null,
+    });
+
+    // Snapshots from the previous run refer to other data or another epoch
+    this.timeline = [];
+    this.record();
+  }
+
+  /**
+   * Begin multi-epoch training from a fresh population
+   */
+  startTraining(params: SimulationParams = this.state.params): void {
+    this.random = createRandom(params.seed);
+    this.state = {
+      ...this.state,
+      params,
+      preservedObservers: null,
+      trainingState: createTrainingState(params.learningRate, params.targetEpochs, true),
+    };
+    this.reset();
+  }
+
+  /**
+   * Continue from a saved model: its observers seed the next initialization, embedded
+   * on the prime basis they were trained on
+   */
+  loadCheckpoint(checkpoint: ModelCheckpoint): void {
+    this.random = createRandom(this.state.params.seed);
+    this.state = {
+      ...this.state,
+      params: {
+        ...this.state.params,
+        primeBasis: checkpoint.params.primeBasis,
+        embedding: checkpoint.params.embedding,
+      },
+      preservedObservers: checkpoint.observers,
+      archive: checkpoint.archive,
+      trainingState: {
+        ...this.state.trainingState,
+        epochMetrics: checkpoint.trainingMetrics,
+        epochsCompleted: checkpoint.totalEpochs,
+      },
+    };
+    this.reset();
+  }
+
+  // ========== SNAPSHOTS ==========
+
+  /**
+   * Deep copy of the current state
+   */
+  snapshot(): SimulationSnapshot {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Return to a snapshot taken on the same market data
+   */
+  restore(snapshot: SimulationSnapshot): void {
+    this.state = structuredClone(snapshot);
+    this.random.setState(snapshot.rngState);
+    this.emit('change', this.state);
+  }
+
+  // ========== TIMELINE ==========
+
+  private record(): void {
+    const capacity = this.options.timelineCapacity ?? TIMELINE_CAPACITY;
+    if (capacity <= 0) return;
+
+    // Stepping on from a rewound point replaces the steps that used to follow it
+    const step = this.state.currentTimeStep;
+    while (this.timeline.length > 0 && this.timeline[this.timeline.length - 1].currentTimeStep >= step) {
+      this.timeline.pop();
+    }
+    this.timeline.push(this.state);
+    if (this.timeline.length > capacity) this.timeline.shift();
+    this.emit('timeline', this.getTimeline());
+  }
+
+  /**
+   * Jump to a recorded step. Stepping forward from there replays the same path
+   * (the random generator is rewound too) until params are changed with fork().
+   * Returns false when the step is no longer in the timeline.
+   */
+  seek(step: number): boolean {
+    const snapshot = this.timeline.find(s => s.currentTimeStep === step);
+    if (!snapshot) return false;
+    this.state = snapshot;
+    this.random.setState(snapshot.rngState);
+    this.emit('change', this.state);
+    return true;
+  }
+
+  stepBack(): boolean {
+    return this.seek(this.state.currentTimeStep - 1);
+  }
+
+  /**
+   * Continue from the current (usually rewound) step under new params, dropping the
+   * recorded steps after it. A new seed reseeds the generator so the fork takes its own path.
+   */
+  fork(changes: Partial<ForkParams>): void {
+    const params = { ...this.state.params, ...changes };
+    if (params.seed !== this.state.params.seed) {
+      this.random = createRandom(params.seed);
+    }
+    this.update({ params });
+    this.record();
+  }
+
+  // ========== STEPPING ==========
+
+  /**
+   * Run until the data ends, training finishes or more data is needed.
+   * Returns the number of steps taken.
+   */
+  runToEnd(maxSteps: number = Infinity): number {
+    let steps = 0;
+    while (steps < maxSteps && this.step()) {
+      steps++;
+    }
+    return steps;
+  }
+
+  /**
+   * Advance one candle. Returns false when nothing happened (finished, awaiting data,
+   * or waiting for the next live candle).
+   */
+  step(): boolean {
+    const { status, guilds, currentTimeStep } = this.state;
+    if (status !== 'ready' || guilds.length === 0) return false;
+
+    const marketData = this.marketData;
+    const nextStep = currentTimeStep + 1;
+
+    if (this.isLive) {
+      // Wait for the stream to close the next candle
+      if (nextStep > marketData.length - 1) return false;
+    } else if (nextStep >= marketData.length - 1) {
+      this.endOfData();
+      return this.state.status === 'ready'; // A new epoch may have started on the same data
+    }
+
+    this.advance(nextStep);
+    return true;
+  }
+
+  private advance(nextStep: number): void {
+    const { params, guilds: prevGuilds, stats: prevStats, tradingStats: prevTradingStats, trainingState, startStep } = this.state;
+    const marketData = this.marketData;
+    // Training follows the epoch learning-rate schedule; params keep the base rate
+    const learningRate = trainingState.isTraining ? trainingState.currentLearningRate : params.learningRate;
+
+    const actualNextClose = marketData[nextStep].close;
+    const currentPrice = marketData[nextStep - 1].close;
+    const recentCandles = marketData.slice(Math.max(0, nextStep - RECENT_WINDOW), nextStep);
+    const recentPrices = recentCandles.map(c => c.close);
+    const recentVolumes = recentCandles.map(c => c.volume ?? 0);
+
+    // Calculate market state once for all observers
+    const volatility = recentPrices.length > 1
+      ? calculateStdDev(recentPrices) / currentPrice
+      : 0.02;
+    const trend = recentPrices.length > 1
+      ? (recentPrices[recentPrices.length - 1] - recentPrices[0]) / recentPrices[0]
+      : 0;
+
+    const context: StepContext = {
+      currentPrice,
+      actualNextClose,
+      timestamp: marketData[nextStep].time,
+      recentPrices,
+      recentVolumes,
+      volatility,
+      trend,
+      learningRate,
+      basis: resolvePrimeBasis(params.primeBasis),
+      extraHorizons: getExtraHorizons(params.forecastHorizons),
+    };
+
+    // The lead guild (largest capital share going into the step) speaks for the ecology
+    const leadIndex = prevGuilds.indexOf(getLeadGuild(prevGuilds));
+    const results = prevGuilds.map(guild => this.advanceGuild(guild, context, prevGuilds.length));
+    const { guild: leadGuild, eliteObserver, predicted, signal, horizonForecasts, entropy, pareto, regime } = results[leadIndex];
+    const newEliteN = eliteObserver.n;
+
+    // Direction accuracy of the lead guild's elite prediction
+    const actual: 'UP' | 'DOWN' = actualNextClose > currentPrice ? 'UP' : 'DOWN';
+    const correct = predicted === actual;
+    const priceChange = ((actualNextClose - currentPrice) / currentPrice) * 100;
+    const newCorrectPredictions = prevStats.correctPredictions + (correct ? 1 : 0);
+    const newTotalPredictions = prevStats.totalPredictions + 1;
+
+    let guilds = results.map(result => result.guild);
+    const closedPositions = results.flatMap(result => (result.closedPosition ? [result.closedPosition] : []));
+
+    // Births and deaths, after every guild has traded
+    const lifecycle = { births: 0, deaths: 0 };
+    if (params.lifecycle.enabled) {
+      let nextId = Math.max(...getAllObservers(guilds).map(obs => obs.id)) + 1;
+      guilds = guilds.map((guild, index) => {
+        const step = runLifecycle(guild, results[index].closedPosition !== null, params.lifecycle, nextId, actualNextClose, this.random);
+        nextId = step.nextId;
+        lifecycle.births += step.births;
+        lifecycle.deaths += step.deaths;
+        return step.guild;
+      });
+    }
+
+    // Periodic inter-guild dynamics
+    const stepsRun = nextStep - startStep;
+    if (guilds.length > 1 && params.migrationInterval > 0 && stepsRun % params.migrationInterval === 0) {
+      const round = this.runEcologyRound(guilds, context);
+      guilds = round.guilds;
+      closedPositions.push(...round.closedPositions);
+    }
+
+    // Quality diversity: file every observer in the run's archive, then seed guilds from random cells
+    let archive = this.state.archive;
+    if (params.qualityDiversity.enabled && archive) {
+      archive = updateArchive(archive, getAllObservers(guilds), actualNextClose, stepsRun);
+      guilds = guilds.map(guild => seedFromArchive(guild, archive, params.qualityDiversity.seedRate, actualNextClose, this.random));
+    }
+
+    const stats: SimulationStats = {
+      timeStep: nextStep - startStep,
+      currentPrice: actualNextClose,
+      bestPrediction: newEliteN,
+      predictionError: eliteObserver.error,
+      directionAccuracy: (newCorrectPredictions / newTotalPredictions) * 100,
+      totalPredictions: newTotalPredictions,
+      correctPredictions: newCorrectPredictions,
+      lastPrediction: predicted,
+      lastActual: actual,
+      predictionHistory: [...prevStats.predictionHistory, { predicted, actual, correct, priceChange }].slice(-HISTORY_LENGTH),
+      horizonAccuracy: updateHorizonAccuracy(prevStats.horizonAccuracy, horizonForecasts, actualNextClose),
+      predictive: leadGuild.predictive,
+      intervalCoverage: leadGuild.calibration.total > 0 ? (leadGuild.calibration.hits / leadGuild.calibration.total) * 100 : null,
+      entropy,
+      entropyHistory: [...prevStats.entropyHistory, { timeStep: nextStep - startStep, ...entropy }].slice(-HISTORY_LENGTH),
+      births: prevStats.births + lifecycle.births,
+      deaths: prevStats.deaths + lifecycle.deaths,
+      populationHistory: [...prevStats.populationHistory, {
+        timeStep: nextStep - startStep,
+        population: getAllObservers(guilds).length,
+        capacity: guilds.reduce((sum, guild) => sum + guild.carryingCapacity, 0),
+      }].slice(-HISTORY_LENGTH),
+      pareto,
+      paretoDriverId: pareto.length > 0 ? eliteObserver.id : null,
+      // Synthetic candles carry the regime they were generated in; score detection against it
+      regimeDetection: marketData[nextStep - 1].regime
+        ? recordRegimeDetection(prevStats.regimeDetection, regime, marketData[nextStep - 1].regime)
+        : prevStats.regimeDetection,
+    };
+
+    const updatedHistory = closedPositions.length > 0
+      ? [...prevTradingStats.positionHistory, ...closedPositions]
+      : prevTradingStats.positionHistory;
+
+    this.update({
+      currentTimeStep: nextStep,
+      guilds,
+      stats,
+      phaseHistory: Object.fromEntries(guilds.map(guild => [guild.id, [
+        ...(this.state.phaseHistory[guild.id] ?? []).slice(-(HISTORY_LENGTH - 1)),
+        { generation: stepsRun, ...guild.collectivePhaseVector },
+      ]])),
+      tradingStats: calculateTradingStats(getLeadGuild(guilds).position, updatedHistory),
+      currentSignal: signal,
+      archive,
+    });
+    this.record();
+  }
+
+  /**
+   * One step of a single guild: score, select the elite, update the phase vector,
+   * evolve, then trade the guild's share of capital and assign credit
+   */
+  private advanceGuild(prevGuild: Guild, context: StepContext, numGuilds: number): GuildStepResult {
+    const { params } = this.state;
+    const { currentPrice, actualNextClose, timestamp, recentPrices, recentVolumes, volatility, trend, learningRate, basis, extraHorizons } = context;
+
+    // First evaluate prediction accuracy
+    const evaluatedObservers = prevGuild.observers.map(obs => {
+      const { reward, error } = scoreForecast(params.scoringRule, obs.n, obs.scale, actualNextClose, currentPrice, params.rewardFunction);
+
+      // Generate learned action based on strategy genes
+      const ecologyFeatures = extractEcologyFeatures(
+        obs.n,
+        currentPrice,
+        reward,
+        prevGuild.collectivePhaseVector,
+        recentPrices,
+        recentVolumes,
+        prevGuild.circularPhase
+      );
+
+      const { action: proposedAction, size: proposedSize } = generateLearnedAction(
+        obs,
+        currentPrice,
+        {
+          volatility,
+          trend,
+          regime: ecologyFeatures.marketRegime,
+          relativeVolume: ecologyFeatures.relativeVolume,
+          obvSlope: ecologyFeatures.obvSlope,
+        }
+      );
+
+      // Score longer-horizon forecasts whose target is this candle
+      const forecasts = resolveForecasts(obs.forecasts, actualNextClose, params.rewardFunction);
+
+      return { ...obs, reward, error, proposedAction, proposedSize, forecasts };
+    });
+
+    // RL: Select elite ensemble for more robust learning, from the population
+    // ranked by accuracy at the elite horizon (the next candle unless configured otherwise)
+    const eliteHorizon = extraHorizons.includes(params.eliteHorizon) ? params.eliteHorizon : 1;
+    // Multi-objective fitness ranks by non-dominated front and crowding instead of the scalar blend
+    const pareto = params.fitnessMode === 'multi-objective'
+      ? rankByParetoDominance(evaluatedObservers, currentPrice, eliteHorizon)
+      : null;
+    const ranked = pareto?.ranked ?? selectHorizonEliteEnsemble(evaluatedObservers, eliteHorizon, evaluatedObservers.length);
+    // Entropy-minimizing dynamics re-rank the whole population with a bonus for predicting where it is dense
+    const entropyMinimizing = params.dynamicsMode === 'entropy-minimizing';
+    const eliteEnsemble = selectElites(
+      entropyMinimizing
+        ? rankByEntropyRegularizedFitness(ranked, evaluatedObservers, currentPrice, params.entropyWeight, ranked.length)
+        : ranked,
+      params.selection,
+      this.random
+    );
+    // Primary elite; under multi-objective fitness the chosen Pareto-front member
+    const driverId = pareto ? selectParetoDriver(pareto.points, params.paretoPick) : null;
+    const eliteObserver = driverId === null
+      ? eliteEnsemble[0]
+      : evaluatedObservers.find(obs => obs.id === driverId);
+
+    const newEliteN = eliteObserver.n;
+    const newEliteReward = eliteObserver.reward;
+
+    // Calculate average elite fitness for evolution target
+    const avgEliteFitness = eliteEnsemble.reduce((sum, obs) =>
+      sum + calculateFitness(obs), 0
+    ) / eliteEnsemble.length;
+
+    // RL: Update phase vector based on both prediction AND trading success
+    const newCollectivePhaseVector = { ...prevGuild.collectivePhaseVector };
+    const newCircularPhase = prevGuild.circularPhase ? { ...prevGuild.circularPhase } : null;
+    basis.forEach((p, index) => {
+      const oldPhase = prevGuild.collectivePhaseVector[p];
+      // Entropy-minimizing dynamics pull each phase to the population's modal residue instead of the elite's
+      const eliteMod = entropyMinimizing
+        ? modalResidue(evaluatedObservers, params.embedding, currentPrice, p, index)
+        : embeddingResidue(params.embedding, newEliteN, currentPrice, p, index);
+
+      // Weight phase update by trading performance
+      // If elite has good trading history, trust their phase more
+      const tradingWeight = Math.max(0.5, Math.min(1.5,
+        1.0 + (eliteObserver.lifetimeTradingPnL / 1000) // +/- 50% based on P&L
+      ));
+
+      const effectiveLearningRate = learningRate * tradingWeight;
+      if (newCircularPhase) {
+        // Average on the unit circle so residues 0 and p−1 stay neighbours
+        newCircularPhase[p] = updateCircularPhase(newCircularPhase[p], eliteMod, p, effectiveLearningRate);
+        newCollectivePhaseVector[p] = phaseOf(newCircularPhase[p], p);
+      } else {
+        newCollectivePhaseVector[p] = (1 - effectiveLearningRate) * oldPhase + effectiveLearningRate * eliteMod;
+      }
+    });
+
+    const nextPriceContext = actualNextClose;
+    const searchRange = nextPriceContext * 0.1;
+    const horizonElites = selectHorizonElites(evaluatedObservers, extraHorizons);
+    const distributional = isDistributional(params.scoringRule);
+
+    // Evolve observers toward elite ensemble's successful strategies
+    const evolvedObservers = evaluatedObservers.map(obs => {
+      let evolved = obs;
+
+      // Calculate adaptive mutation rate based on recent performance
+      const adaptiveMutationRate = calculateAdaptiveMutationRate(obs, params.mutationRate);
+
+      // Evolve strategy genes toward elite's genes (if not already elite)
+      let targetElite: Observer | null = null;
+      if (!eliteEnsemble.some(elite => elite.id === obs.id)) {
+        if (params.crossover.operator !== 'none' && this.random() < params.crossover.probability) {
+          // Recombine two parents into this slot; the fitter parent stands in as the elite
+          const parents = selectCrossoverParents(params.crossover.parentSelection, obs, eliteEnsemble, evaluatedObservers, this.random);
+          targetElite = parents[0];
+          evolved = crossoverObservers(obs, parents, params.crossover, this.random);
+        } else {
+          // Choose a random elite from ensemble to evolve toward
+          targetElite = eliteEnsemble[Math.floor(this.random() * eliteEnsemble.length)];
+          evolved = evolveObserver(obs, targetElite, avgEliteFitness, learningRate);
+
+          // Move prediction toward elite (keep this for convergence)
+          const moveProbability = 1.0 - obs.reward;
+          if (this.random() < moveProbability) {
+            const direction = Math.sign(newEliteN - obs.n);
+            const step = this.random() * Math.abs(newEliteN - obs.n) * 0.5;
+            evolved = { ...evolved, n: evolved.n + direction * step };
+          }
+        }
+
+        // Experience replay: learn from sampled past experiences
+        if (obs.experienceBuffer.length > 20 && this.random() < 0.3) {
+          const sampledExperiences = sampleExperiences(obs, 10, this.random);
+          const sampleFitness = calculateFitnessFromSamples(sampledExperiences);
+
+          // If sampled fitness is poor, increase exploration
+          if (sampleFitness < 0.4) {
+            evolved = mutateStrategyGenes(evolved, adaptiveMutationRate * 1.5, 0.15, this.random);
+          }
+        }
+      }
+
+      // Mutate prediction (exploration) with adaptive rate
+      if (this.random() < adaptiveMutationRate) {
+        const mutationAmount = getRandomInt(-searchRange / 2, searchRange / 2, this.random);
+        evolved = { ...evolved, n: nextPriceContext + mutationAmount };
+      }
+
+      // Mutate strategy genes (exploration) with adaptive rate
+      evolved = mutateStrategyGenes(evolved, adaptiveMutationRate, 0.1, this.random);
+
+      // Distributional scoring also evolves how wide each observer's forecast is
+      if (distributional) {
+        evolved = {
+          ...evolved,
+          scale: evolveScale(evolved.scale, targetElite?.scale ?? null, 1.0 - obs.reward, adaptiveMutationRate, nextPriceContext, this.random),
+        };
+      }
+
+      // Longer-horizon forecasts evolve toward their own horizon's elite
+      evolved = { ...evolved, forecasts: evolveForecasts(evolved, horizonElites, nextPriceContext, adaptiveMutationRate, this.random) };
+
+      // Recalculate embedding and action for new state
+      const newEmbedding = calculateEmbedding(evolved.n, newCollectivePhaseVector, basis, params.embedding, nextPriceContext);
+
+      const evolvedFeatures = extractEcologyFeatures(
+        evolved.n,
+        nextPriceContext,
+        evolved.reward,
+        newCollectivePhaseVector,
+        recentPrices,
+        recentVolumes,
+        newCircularPhase
+      );
+      const { action: newProposedAction, size: newProposedSize } = generateLearnedAction(
+        evolved,
+        nextPriceContext,
+        {
+          volatility,
+          trend,
+          regime: evolvedFeatures.marketRegime,
+          relativeVolume: evolvedFeatures.relativeVolume,
+          obvSlope: evolvedFeatures.obvSlope,
+        }
+      );
+
+      return {
+        ...evolved,
+        embedding: newEmbedding,
+        proposedAction: newProposedAction,
+        proposedSize: newProposedSize,
+      };
+    });
+
+    const predicted: 'UP' | 'DOWN' = newEliteN > currentPrice ? 'UP' : 'DOWN';
+
+    // Population forecast for the next close, its interval calibrated by how often past intervals held
+    const calibration = updateCalibration(prevGuild.calibration, prevGuild.predictive, actualNextClose);
+    const predictive = distributional
+      ? calculatePredictiveDistribution(evolvedObservers, nextPriceContext, calibration)
+      : null;
+
+    // Pair the phase held going into this candle with its direction, then measure the evolved population
+    const phaseReturnTable = updatePhaseReturnTable(prevGuild.phaseReturnTable, prevGuild.collectivePhaseVector, basis, actualNextClose > currentPrice);
+    const entropy = calculateEntropyMetrics(evolvedObservers, basis, params.embedding, nextPriceContext, phaseReturnTable);
+
+    // Extract ecology features for enhanced trading
+    const ecologyFeatures = extractEcologyFeatures(
+      newEliteN,
+      currentPrice,
+      newEliteReward,
+      newCollectivePhaseVector,
+      recentPrices,
+      recentVolumes,
+      newCircularPhase
+    );
+
+    // Generate trading signal with ecology features; 'timed-entry' trades the longest horizon's
+    // direction and waits for the next-candle forecast to agree before entering
+    const signalDirection = getSignalDirection(params.horizonSignalMode, predicted, horizonElites, currentPrice);
+    const signal = timeSignalEntry(
+      generateTradingSignal(
+        newEliteN,
+        actualNextClose,
+        prevGuild.eliteReward * 100,
+        signalDirection,
+        timestamp,
+        ecologyFeatures,
+        predictive ?? undefined
+      ),
+      params.horizonSignalMode,
+      predicted
+    );
+
+    // Execute trading signal on this guild's share of the capital budget
+    const { newPosition, closedPosition } = executeTradingSignal(
+      signal,
+      prevGuild.position,
+      actualNextClose,
+      timestamp,
+      {
+        ...DEFAULT_TRADING_CONFIG,
+        basePositionNotional: DEFAULT_TRADING_CONFIG.basePositionNotional * numGuilds * prevGuild.capitalShare,
+      }
+    );
+    const tradingOutcome = closedPosition?.pnl ?? null;
+
+    // Record trading experience for all observers
+    const observersWithExperience = evolvedObservers.map(obs => recordExperience(obs, {
+      timestamp,
+      marketState: {
+        price: actualNextClose,
+        volatility,
+        trend,
+        regime: ecologyFeatures.marketRegime,
+      },
+      action: obs.proposedAction,
+      proposedSize: obs.proposedSize,
+      outcome: tradingOutcome || 0,
+      wasExecuted: obs.proposedAction === signal.action && tradingOutcome !== null,
+    }));
+
+    // RL: Credit observers whose advice matched a trade that just closed
+    const finalObservers = closedPosition
+      ? assignTradingCredit(observersWithExperience, signal.action, closedPosition)
+      : observersWithExperience;
+
+    return {
+      guild: {
+        ...prevGuild,
+        observers: finalObservers,
+        collectivePhaseVector: newCollectivePhaseVector,
+        circularPhase: newCircularPhase,
+        eliteN: newEliteN,
+        eliteReward: newEliteReward,
+        position: newPosition,
+        roundPnL: prevGuild.roundPnL + (tradingOutcome ?? 0),
+        predictive,
+        calibration,
+        phaseReturnTable,
+      },
+      eliteObserver,
+      predicted,
+      signal,
+      closedPosition,
+      horizonForecasts: new Map(extraHorizons.map(horizon => [
+        horizon,
+        getForecast(evolvedObservers.find(obs => obs.id === horizonElites.get(horizon).id), horizon).n,
+      ])),
+      entropy,
+      pareto: pareto?.points ?? [],
+      regime: ecologyFeatures.marketRegime,
+    };
+  }
+
+  /**
+   * Migration, capital reallocation and extinction/respawn across guilds
+   */
+  private runEcologyRound(guilds: Guild[], context: StepContext): { guilds: Guild[]; closedPositions: Position[] } {
+    const { params } = this.state;
+    const totalCapital = DEFAULT_TRADING_CONFIG.basePositionNotional * guilds.length;
+    const allocated = allocateCapital(migrateObservers(guilds, params.migrationSize), params.capitalCompetition, totalCapital);
+
+    const extinct = findExtinctGuilds(allocated, params.extinctionShare);
+    if (extinct.length === 0) return { guilds: allocated, closedPositions: [] };
+
+    const closedPositions: Position[] = [];
+    let nextId = Math.max(...getAllObservers(allocated).map(obs => obs.id)) + 1;
+    const respawned = allocated.map((guild, index) => {
+      if (!extinct.includes(index)) return guild;
+
+      console.log(`⚠️ ${guild.id} went extinct (${(guild.capitalShare * 100).toFixed(1)}% of capital), respawning`);
+      if (guild.position) {
+        closedPositions.push(closePosition(guild.position, context.actualNextClose, context.timestamp));
+      }
+      const observers = this.createObservers(params.numObservers, nextId, context.actualNextClose, context.actualNextClose, context.basis);
+      nextId += params.numObservers;
+
+      return {
+        ...guild,
+        observers,
+        collectivePhaseVector: createInitialPhaseVector(context.basis),
+        circularPhase: params.phaseUpdateRule === 'circular' ? createCircularPhaseVector(context.basis) : null,
+        eliteN: null,
+        eliteReward: -1,
+        capitalShare: 1 / guilds.length,
+        position: null,
+        roundPnL: 0,
+        respawns: guild.respawns + 1,
+        predictive: null,
+        calibration: createCalibration(),
+        phaseReturnTable: {},
+        carryingCapacity: params.numObservers,
+      };
+    });
+
+    return { guilds: normalizeCapitalShares(respawned), closedPositions };
+  }
+
+  // ========== EPOCHS ==========
+
+  private finish(reason: SimulationEngineEvents['finished']): void {
+    this.update({ status: 'finished' });
+    this.emit('finished', reason);
+  }
+
+  /**
+   * End of the candle series: finish a replay run, or close the epoch when training
+   */
+  private endOfData(): void {
+    const { params, guilds, tradingStats, trainingState } = this.state;
+
+    if (!params.trainingMode || !trainingState.isTraining || trainingState.epochsCompleted >= params.targetEpochs) {
+      if (trainingState.isTraining) {
+        this.state = { ...this.state, trainingState: { ...trainingState, isTraining: false } };
+      }
+      this.finish(params.trainingMode ? 'training-complete' : 'end-of-data');
+      return;
+    }
+
+    const epochMetrics = calculateEpochMetrics(
+      trainingState.currentEpoch,
+      params.timeframe,
+      getAllObservers(guilds),
+      tradingStats.totalTrades,
+      tradingStats.winningTrades,
+      tradingStats.losingTrades,
+      tradingStats.totalPnL,
+      tradingStats.sharpeRatio,
+      tradingStats.maxDrawdown || 0,
+      params.selection.strategy
+    );
+    const newMetrics = [...trainingState.epochMetrics, epochMetrics];
+    this.emit('epochEnd', epochMetrics);
+
+    // Check for early stopping
+    if (shouldStopEarly(newMetrics, 3)) {
+      console.log('🛑 Early stopping activated');
+      this.state = { ...this.state, trainingState: { ...trainingState, isTraining: false, epochMetrics: newMetrics } };
+      this.finish('early-stop');
+      return;
+    }
+
+    // Apply diversity maintenance within each guild (the archive seeds diversity instead under
+    // quality diversity) and carry the population into the next epoch
+    const diversityMaintainedObservers = params.qualityDiversity.enabled
+      ? getAllObservers(guilds)
+      : guilds.flatMap(guild => maintainDiversity(guild.observers, 0.3, 0.2, this.random));
+    const nextEpochsCompleted = trainingState.epochsCompleted + 1;
+    const nextLR = calculateLearningRate(trainingState.currentEpoch + 1, params.targetEpochs, params.learningRate);
+
+    this.emit('checkpoint', {
+      version: '1.0',
+      timestamp: Date.now(),
+      observers: diversityMaintainedObservers,
+      trainingMetrics: newMetrics,
+      params,
+      totalEpochs: nextEpochsCompleted,
+      seed: params.seed,
+      archive: this.state.archive,
+    });
+
+    console.log(`✅ Epoch ${trainingState.currentEpoch + 1} complete: Win Rate ${epochMetrics.winRate.toFixed(1)}%, P&L $${epochMetrics.totalPnL.toFixed(2)}, Diversity ${epochMetrics.diversityScore.toFixed(2)}`);
+
+    if (nextEpochsCompleted >= params.targetEpochs) {
+      console.log(`🎉 Training complete! ${params.targetEpochs} epochs finished`);
+      this.state = {
+        ...this.state,
+        preservedObservers: diversityMaintainedObservers,
+        trainingState: { ...trainingState, isTraining: false, epochsCompleted: nextEpochsCompleted, epochMetrics: newMetrics },
+      };
+      this.finish('training-complete');
+      return;
+    }
+
+    const nextTimeframeIndex = params.cycleTimeframes
+      ? (trainingState.timeframeIndex + 1) % TRAINING_TIMEFRAMES.length
+      : trainingState.timeframeIndex;
+    const nextTimeframe = params.cycleTimeframes ? TRAINING_TIMEFRAMES[nextTimeframeIndex] : params.timeframe;
+
+    this.state = {
+      ...this.state,
+      params: { ...params, timeframe: nextTimeframe },
+      preservedObservers: diversityMaintainedObservers,
+      trainingState: {
+        ...trainingState,
+        currentEpoch: nextEpochsCompleted,
+        epochsCompleted: nextEpochsCompleted,
+        timeframeIndex: nextTimeframeIndex,
+        epochMetrics: newMetrics,
+        currentLearningRate: nextLR,
+      },
+    };
+
+    console.log(`Starting epoch ${nextEpochsCompleted + 1}/${params.targetEpochs}${params.cycleTimeframes ? ` (${nextTimeframe})` : ''}`);
+
+    if (nextTimeframe === params.timeframe) {
+      this.reset();
+      return;
+    }
+
+    // A different timeframe needs a different candle series
+    const candles = this.options.resolveMarketData?.(nextTimeframe) ?? null;
+    if (candles) {
+      this.provideMarketData(candles);
+    } else {
+      this.update({ status: 'awaiting-data' });
+      this.emit('awaitingData', nextTimeframe);
+    }
+  }
+}
@@ -1,17 +1,27 @@
-import type { PrimeEmbedding } from '../types';
+import type { PrimeEmbedding, EmbeddingKind } from '../types';
 import { PRIMES } from '../constants';
+import type { Random } from './randomService';
+import { embeddingResidue } from './primeBasisService';
 
 /**
  * Calculates the Prime-Hilbert embedding for a given integer n.
  * Ψ(n) = {p → (ap(n), φp(n))}p∈P
- * @param n The integer to embed.
- * @param collectivePhase The collective phase for the guild at this prime.
- * @returns An array of embeddings for each prime.
+ * @param n The predicted price to embed.
+ * @param collectivePhaseVector The guild's collective phase at each basis modulus.
+ * @param basis The moduli P (see primeBasisService).
+ * @param embedding How n becomes the integer whose residues are taken.
+ * @param referencePrice The price the prediction was made from (used by relative embeddings).
+ * @returns An array of embeddings for each modulus.
  */
-export const calculateEmbedding = (n: number, collectivePhaseVector: { [prime: number]: number }): PrimeEmbedding[] => {
-  const intN = Math.round(n);
-  return PRIMES.map(p => {
-    const n_mod_p = intN % p;
+export const calculateEmbedding = (
+  n: number,
+  collectivePhaseVector: { [prime: number]: number },
+  basis: number[] = PRIMES,
+  embedding: EmbeddingKind = 'price',
+  referencePrice: number = n
+): PrimeEmbedding[] => {
+  return basis.map((p, index) => {
+    const n_mod_p = embeddingResidue(embedding, n, referencePrice, p, index);
 
     // ap(n) ∝ 1 - (n mod p / p)  -- Normalized for better visualization
     const amplitude = 1 - (n_mod_p / (p - 1));
@@ -32,12 +42,13 @@ export const calculateEmbedding = (n: number, collectivePhaseVector: { [prime: n
  * Generates a random integer within a given range.
  * @param min The minimum value.
  * @param max The maximum value.
+ * @param random Source of randomness (seeded in simulation runs).
  * @returns A random integer.
  */
-export const getRandomInt = (min: number, max: number): number => {
+export const getRandomInt = (min: number, max: number, random: Random = Math.random): number => {
   min = Math.ceil(min);
   max = Math.floor(max);
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
 };
 
 
@@ -46,14 +57,15 @@ export const getRandomInt = (min: number, max: number): number => {
  * The reward is higher for smaller errors, modeled by an exponential decay function.
  * @param prediction The observer's predicted price.
  * @param actual The actual price.
+ * @param horizon Candles between the forecast and the actual price; longer horizons tolerate larger errors.
  * @returns A reward value between 0 and 1.
  */
-export const calculateReward = (prediction: number, actual: number): { reward: number, error: number } => {
+export const calculateReward = (prediction: number, actual: number, horizon: number = 1): { reward: number, error: number } => {
     const error = Math.abs(prediction - actual);
     // The scaling factor `k` determines how quickly the reward falls off.
     // A smaller `k` is more forgiving of larger errors.
-    // Let's scale it based on the price magnitude.
-    const k = 10 / actual; 
+    // Let's scale it based on the price magnitude and the forecast horizon.
+    const k = 10 / (actual * horizon); 
     const reward = Math.exp(-k * (error ** 2));
     
     return { reward, error };
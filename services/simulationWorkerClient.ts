@@ -0,0 +1,78 @@
+import type {
+  SimulationParams,
+  SimulationSnapshot,
+  SimulationWorkerClient,
+  SimulationWorkerEvents,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+} from '../types';
+import { SimulationEngine } from './simulationEngine';
+
+/**
+ * Simulation Worker Client
+ * Main-thread side of workers/simulationWorker.ts. Mirrors the SimulationEngine API as
+ * messages and re-emits the worker's throttled snapshots and engine events.
+ */
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Create a worker-backed engine. The Worker itself starts on the first command,
+ * so clients that are never used (e.g. React StrictMode's discarded initializer) cost nothing.
+ */
+export const createSimulationWorker = (params: SimulationParams): SimulationWorkerClient => {
+  const listeners: { [K in keyof SimulationWorkerEvents]?: Set<Listener<SimulationWorkerEvents[K]>> } = {};
+  // An idle engine's state stands in until the worker reports its own
+  let state: SimulationSnapshot = new SimulationEngine(params).getState();
+  let worker: Worker | null = null;
+
+  const emit = <K extends keyof SimulationWorkerEvents>(event: K, payload: SimulationWorkerEvents[K]) => {
+    listeners[event]?.forEach(listener => listener(payload));
+  };
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('../workers/simulationWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<SimulationWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'change') state = message.payload;
+      emit(message.type, message.payload);
+    });
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      console.error('❌ Simulation worker error:', event.message);
+      emit('error', event.message);
+    });
+    return worker;
+  };
+
+  const send = (request: SimulationWorkerRequest) => getWorker().postMessage(request);
+
+  return {
+    on: <K extends keyof SimulationWorkerEvents>(event: K, listener: Listener<SimulationWorkerEvents[K]>) => {
+      const eventListeners: { [P in K]?: Set<Listener<SimulationWorkerEvents[P]>> } = listeners; // Viewed through K so the new set can be stored under `event`
+      const set = eventListeners[event] ?? new Set<Listener<SimulationWorkerEvents[K]>>();
+      eventListeners[event] = set;
+      set.add(listener);
+      return () => set.delete(listener);
+    },
+    getState: () => state,
+    get status() {
+      return state.status;
+    },
+    load: (params, marketData) => send({ type: 'load', params, marketData }),
+    provideMarketData: (marketData) => send({ type: 'provideMarketData', marketData }),
+    appendCandles: (candles) => send({ type: 'appendCandles', candles }),
+    startTraining: (params) => send({ type: 'startTraining', params }),
+    loadCheckpoint: (checkpoint) => send({ type: 'loadCheckpoint', checkpoint }),
+    setRunning: (running) => send({ type: 'run', running }),
+    setSpeed: (speed) => send({ type: 'setSpeed', speed }),
+    step: () => send({ type: 'step' }),
+    stepBack: () => send({ type: 'stepBack' }),
+    seek: (step) => send({ type: 'seek', step }),
+    fork: (params) => send({ type: 'fork', params }),
+    terminate: () => {
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
@@ -0,0 +1,239 @@
+import type {
+  Candle,
+  MarketRegime,
+  MarketDataProvider,
+  SyntheticMarket,
+  SyntheticMarketConfig,
+  RegimeDetectionScore,
+} from '../types';
+import { TIMEFRAME_MS, DEFAULT_CANDLE_COUNT } from '../constants';
+import { createRandom } from './randomService';
+
+/**
+ * Synthetic Market Generator
+ * Produces deterministic OHLC series with known statistical properties so we can
+ * check whether the ecology learns anything. Supported processes:
+ * - Geometric Brownian motion
+ * - Markov regime switching (trending / ranging / volatile)
+ * - Merton jump diffusion
+ * - Mean-reverting Ornstein–Uhlenbeck (on log price)
+ */
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const SUBSTEPS_PER_CANDLE = 12; // Intra-candle path resolution used to form high/low
+const DEFAULT_START_TIME = Date.UTC(2024, 0, 1); // Fixed so output does not depend on the clock
+const REGIMES: MarketRegime[] = ['trending', 'ranging', 'volatile'];
+const BASE_VOLUME = 100; // Typical base-asset volume per candle
+const REGIME_VOLUME_MULTIPLIER: Record<MarketRegime, number> = {
+  trending: 1.2,
+  ranging: 0.8,
+  volatile: 1.8,
+};
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+const gaussian = (random: () => number): number => {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+interface RegimeDynamics {
+  drift: number; // Annualized drift of log price
+  volatility: number; // Annualized volatility
+  meanReversionSpeed: number; // 0 = no mean reversion
+}
+
+/**
+ * Per-regime dynamics for the regime-switching model, derived from the base config
+ */
+const getRegimeDynamics = (
+  regime: MarketRegime,
+  trendSign: number,
+  config: Required<SyntheticMarketConfig>
+): RegimeDynamics => {
+  switch (regime) {
+    case 'trending':
+      return { drift: trendSign * Math.max(Math.abs(config.drift), 1.5), volatility: config.volatility * 0.7, meanReversionSpeed: 0 };
+    case 'ranging':
+      return { drift: 0, volatility: config.volatility * 0.5, meanReversionSpeed: config.meanReversionSpeed * 2.5 };
+    case 'volatile':
+      return { drift: 0, volatility: config.volatility * 2.5, meanReversionSpeed: 0 };
+  }
+};
+
+/**
+ * Pick the next regime of the Markov chain.
+ * Stays with probability `persistence`, otherwise jumps uniformly to one of the other regimes.
+ */
+const nextRegime = (current: MarketRegime, persistence: number, random: () => number): MarketRegime => {
+  if (random() < persistence) return current;
+  const others = REGIMES.filter(r => r !== current);
+  return others[Math.floor(random() * others.length)];
+};
+
+const withDefaults = (config: SyntheticMarketConfig): Required<SyntheticMarketConfig> => ({
+  startPrice: 50000,
+  startTime: DEFAULT_START_TIME,
+  drift: 0.2,
+  volatility: 0.6,
+  meanReversionSpeed: 20,
+  jumpIntensity: 12,
+  jumpMean: 0,
+  jumpStdDev: 0.05,
+  regimePersistence: 0.97,
+  ...config,
+});
+
+/**
+ * Generate a synthetic candle series with ground-truth regime labels.
+ * Labels come from the Markov chain for the regime-switching model; the single-process
+ * models carry the regime they represent (GBM = trending, OU = ranging, jumps = volatile).
+ */
+export const generateSyntheticMarket = (config: SyntheticMarketConfig): SyntheticMarket => {
+  const cfg = withDefaults(config);
+  const random = createRandom(cfg.seed);
+  const candleMs = TIMEFRAME_MS[cfg.timeframe];
+  const dt = candleMs / YEAR_MS / SUBSTEPS_PER_CANDLE; // Substep length in years
+  const sqrtDt = Math.sqrt(dt);
+
+  const candles: Candle[] = [];
+  const regimes: MarketRegime[] = [];
+
+  // Separate stream for volume so the price path for a seed is unaffected by volume modelling
+  const volumeRandom = createRandom(cfg.seed ^ 0x9E3779B9);
+  const expectedCandleMove = cfg.volatility * Math.sqrt(candleMs / YEAR_MS);
+
+  let logPrice = Math.log(cfg.startPrice);
+  let regime: MarketRegime = cfg.model === 'regime-switching' ? REGIMES[Math.floor(random() * REGIMES.length)] : 'trending';
+  let trendSign = random() < 0.5 ? -1 : 1;
+  let anchor = logPrice; // Mean level for mean-reverting dynamics
+
+  for (let i = 0; i < cfg.length; i++) {
+    let dynamics: RegimeDynamics;
+
+    switch (cfg.model) {
+      case 'regime-switching': {
+        const previous = regime;
+        if (i > 0) regime = nextRegime(regime, cfg.regimePersistence, random);
+        if (regime !== previous) {
+          trendSign = random() < 0.5 ? -1 : 1;
+          anchor = logPrice; // Ranging markets oscillate around where they started
+        }
+        dynamics = getRegimeDynamics(regime, trendSign, cfg);
+        break;
+      }
+      case 'ornstein-uhlenbeck':
+        regime = 'ranging';
+        dynamics = { drift: 0, volatility: cfg.volatility, meanReversionSpeed: cfg.meanReversionSpeed };
+        break;
+      case 'jump-diffusion':
+        regime = 'volatile';
+        dynamics = { drift: cfg.drift, volatility: cfg.volatility, meanReversionSpeed: 0 };
+        break;
+      case 'gbm':
+      default:
+        regime = 'trending';
+        dynamics = { drift: cfg.drift, volatility: cfg.volatility, meanReversionSpeed: 0 };
+        break;
+    }
+
+    const open = Math.exp(logPrice);
+    let high = open;
+    let low = open;
+
+    for (let s = 0; s < SUBSTEPS_PER_CANDLE; s++) {
+      const { drift, volatility, meanReversionSpeed } = dynamics;
+      // Itô-corrected drift for log price, plus pull toward the anchor when mean reverting
+      let change = (drift - 0.5 * volatility * volatility) * dt + volatility * sqrtDt * gaussian(random);
+      if (meanReversionSpeed > 0) {
+        change += meanReversionSpeed * (anchor - logPrice) * dt;
+      }
+      if (cfg.model === 'jump-diffusion' && random() < cfg.jumpIntensity * dt) {
+        change += cfg.jumpMean + cfg.jumpStdDev * gaussian(random);
+      }
+      logPrice += change;
+
+      const price = Math.exp(logPrice);
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+    }
+
+    const close = Math.exp(logPrice);
+    // Volume rises with the size of the move and with market stress
+    const moveRatio = Math.abs(Math.log(close / open)) / Math.max(expectedCandleMove, Number.EPSILON);
+    const volume = BASE_VOLUME * REGIME_VOLUME_MULTIPLIER[regime] * (1 + moveRatio) * (0.6 + 0.8 * volumeRandom());
+
+    candles.push({
+      time: cfg.startTime + i * candleMs,
+      open,
+      high,
+      low,
+      close,
+      volume,
+      quoteVolume: volume * (open + close) / 2,
+      regime,
+    });
+    regimes.push(regime);
+  }
+
+  return { candles, regimes };
+};
+
+const emptyConfusion = (): RegimeDetectionScore['confusion'] =>
+  Object.fromEntries(
+    REGIMES.map(a => [a, Object.fromEntries(REGIMES.map(d => [d, 0]))])
+  ) as RegimeDetectionScore['confusion'];
+
+/**
+ * Add one detected/actual pair to a running detection score (null starts a new one)
+ */
+export const recordRegimeDetection = (
+  score: RegimeDetectionScore | null,
+  detected: MarketRegime,
+  actual: MarketRegime
+): RegimeDetectionScore => {
+  const confusion = score ? { ...score.confusion, [actual]: { ...score.confusion[actual] } } : emptyConfusion();
+  confusion[actual][detected]++;
+  const samples = (score?.samples ?? 0) + 1;
+  const correct = REGIMES.reduce((sum, regime) => sum + confusion[regime][regime], 0);
+  return { accuracy: correct / samples, samples, confusion };
+};
+
+/**
+ * Score detected regimes (e.g. from detectMarketRegime) against ground-truth labels.
+ * Arrays are compared index by index over their common length.
+ */
+export const scoreRegimeDetection = (
+  detected: MarketRegime[],
+  actual: MarketRegime[]
+): RegimeDetectionScore => {
+  const samples = Math.min(detected.length, actual.length);
+  let score: RegimeDetectionScore = { accuracy: 0, samples: 0, confusion: emptyConfusion() };
+  for (let i = 0; i < samples; i++) {
+    score = recordRegimeDetection(score, detected[i], actual[i]);
+  }
+  return score;
+};
+
+/**
+ * Offline provider generating a synthetic series for whichever timeframe is requested.
+ * A requested date range sets the start time and length of the series.
+ */
+export const createSyntheticMarketDataProvider = (
+  config: Omit<SyntheticMarketConfig, 'timeframe' | 'length'>,
+  length: number = DEFAULT_CANDLE_COUNT
+): MarketDataProvider => ({
+  id: 'synthetic',
+  label: `Synthetic (${config.model}, seed ${config.seed})`,
+  fetchCandles: async ({ timeframe, range }) => {
+    if (!range) {
+      return generateSyntheticMarket({ ...config, timeframe, length }).candles;
+    }
+    const candleMs = TIMEFRAME_MS[timeframe];
+    const startTime = Math.ceil(range.start / candleMs) * candleMs;
+    const rangeLength = Math.max(0, Math.ceil((range.end - startTime) / candleMs));
+    return generateSyntheticMarket({ ...config, timeframe, length: rangeLength, startTime }).candles;
+  },
+});
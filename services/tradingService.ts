@@ -1,21 +1,22 @@
-import type { TradingSignal, TradingAction, Position, TradingStats, EcologyFeatures } from '../types';
+import type { TradingSignal, TradingAction, Position, TradingStats, EcologyFeatures, PredictiveDistribution } from '../types';
+import { directionProbability } from './probabilisticForecastService';
 
 /**
  * Enhanced trading bot with adaptive risk management using ecology features
  */
 
-interface TradingConfig {
+export interface TradingConfig {
   minConfidence: number; // Minimum prediction accuracy to trade
-  basePositionSize: number; // Base size of each position in BTC
+  basePositionNotional: number; // Base value of each position in quote currency (e.g. USDT)
   minStopLoss: number; // Minimum stop loss percentage
   maxStopLoss: number; // Maximum stop loss percentage
   rewardRiskRatio: number; // Take profit / stop loss ratio
   useAdaptiveRisk: boolean; // Enable adaptive risk management
 }
 
-const DEFAULT_CONFIG: TradingConfig = {
+export const DEFAULT_TRADING_CONFIG: TradingConfig = {
   minConfidence: 0.60, // Only trade when 60%+ accurate
-  basePositionSize: 0.01, // 0.01 BTC base position
+  basePositionNotional: 1000, // $1000 base position, converted to base units at entry price
   minStopLoss: 1.0, // 1% minimum stop loss
   maxStopLoss: 5.0, // 5% maximum stop loss
   rewardRiskRatio: 2.5, // 2.5:1 reward/risk ratio
@@ -49,12 +50,12 @@ const calculateAdaptiveStopLoss = (
  */
 const calculateAdaptivePositionSize = (
   ecologyFeatures: EcologyFeatures,
-  config: TradingConfig
+  baseSize: number
 ): number => {
   const { confidence, trendStrength, phaseConsensus, marketRegime } = ecologyFeatures;
   
-  // Base size from config
-  let size = config.basePositionSize;
+  // Base size in base asset units
+  let size = baseSize;
   
   // Scale by confidence (0.5x to 1.5x)
   const confidenceMultiplier = 0.5 + confidence;
@@ -77,7 +78,9 @@ const calculateAdaptivePositionSize = (
 };
 
 /**
- * Generate an enhanced trading signal using ecology features
+ * Generate an enhanced trading signal using ecology features.
+ * With a population predictive distribution, confidence is the probability of the predicted
+ * direction instead of the elite's reward, for both the entry threshold and position sizing.
  */
 export const generateTradingSignal = (
   predictedPrice: number,
@@ -86,9 +89,15 @@ export const generateTradingSignal = (
   lastPrediction: 'UP' | 'DOWN',
   timestamp: number,
   ecologyFeatures?: EcologyFeatures,
-  config: TradingConfig = DEFAULT_CONFIG
+  predictive?: PredictiveDistribution,
+  config: TradingConfig = DEFAULT_TRADING_CONFIG
 ): TradingSignal => {
-  const confidence = directionAccuracy / 100; // Convert percentage to 0-1
+  const confidence = predictive
+    ? directionProbability(predictive, lastPrediction)
+    : directionAccuracy / 100; // Convert percentage to 0-1
+  if (predictive && ecologyFeatures) {
+    ecologyFeatures = { ...ecologyFeatures, confidence };
+  }
   
   // Determine action based on confidence and direction
   let action: TradingAction = 'HOLD';
@@ -132,6 +141,27 @@ export const generateTradingSignal = (
     predictedPrice,
     timestamp,
     ecologyFeatures,
+    ...(predictive && { predictive }),
+  };
+};
+
+/**
+ * Close a position at the given price
+ */
+export const closePosition = (position: Position, price: number, timestamp: number): Position => {
+  const pnlPercent = position.type === 'LONG'
+    ? ((price - position.entryPrice) / position.entryPrice) * 100
+    : ((position.entryPrice - price) / position.entryPrice) * 100;
+  const pnl = position.type === 'LONG'
+    ? (price - position.entryPrice) * position.size
+    : (position.entryPrice - price) * position.size;
+
+  return {
+    ...position,
+    exitPrice: price,
+    exitTime: timestamp,
+    pnl,
+    pnlPercent,
   };
 };
 
@@ -143,7 +173,7 @@ export const executeTradingSignal = (
   currentPosition: Position | null,
   currentPrice: number,
   timestamp: number,
-  config: TradingConfig = DEFAULT_CONFIG
+  config: TradingConfig = DEFAULT_TRADING_CONFIG
 ): { newPosition: Position | null; closedPosition: Position | null } => {
   let newPosition: Position | null = currentPosition;
   let closedPosition: Position | null = null;
@@ -172,27 +202,20 @@ export const executeTradingSignal = (
       (signal.action === 'SELL' && currentPosition.type === 'LONG'); // Reverse signal
     
     if (shouldClose) {
-      const pnl = currentPosition.type === 'LONG'
-        ? (currentPrice - currentPosition.entryPrice) * currentPosition.size
-        : (currentPosition.entryPrice - currentPrice) * currentPosition.size;
-      
-      closedPosition = {
-        ...currentPosition,
-        exitPrice: currentPrice,
-        exitTime: timestamp,
-        pnl,
-        pnlPercent,
-      };
+      closedPosition = closePosition(currentPosition, currentPrice, timestamp);
       newPosition = null;
     }
   }
   
   // Open new position if signal is strong and we don't have one
   if (!newPosition && signal.action !== 'HOLD' && signal.confidence >= config.minConfidence) {
+    // Convert the notional to base asset units so sizing works for any symbol
+    const baseSize = config.basePositionNotional / currentPrice;
+    
     // Calculate adaptive position size
     const positionSize = signal.ecologyFeatures && config.useAdaptiveRisk
-      ? calculateAdaptivePositionSize(signal.ecologyFeatures, config)
-      : config.basePositionSize;
+      ? calculateAdaptivePositionSize(signal.ecologyFeatures, baseSize)
+      : baseSize;
     
     newPosition = {
       type: signal.action === 'BUY' ? 'LONG' : 'SHORT',
@@ -18,9 +18,21 @@ export interface TradingExperience {
   wasExecuted: boolean; // Whether this observer's advice was actually used
 }
 
+/**
+ * One observer's forecast for a horizon beyond the next candle (see services/forecastHorizonService.ts)
+ */
+export interface HorizonForecast {
+  horizon: number; // Candles ahead (> 1; the next-candle forecast is Observer.n)
+  n: number; // Predicted close `horizon` candles after the latest one
+  reward: number; // Horizon-scaled reward of the latest forecast that reached its target
+  error: number; // Error of that forecast
+  pending: Array<{ n: number; fromPrice: number }>; // Issued forecasts (and the close they were made from) waiting for their target candle, oldest first
+}
+
 export interface Observer {
   id: number;
-  n: number; // Represents the predicted price
+  n: number; // Represents the predicted price (mean of the observer's predictive distribution)
+  scale: number; // Std dev of the observer's Gaussian predictive distribution around n (price units)
   proposedAction: 'BUY' | 'SELL' | 'HOLD'; // RL: Each observer proposes an action
   proposedSize: number; // RL: Proposed position size (0-1 scale)
   reward: number; // Prediction-based reward
@@ -37,29 +49,244 @@ export interface Observer {
     trendFollowing: number; // 0-1: Prefer trending vs mean-reversion
     volatilityPreference: number; // 0-1: Prefer high vs low volatility
     holdingBias: number; // -1 to 1: Bias toward buying, selling, or holding
+    volumeSensitivity: number; // 0-1: How much volume confirmation sways action and size
   };
   fitness: number; // Combined fitness score for evolution
+  forecasts: HorizonForecast[]; // Longer-horizon forecasts, one per extra horizon (empty for next-candle only)
+  // Lifecycle (see services/lifecycleService.ts)
+  parentId: number | null; // Observer this one was born from; null for founders
+  lineageId: number; // Id of the founder the lineage descends from
+  generation: number; // Births since the founder (0 for founders)
+  lowFitnessSteps: number; // Consecutive steps below the lifecycle fitness threshold
 }
 
 export interface Guild {
   id: string;
-  collectivePhaseVector: { [prime: number]: number };
+  collectivePhaseVector: { [prime: number]: number }; // One phase per basis modulus
+  circularPhase: CircularPhaseVector | null; // Averaged unit vectors behind the phases ('circular' phase update rule only)
   observers: Observer[];
   eliteN: number | null;
   eliteReward: number;
+  capitalShare: number; // Fraction of the shared trading capital this guild trades (all guilds sum to 1)
+  position: Position | null; // The guild's open position
+  roundPnL: number; // Realized P&L since the last capital allocation
+  respawns: number; // Times the guild went extinct and was re-seeded
+  predictive: PredictiveDistribution | null; // Population forecast for the next close (distributional scoring rules only)
+  calibration: IntervalCalibration; // Learned width correction for the guild's predictive intervals
+  phaseReturnTable: PhaseReturnTable; // Decayed counts of collective phase vs next-candle direction
+  carryingCapacity: number; // Population the lifecycle breeds the guild toward
+}
+
+/**
+ * Per basis modulus: exponential average of the unit vectors e^{2πi·r/p} of the residues
+ * the phase was pulled toward (see services/circularPhaseService.ts)
+ */
+export interface CircularResultant {
+  re: number;
+  im: number;
+  weightSq: number; // Sum of the squared averaging weights: the expected |resultant|² if residues were random
+}
+
+export type CircularPhaseVector = { [prime: number]: CircularResultant };
+
+/**
+ * Per basis modulus: decayed [down, up] counts of the next candle's direction for each phase bin
+ */
+export type PhaseReturnTable = Record<number, Array<[number, number]>>;
+
+/**
+ * One observer's objectives under multi-objective fitness (see services/paretoService.ts)
+ */
+export interface ParetoPoint {
+  id: number; // Observer id
+  return: number; // Sum of executed trade outcomes in its experience buffer
+  drawdown: number; // Max drawdown of those outcomes' running sum
+  error: number; // Prediction error at the elite horizon, as a fraction of the price
+  novelty: number; // Mean strategy-gene distance to its nearest neighbours
+  front: number; // 0 = the Pareto front (non-dominated)
+}
+
+/**
+ * Ecology entropy of one guild (see services/entropyService.ts)
+ */
+export interface EntropyMetrics {
+  predictionEntropy: number; // Bits, predictions binned by 0.25% return steps
+  residueEntropy: number; // 0-1, mean normalized entropy of the residues per basis modulus
+  phaseReturnInformation: number; // Bits, mean mutual information between phase bins and next-candle direction
+}
+
+/**
+ * Population predictive distribution for the next close: the observers' Gaussians
+ * moment-matched into one, with its interval width calibrated against past coverage
+ */
+export interface PredictiveDistribution {
+  mean: number;
+  scale: number; // Calibrated std dev
+  level: number; // Nominal coverage of [lower, upper]
+  lower: number;
+  upper: number;
+  referencePrice: number; // Price the forecast was made from
+  probabilityUp: number; // P(next close > referencePrice)
+}
+
+export interface IntervalCalibration {
+  factor: number; // Multiplier on the raw predictive scale (grows when intervals miss too often)
+  hits: number; // Issued intervals that contained the actual close
+  total: number; // Issued intervals resolved so far
 }
 
 export type Timeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
 
+export type MarketDataProviderId = 'mexc' | 'local' | 'synthetic';
+
+export type SyntheticMarketModel = 'gbm' | 'regime-switching' | 'jump-diffusion' | 'ornstein-uhlenbeck';
+
+export type DataRepairPolicy = 'none' | 'drop' | 'forward-fill' | 'interpolate';
+
+export type PrimeBasisKind = 'first-n' | 'explicit' | 'prime-powers';
+
+/**
+ * Moduli of the Prime-Hilbert space (see services/primeBasisService.ts)
+ */
+export interface PrimeBasisConfig {
+  kind: PrimeBasisKind;
+  count: number; // Basis size for 'first-n' (first primes) and 'prime-powers' (first prime powers)
+  primes: number[]; // Basis for 'explicit'
+}
+
+export type EmbeddingKind = 'price' | 'log-price' | 'returns' | 'multi-scale';
+
+/**
+ * Births and deaths of observers (see services/lifecycleService.ts)
+ */
+export interface LifecycleConfig {
+  enabled: boolean; // Off = a fixed population of numObservers per guild
+  fitnessThreshold: number; // Observers below this fitness...
+  patience: number; // ...for this many consecutive steps are culled
+  minPopulation: number; // Carrying-capacity bounds per guild
+  maxPopulation: number;
+}
+
+// 'blend' is BLX-α; 'sbx' is simulated binary crossover
+export type CrossoverOperator = 'none' | 'uniform' | 'blend' | 'sbx';
+
+export type ParentSelection = 'elite-ensemble' | 'elite-and-self' | 'tournament';
+
+/**
+ * Recombination of two parents into a non-elite observer (see services/evolutionaryLearningService.ts)
+ */
+export interface CrossoverConfig {
+  operator: CrossoverOperator; // 'none' = every observer evolves alone toward one elite
+  probability: number; // Chance per non-elite observer per step
+  parentSelection: ParentSelection;
+  blendAlpha: number; // BLX-α widening of the parents' interval
+  sbxEta: number; // SBX distribution index (higher = children closer to parents)
+}
+
+// Axes of the quality-diversity grid: trade frequency × holding time, or trendFollowing × riskTolerance
+export type BehaviorDescriptorKind = 'trading-style' | 'strategy-genes';
+
+/**
+ * MAP-Elites archive kept across a run (see services/qualityDiversityService.ts)
+ */
+export interface QualityDiversityConfig {
+  enabled: boolean;
+  descriptor: BehaviorDescriptorKind;
+  bins: number; // Cells per descriptor axis
+  seedRate: number; // Chance per guild per step of replacing its weakest observer with an archive seed
+}
+
+export interface ArchiveEntry {
+  observer: Observer; // Fittest observer seen in the cell (without experience or forecasts)
+  fitness: number; // Its fitness when archived
+  relativeN: number; // Its prediction as a return from the price when archived
+  timeStep: number; // Step it was archived at
+}
+
+export interface QualityDiversityArchive {
+  descriptor: BehaviorDescriptorKind;
+  bins: number;
+  cells: Record<string, ArchiveEntry>; // Keyed "x,y" by cell
+}
+
+export type SelectionStrategy = 'truncation' | 'tournament' | 'linear-rank' | 'roulette' | 'boltzmann';
+
+/**
+ * How each guild picks its elite ensemble (see services/selectionService.ts)
+ */
+export interface SelectionConfig {
+  strategy: SelectionStrategy; // 'truncation' = always the top `ensembleSize`
+  ensembleSize: number; // Elites the rest of the guild evolves toward
+  tournamentSize: number; // Contenders per tournament pick
+  rankPressure: number; // Linear rank: 1 = uniform, 2 = the strongest bias toward the best
+  temperature: number; // Boltzmann: lower = greedier
+}
+
+export type RewardFunctionKind = 'legacy' | 'gaussian' | 'laplacian' | 'directional' | 'return-sign' | 'trading-pnl';
+
+/**
+ * Point-forecast reward (see services/rewardFunctionService.ts)
+ */
+export interface RewardFunctionConfig {
+  kind: RewardFunctionKind;
+  scale: number; // Percent of the price at which the reward saturates (ignored by 'legacy')
+}
+
+// 'squared-error' scores the point forecast with the reward function; the others are proper scoring rules on the observer's distribution
+export type ScoringRule = 'squared-error' | 'crps' | 'log-score' | 'pinball';
+
+// 'linear' averages residues as numbers; 'circular' averages them as angles on the unit circle
+export type PhaseUpdateRule = 'linear' | 'circular';
+
+// 'multi-objective' ranks observers by NSGA-II non-dominated sorting instead of the calculateFitness blend
+export type FitnessMode = 'scalar' | 'multi-objective';
+
+// 'entropy-minimizing' steers the phase vector and elite selection toward low-entropy consensus
+export type DynamicsMode = 'standard' | 'entropy-minimizing';
+
+// 'next-candle' trades the t+1 elite; 'timed-entry' takes direction from the longest horizon and enters only when t+1 agrees
+export type HorizonSignalMode = 'next-candle' | 'timed-entry';
+
 export interface SimulationParams {
+  symbol: string; // Exchange symbol, e.g. 'BTCUSDT'
+  dataProvider: MarketDataProviderId; // Where market candles are loaded from
+  syntheticModel: SyntheticMarketModel; // Process used by the synthetic provider
+  syntheticSeed: number; // Seed for the synthetic provider (same seed = same series)
+  dateRange: DateRange | null; // Historical window to load; null = latest 1000 candles
+  baseTimeframe: Timeframe | null; // Resample every timeframe from one series at this resolution; null = fetch each natively
+  liveMode: boolean; // Step on candles closing on a live kline stream instead of replaying history
+  liveStreamUrl: string; // WebSocket endpoint for live mode (exchange or local mock server)
+  dataRepairPolicy: DataRepairPolicy; // How bad candles and missing intervals are repaired before a run
   numObservers: number;
   learningRate: number; // α
   mutationRate: number;
+  seed: number; // Seed for every random draw in the ecology (same seed + same data = identical run)
   resetToken: number;
   timeframe: Timeframe;
   trainingMode: boolean; // Enable multi-epoch training
   cycleTimeframes: boolean; // Cycle through different timeframes each epoch
   targetEpochs: number; // Number of epochs to train
+  numGuilds: number; // Independent guilds in the ecology; numObservers is per guild
+  migrationInterval: number; // Steps between ecology rounds (migration, capital allocation, extinction); 0 disables them
+  migrationSize: number; // Fittest observers each guild sends to the next guild every round
+  capitalCompetition: number; // How strongly capital follows each guild's return over the round (0 = equal shares)
+  extinctionShare: number; // A guild whose share drops below this fraction of an equal share is respawned (0 = never)
+  primeBasis: PrimeBasisConfig; // Moduli the predictions are embedded on; saved with checkpoints
+  embedding: EmbeddingKind; // How a predicted price becomes the integer whose residues form the embedding
+  forecastHorizons: number[]; // Horizons in candles observers forecast; t+1 (Observer.n) is always included
+  eliteHorizon: number; // Horizon whose forecast accuracy ranks the guild elite (1 = next candle)
+  horizonSignalMode: HorizonSignalMode; // How trading signals combine horizons
+  scoringRule: ScoringRule; // Reward function for next-candle forecasts; distributional rules also drive signal confidence
+  rewardFunction: RewardFunctionConfig; // Reward for point forecasts (next-candle under 'squared-error', and longer horizons)
+  dynamicsMode: DynamicsMode; // Phase-vector update and elite selection rules
+  phaseUpdateRule: PhaseUpdateRule; // How the collective phase averages residues
+  lifecycle: LifecycleConfig;
+  crossover: CrossoverConfig;
+  selection: SelectionConfig;
+  fitnessMode: FitnessMode;
+  qualityDiversity: QualityDiversityConfig;
+  paretoPick: number | null; // Observer id that drives trading while on the Pareto front (null = knee point)
+  entropyWeight: number; // 0-1 blend of fitness with prediction density in entropy-minimizing selection
 }
 
 export interface EpochMetrics {
@@ -74,6 +301,7 @@ export interface EpochMetrics {
   diversityScore: number;
   validationWinRate?: number;
   validationPnL?: number;
+  selectionStrategy?: SelectionStrategy; // Absent in models trained before selection strategies
 }
 
 export interface TrainingState {
@@ -95,6 +323,8 @@ export interface ModelCheckpoint {
   trainingMetrics: EpochMetrics[];
   params: SimulationParams;
   totalEpochs: number;
+  seed: number; // Seed of the run that produced this model
+  archive: QualityDiversityArchive | null; // Quality-diversity archive of the run, if it kept one
 }
 
 export interface PredictionResult {
@@ -115,6 +345,29 @@ export interface SimulationStats {
   lastPrediction?: 'UP' | 'DOWN';
   lastActual?: 'UP' | 'DOWN';
   predictionHistory: PredictionResult[];
+  horizonAccuracy: HorizonAccuracy[]; // One per horizon beyond t+1
+  predictive: PredictiveDistribution | null; // Lead guild's population forecast (distributional scoring rules only)
+  intervalCoverage: number | null; // Percentage of the lead guild's resolved intervals that held the actual close
+  entropy: EntropyMetrics; // Lead guild's ecology entropy after the latest step
+  entropyHistory: Array<EntropyMetrics & { timeStep: number }>;
+  births: number; // Lifecycle births across all guilds since the run started
+  deaths: number;
+  populationHistory: Array<{ timeStep: number; population: number; capacity: number }>; // All guilds combined
+  pareto: ParetoPoint[]; // Lead guild's observers under multi-objective fitness (empty otherwise)
+  paretoDriverId: number | null; // Front member whose prediction drives the lead guild's trading
+  regimeDetection: RegimeDetectionScore | null; // Lead guild's detected regimes vs the candles' labels (labelled data only)
+}
+
+/**
+ * Direction accuracy of the lead guild's elite forecasts for one horizon
+ */
+export interface HorizonAccuracy {
+  horizon: number;
+  bestPrediction: number; // Latest elite forecast for `horizon` candles ahead
+  directionAccuracy: number; // Percentage of resolved forecasts with the right direction
+  totalPredictions: number;
+  correctPredictions: number;
+  pending: Array<{ fromPrice: number; predicted: 'UP' | 'DOWN' }>; // Issued forecasts waiting for their target candle
 }
 
 export interface Candle {
@@ -123,11 +376,129 @@ export interface Candle {
   high: number;
   low: number;
   close: number;
+  volume: number; // Base asset volume (0 when the source has none)
+  quoteVolume?: number; // Quote asset volume
+  trades?: number; // Number of trades, when the exchange reports it
+  closeTime?: number;
+  regime?: MarketRegime; // Ground-truth regime label (synthetic data only)
+}
+
+export type DataQualityIssueType =
+  | 'gap'
+  | 'duplicate'
+  | 'non-monotonic'
+  | 'invalid-price'
+  | 'ohlc-inconsistency'
+  | 'outlier-return';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  index: number; // Position in the validated series
+  time: number; // Open time of the offending candle
+  detail: string;
+}
+
+export interface DataQualityReport {
+  candleCount: number;
+  counts: Record<DataQualityIssueType, number>;
+  missingCandles: number; // Intervals absent across all gaps
+  issues: DataQualityIssue[]; // First issues found, capped for display
+}
+
+export interface DataRepairSummary {
+  policy: DataRepairPolicy;
+  duplicatesRemoved: number;
+  reordered: boolean; // Series had to be sorted by time
+  wicksFixed: number; // High/low widened to contain open and close
+  candlesDropped: number; // Invalid or spike candles removed
+  candlesReplaced: number; // Invalid or spike candles filled in place
+  candlesInserted: number; // Candles added to fill gaps
+}
+
+export interface DataQualityResult {
+  candles: Candle[]; // Series to run on (repaired unless the policy is 'none')
+  before: DataQualityReport;
+  after: DataQualityReport;
+  repairs: DataRepairSummary | null;
+}
+
+export type KlineStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface KlineStreamHandlers {
+  onPartialCandle: (candle: Candle) => void; // Every update of the still-forming candle
+  onClosedCandle: (candle: Candle) => void; // Each finished candle, in time order, including gap fills
+  onStatusChange?: (status: KlineStreamStatus) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Live candle feed. Implementations hide the transport so a local mock
+ * server can stand in for the exchange.
+ */
+export interface KlineStreamClient {
+  start: (handlers: KlineStreamHandlers) => void;
+  stop: () => void;
+}
+
+export interface DateRange {
+  start: number; // Inclusive open time (ms)
+  end: number; // Exclusive end time (ms)
+}
+
+export interface SymbolInfo {
+  symbol: string; // e.g. 'BTCUSDT'
+  label: string; // e.g. 'BTC/USDT'
+  baseAsset: string; // Asset positions are sized in
+  quoteAsset: string; // Asset prices and P&L are quoted in
+}
+
+export interface MarketDataRequest {
+  symbol: string;
+  timeframe: Timeframe;
+  range?: DateRange; // Omit for the latest candles
+  onProgress?: (candlesLoaded: number) => void; // Reported while paging through history
+}
+
+/**
+ * Source of historical candles. The app only talks to this interface,
+ * so exchanges and offline datasets are interchangeable.
+ */
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  label: string;
+  fetchCandles: (request: MarketDataRequest) => Promise<Candle[]>;
 }
 
 export type TradingAction = 'BUY' | 'SELL' | 'HOLD';
 export type MarketRegime = 'trending' | 'ranging' | 'volatile';
 
+export interface SyntheticMarketConfig {
+  model: SyntheticMarketModel;
+  seed: number;
+  timeframe: Timeframe;
+  length: number; // Number of candles to generate
+  startPrice?: number;
+  startTime?: number; // Open time of the first candle (ms)
+  drift?: number; // Annualized drift (μ)
+  volatility?: number; // Annualized volatility (σ)
+  meanReversionSpeed?: number; // Annualized OU speed (θ)
+  jumpIntensity?: number; // Expected jumps per year (λ)
+  jumpMean?: number; // Mean log jump size
+  jumpStdDev?: number; // Std dev of log jump size
+  regimePersistence?: number; // Probability of staying in the current regime each bar
+}
+
+export interface SyntheticMarket {
+  candles: Candle[];
+  regimes: MarketRegime[]; // Ground-truth regime label for each candle (also on each candle's `regime`)
+}
+
+export interface RegimeDetectionScore {
+  accuracy: number; // 0-1
+  samples: number;
+  confusion: Record<MarketRegime, Record<MarketRegime, number>>; // confusion[actual][detected]
+}
+
 export interface EcologyFeatures {
   pricePrediction: number;
   direction: 'UP' | 'DOWN';
@@ -136,6 +507,9 @@ export interface EcologyFeatures {
   trendStrength: number; // Phase alignment metric
   marketRegime: MarketRegime;
   phaseConsensus: number; // How aligned the phase vector is
+  relativeVolume: number; // Latest volume / average recent volume (1 = normal)
+  obvSlope: number; // Normalized on-balance volume slope (-1 to 1)
+  volumeWeightedVolatility: number; // Return volatility weighted by volume
 }
 
 export interface TradingSignal {
@@ -146,13 +520,14 @@ export interface TradingSignal {
   predictedPrice: number;
   timestamp: number;
   ecologyFeatures?: EcologyFeatures;
+  predictive?: PredictiveDistribution; // Population forecast the confidence was taken from, when scoring is distributional
 }
 
 export interface Position {
   type: 'LONG' | 'SHORT';
   entryPrice: number;
   entryTime: number;
-  size: number; // Position size (e.g., 0.1 BTC)
+  size: number; // Position size in base asset units (e.g., 0.1 BTC)
   exitPrice?: number;
   exitTime?: number;
   pnl?: number; // Profit/Loss in USD
@@ -170,3 +545,161 @@ export interface TradingStats {
   sharpeRatio?: number;
   maxDrawdown?: number;
 }
+
+// ========== SIMULATION ENGINE ==========
+
+/**
+ * - idle: no market data loaded yet
+ * - ready: can step (in live mode it may be waiting for the next closed candle)
+ * - awaiting-data: training moved to a timeframe whose candles the host must supply
+ * - finished: end of data reached or training complete
+ */
+export type SimulationStatus = 'idle' | 'ready' | 'awaiting-data' | 'finished';
+
+export type SimulationFinishReason = 'end-of-data' | 'training-complete' | 'early-stop';
+
+/**
+ * Complete simulation state apart from the market data itself.
+ * Restoring a snapshot assumes the engine holds the same candle series.
+ */
+export interface SimulationSnapshot {
+  status: SimulationStatus;
+  params: SimulationParams;
+  currentTimeStep: number; // Index of the newest candle revealed to the ecology
+  startStep: number; // First step of the run (after the warm-up window, or the newest candle when live)
+  guilds: Guild[]; // Empty until data is loaded
+  stats: SimulationStats; // Predictions of the lead guild (largest capital share)
+  phaseHistory: Record<string, Array<Record<string, number>>>; // Per guild id
+  tradingStats: TradingStats; // All guilds' closed trades; currentPosition is the lead guild's
+  currentSignal: TradingSignal | null; // Lead guild's latest signal
+  trainingState: TrainingState;
+  preservedObservers: Observer[] | null; // Carried into the next initialization (training epochs, loaded models)
+  rngState: number; // Position of the seeded generator, so a restored run continues the same sequence
+  archive: QualityDiversityArchive | null; // Run-wide MAP-Elites archive (quality diversity only)
+}
+
+/**
+ * Steps currently held in the engine's rewind buffer (absolute candle indices)
+ */
+export interface SimulationTimeline {
+  firstStep: number;
+  lastStep: number;
+}
+
+// Params that can change when forking a run mid-way: those read afresh every step. The rest are
+// tied to the loaded data or to state built when the population is initialized (guilds, phase
+// vectors, forecast horizons, the quality-diversity archive)
+export type ForkParams = Pick<
+  SimulationParams,
+  | 'learningRate'
+  | 'mutationRate'
+  | 'seed'
+  | 'paretoPick'
+  | 'scoringRule'
+  | 'rewardFunction'
+  | 'dynamicsMode'
+  | 'entropyWeight'
+  | 'selection'
+  | 'crossover'
+  | 'fitnessMode'
+  | 'lifecycle'
+  | 'eliteHorizon'
+  | 'horizonSignalMode'
+  | 'migrationInterval'
+  | 'migrationSize'
+  | 'capitalCompetition'
+  | 'extinctionShare'
+>;
+
+export interface SimulationEngineEvents {
+  change: SimulationSnapshot; // Any state update (step, reset, restore, epoch transition)
+  timeline: SimulationTimeline; // Rewind buffer grew, was truncated by a fork or cleared by a reset
+  epochEnd: EpochMetrics;
+  awaitingData: Timeframe; // Supply candles on this timeframe for the next epoch
+  checkpoint: ModelCheckpoint; // Persist wherever the host can (localStorage, disk)
+  finished: SimulationFinishReason;
+}
+
+// ========== BACKTEST ==========
+
+export interface BacktestTrade extends Position {
+  epoch: number; // Training epoch the trade closed in
+}
+
+/**
+ * Machine-readable result of a headless run (see scripts/observerEcology.ts)
+ */
+export interface BacktestReport {
+  version: string;
+  generatedAt: string; // ISO timestamp
+  data: {
+    source: string; // File the candles came from
+    symbol: string;
+    timeframe: Timeframe;
+    candleCount: number; // After repair
+    start: number; // Open time of the first candle (ms)
+    end: number; // Open time of the last candle (ms)
+    quality: Omit<DataQualityResult, 'candles'>;
+  };
+  params: SimulationParams;
+  seed: number;
+  finishReason: SimulationFinishReason;
+  durationMs: number;
+  tradingStats: Omit<TradingStats, 'positionHistory'>;
+  epochMetrics: EpochMetrics[];
+  checkpoint: ModelCheckpoint; // Final model, loadable with Import Model
+  trades: BacktestTrade[];
+}
+
+// ========== SIMULATION WORKER ==========
+
+export type SimulationSpeed = '1x' | '10x' | 'max';
+
+export interface SimulationWorkerEvents extends SimulationEngineEvents {
+  error: string; // A command the worker could not carry out (e.g. too few candles)
+}
+
+/**
+ * Commands from the UI thread to the simulation worker
+ */
+export type SimulationWorkerRequest =
+  | { type: 'load'; params: SimulationParams; marketData: Candle[] }
+  | { type: 'provideMarketData'; marketData: Candle[] }
+  | { type: 'appendCandles'; candles: Candle[] }
+  | { type: 'startTraining'; params: SimulationParams }
+  | { type: 'loadCheckpoint'; checkpoint: ModelCheckpoint }
+  | { type: 'run'; running: boolean }
+  | { type: 'setSpeed'; speed: SimulationSpeed }
+  | { type: 'step' }
+  | { type: 'stepBack' }
+  | { type: 'seek'; step: number }
+  | { type: 'fork'; params: Partial<ForkParams> };
+
+/**
+ * Messages from the simulation worker: throttled 'change' snapshots plus engine events
+ */
+export type SimulationWorkerResponse = {
+  [K in keyof SimulationWorkerEvents]: { type: K; payload: SimulationWorkerEvents[K] };
+}[keyof SimulationWorkerEvents];
+
+/**
+ * Main-thread handle to a SimulationEngine running in a Web Worker.
+ * Commands are fire-and-forget; state arrives through 'change' events.
+ */
+export interface SimulationWorkerClient {
+  on: <K extends keyof SimulationWorkerEvents>(event: K, listener: (payload: SimulationWorkerEvents[K]) => void) => () => void;
+  getState: () => SimulationSnapshot; // Latest snapshot received from the worker
+  readonly status: SimulationStatus;
+  load: (params: SimulationParams, marketData: Candle[]) => void;
+  provideMarketData: (marketData: Candle[]) => void;
+  appendCandles: (candles: Candle[]) => void;
+  startTraining: (params: SimulationParams) => void;
+  loadCheckpoint: (checkpoint: ModelCheckpoint) => void;
+  setRunning: (running: boolean) => void; // Step on the worker's own clock
+  setSpeed: (speed: SimulationSpeed) => void;
+  step: () => void; // Advance exactly one candle
+  stepBack: () => void;
+  seek: (step: number) => void; // Jump to a recorded step
+  fork: (params: Partial<ForkParams>) => void; // Continue from the current step under new params
+  terminate: () => void;
+}
@@ -0,0 +1,165 @@
+import type { SimulationSpeed, SimulationSnapshot, SimulationTimeline, SimulationWorkerRequest, SimulationWorkerResponse } from '../types';
+import { DEFAULT_SIMULATION_PARAMS, SIMULATION_SPEED_OPTIONS } from '../constants';
+import { SimulationEngine } from '../services/simulationEngine';
+
+/**
+ * Simulation Worker
+ * Hosts a SimulationEngine off the main thread. It steps on its own clock at the selected
+ * speed and posts state back at most every SNAPSHOT_INTERVAL_MS, so fast-forwarded
+ * training never blocks rendering or input.
+ */
+
+const SNAPSHOT_INTERVAL_MS = 100; // ~10 UI updates per second whatever the step rate
+const MAX_SPEED_SLICE_MS = 50; // Stepping budget per turn at max speed before yielding to queued commands
+
+// The DOM lib types `self` as Window; a dedicated worker scope has the same messaging surface as Worker
+const scope = self as unknown as Worker;
+const post = (message: SimulationWorkerResponse) => scope.postMessage(message);
+
+const engine = new SimulationEngine(DEFAULT_SIMULATION_PARAMS);
+let running = false;
+let speed: SimulationSpeed = '1x';
+let stepTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ========== SNAPSHOT THROTTLING ==========
+
+let pendingState: SimulationSnapshot | null = null;
+let pendingTimeline: SimulationTimeline | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let lastFlush = 0;
+
+const flush = (): void => {
+  if (flushTimer !== null) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pendingTimeline) {
+    post({ type: 'timeline', payload: pendingTimeline });
+    pendingTimeline = null;
+  }
+  if (!pendingState) return;
+  post({ type: 'change', payload: pendingState });
+  pendingState = null;
+  lastFlush = performance.now();
+};
+
+// Timeline bounds ride along with the next state flush
+engine.on('timeline', timeline => {
+  pendingTimeline = timeline;
+});
+
+engine.on('change', state => {
+  pendingState = state;
+  if (flushTimer !== null) return;
+  const wait = SNAPSHOT_INTERVAL_MS - (performance.now() - lastFlush);
+  if (wait <= 0) {
+    flush();
+  } else {
+    flushTimer = setTimeout(flush, wait);
+  }
+});
+
+// Events flush first so the UI already holds the state they refer to
+engine.on('epochEnd', payload => {
+  flush();
+  post({ type: 'epochEnd', payload });
+});
+engine.on('checkpoint', payload => {
+  flush();
+  post({ type: 'checkpoint', payload });
+});
+engine.on('awaitingData', payload => {
+  flush();
+  post({ type: 'awaitingData', payload });
+});
+engine.on('finished', payload => {
+  running = false;
+  flush();
+  post({ type: 'finished', payload });
+});
+
+// ========== STEPPING ==========
+
+const tick = (): void => {
+  stepTimer = null;
+  try {
+    if (speed === 'max') {
+      const sliceEnd = performance.now() + MAX_SPEED_SLICE_MS;
+      while (engine.step() && performance.now() < sliceEnd) {
+        // Keep stepping until the slice is used up or the run pauses itself
+      }
+    } else {
+      engine.step();
+    }
+  } catch (error) {
+    // A timed run has no command to report through; stop the clock and tell the UI
+    running = false;
+    flush();
+    post({ type: 'error', payload: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  schedule();
+};
+
+/**
+ * (Re)arm the step clock. Finished runs and runs awaiting data stay idle until the next command.
+ */
+const schedule = (): void => {
+  if (stepTimer !== null) {
+    clearTimeout(stepTimer);
+    stepTimer = null;
+  }
+  if (!running || engine.status !== 'ready') return;
+  const intervalMs = SIMULATION_SPEED_OPTIONS.find(opt => opt.value === speed)?.intervalMs ?? 0;
+  stepTimer = setTimeout(tick, intervalMs);
+};
+
+// ========== COMMANDS ==========
+
+scope.addEventListener('message', (event: MessageEvent<SimulationWorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'load':
+        engine.load(request.params, request.marketData);
+        break;
+      case 'provideMarketData':
+        engine.provideMarketData(request.marketData);
+        break;
+      case 'appendCandles':
+        engine.appendCandles(request.candles);
+        break;
+      case 'startTraining':
+        engine.startTraining(request.params);
+        break;
+      case 'loadCheckpoint':
+        engine.loadCheckpoint(request.checkpoint);
+        break;
+      case 'run':
+        running = request.running;
+        break;
+      case 'setSpeed':
+        speed = request.speed;
+        break;
+      case 'step':
+        engine.step();
+        flush(); // A single step should show up immediately
+        break;
+      case 'stepBack':
+        engine.stepBack();
+        flush();
+        break;
+      case 'seek':
+        engine.seek(request.step);
+        flush();
+        break;
+      case 'fork':
+        engine.fork(request.params);
+        flush();
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', payload: error instanceof Error ? error.message : String(error) });
+  }
+  schedule();
+});